@@ -0,0 +1,276 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { ACCEPTED_EXTENSIONS, type ReviewResult, type RiskLevel } from "@/lib/review/schema";
+import type { ClauseChange, Comparison, CounterStatus, RiskChangeStatus } from "@/lib/compare";
+import DiffText from "../Review/components/DiffText";
+import PlaybookPicker from "../Review/components/PlaybookPicker";
+import RiskBadge from "../Review/components/RiskBadge";
+import { cls } from "../Review/components/ui";
+
+type Side = "before" | "after";
+
+type SavedReview = { id: string; filename?: string; parties: string; createdAt: string };
+
+type CompareResponse = { before: ReviewResult; after: ReviewResult; comparison: Comparison };
+
+const RISK_STATUS: Record<RiskChangeStatus, { label: string; tone: string }> = {
+  added: { label: "New", tone: "bg-rose-50 text-rose-700 ring-rose-200" },
+  raised: { label: "Raised", tone: "bg-rose-50 text-rose-700 ring-rose-200" },
+  resolved: { label: "Resolved", tone: "bg-emerald-50 text-emerald-700 ring-emerald-200" },
+  lowered: { label: "Lowered", tone: "bg-emerald-50 text-emerald-700 ring-emerald-200" },
+  unchanged: { label: "Unchanged", tone: "bg-gray-50 text-gray-600 ring-gray-200" },
+};
+
+const COUNTER_STATUS: Record<CounterStatus, { label: string; tone: string }> = {
+  changed: { label: "Clause changed", tone: "text-emerald-700" },
+  unchanged: { label: "Clause untouched", tone: "text-rose-700" },
+  uncited: { label: "No cited clause", tone: "text-gray-500" },
+};
+
+function StatusPill({ label, tone }: { label: string; tone: string }) {
+  return <span className={cls("inline-flex shrink-0 items-center rounded-full px-2 py-0.5 text-xs font-medium ring-1", tone)}>{label}</span>;
+}
+
+// One upload slot; the earlier version can also be picked from saved reviews.
+function VersionInput({ side, file, savedId, saved, onFile, onSaved }: {
+  side: Side;
+  file: File | null;
+  savedId: string;
+  saved: SavedReview[];
+  onFile: (f: File | null) => void;
+  onSaved: (id: string) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  return (
+    <div className="rounded-xl border p-3">
+      <h3 className="mb-2 text-sm font-semibold">{side === "before" ? "Earlier version" : "New version"}</h3>
+      <div
+        onClick={() => inputRef.current?.click()}
+        className="flex cursor-pointer flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed p-6 text-center text-sm hover:bg-gray-50"
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS.join(",")}
+          className="hidden"
+          onChange={(e) => { onFile(e.target.files?.[0] ?? null); onSaved(""); }}
+        />
+        <span><strong>Click to upload</strong></span>
+        {file && <p className="text-xs text-gray-500">Selected: {file.name}</p>}
+      </div>
+      {saved.length > 0 && (
+        <select
+          value={savedId}
+          onChange={(e) => { onSaved(e.target.value); if (e.target.value) onFile(null); }}
+          className="mt-2 w-full rounded-lg border border-gray-300 p-1.5 text-xs"
+        >
+          <option value="">…or pick a saved review</option>
+          {saved.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.filename || r.parties || "Pasted text"} — {new Date(r.createdAt).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+function ClauseRow({ change, before, after }: { change: ClauseChange; before: string; after: string }) {
+  const tone: Record<ClauseChange["status"], string> = {
+    modified: "bg-amber-50 text-amber-700 ring-amber-200",
+    added: "bg-emerald-50 text-emerald-700 ring-emerald-200",
+    removed: "bg-rose-50 text-rose-700 ring-rose-200",
+    unchanged: "bg-gray-50 text-gray-600 ring-gray-200",
+  };
+  const beforeText = change.before ? before.slice(change.before.start, change.before.end).trim() : "";
+  const afterText = change.after ? after.slice(change.after.start, change.after.end).trim() : "";
+  return (
+    <li className="rounded-xl border p-3">
+      <div className="mb-1 flex items-center gap-2">
+        <StatusPill label={change.status[0].toUpperCase() + change.status.slice(1)} tone={tone[change.status]} />
+        <span className="truncate text-sm font-medium">{change.heading || "Untitled clause"}</span>
+      </div>
+      <p className="whitespace-pre-wrap text-xs leading-relaxed text-gray-800">
+        {change.status === "modified" && change.diff ? <DiffText ops={change.diff} /> :
+         change.status === "modified" ? <>{afterText}<span className="mt-1 block text-gray-500">Too long to diff word by word.</span></> :
+         change.status === "removed" ? <del className="bg-rose-100 text-rose-800">{beforeText}</del> :
+         change.status === "added" ? <ins className="bg-emerald-100 text-emerald-800 no-underline">{afterText}</ins> :
+         afterText}
+      </p>
+    </li>
+  );
+}
+
+function LevelChange({ before, after }: { before?: RiskLevel; after?: RiskLevel }) {
+  return (
+    <span className="flex shrink-0 items-center gap-1 text-xs text-gray-500">
+      {before ? <RiskBadge level={before} /> : "—"}
+      <span>→</span>
+      {after ? <RiskBadge level={after} /> : "—"}
+    </span>
+  );
+}
+
+export default function CompareVersionsPage() {
+  const [files, setFiles] = useState<Record<Side, File | null>>({ before: null, after: null });
+  const [savedIds, setSavedIds] = useState<Record<Side, string>>({ before: "", after: "" });
+  const [saved, setSaved] = useState<SavedReview[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<CompareResponse | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [playbook, setPlaybook] = useState("");
+
+  useEffect(() => {
+    fetch("/api/reviews", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : { reviews: [] }))
+      .then((d) => setSaved(d.reviews ?? []))
+      .catch(() => setSaved([]));
+  }, []);
+
+  const ready = (["before", "after"] as Side[]).every((s) => files[s] || savedIds[s]);
+
+  const compare = async () => {
+    if (!ready) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const fd = new FormData();
+      for (const side of ["before", "after"] as Side[]) {
+        if (savedIds[side]) fd.append(`${side}Id`, savedIds[side]);
+        else fd.append(side, files[side]!);
+      }
+      if (playbook) fd.append("playbook", playbook);
+      const res = await fetch("/api/compare", { method: "POST", body: fd });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || `API error ${res.status}`);
+      setData(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't compare these versions.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cmp = data?.comparison;
+  const clauses = cmp ? cmp.clauses.filter((c) => showUnchanged || c.status !== "unchanged") : [];
+
+  return (
+    <div className="mx-auto w-full max-w-5xl rounded-2xl border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="mb-2 flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold tracking-tight">Compare Contract Versions</h2>
+          <p className="text-sm text-gray-600">See what changed between drafts and whether your counters made it in.</p>
+        </div>
+        <Link href="/Review" className="text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">Back to review</Link>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {(["before", "after"] as Side[]).map((side) => (
+          <VersionInput
+            key={side}
+            side={side}
+            file={files[side]}
+            savedId={savedIds[side]}
+            saved={saved}
+            onFile={(f) => setFiles((prev) => ({ ...prev, [side]: f }))}
+            onSaved={(id) => setSavedIds((prev) => ({ ...prev, [side]: id }))}
+          />
+        ))}
+      </div>
+
+      <PlaybookPicker value={playbook} onChange={setPlaybook} />
+
+      <div className="mt-4 flex justify-center">
+        <button
+          onClick={compare}
+          className="inline-flex items-center justify-center rounded-xl bg-black px-3 py-2 text-sm font-medium text-white hover:bg-gray-900 disabled:opacity-60"
+          disabled={loading || !ready}
+        >
+          {loading ? "Comparing…" : "Compare versions"}
+        </button>
+      </div>
+      {error && (<p className="mt-2 text-xs text-rose-600 text-center">{error}</p>)}
+
+      {data && cmp && (
+        <div className="mt-6 space-y-4">
+          <p className="rounded-xl bg-gray-50 p-3 text-xs text-gray-700 ring-1 ring-gray-200">
+            {cmp.summary.clausesModified} clause(s) modified, {cmp.summary.clausesAdded} added, {cmp.summary.clausesRemoved} removed ·{" "}
+            {cmp.summary.risksResolved} risk(s) resolved, {cmp.summary.risksAdded} new, {cmp.summary.risksChanged} changed level
+          </p>
+
+          <div className="rounded-2xl border border-gray-200 p-4">
+            <h3 className="mb-2 text-sm font-semibold">Snapshot changes</h3>
+            <table className="w-full table-fixed text-left text-xs text-gray-800">
+              <thead className="text-gray-500">
+                <tr><th className="w-32 py-1">Field</th><th className="py-1">Earlier</th><th className="py-1">New</th></tr>
+              </thead>
+              <tbody>
+                {cmp.snapshot.filter((f) => f.before || f.after).map((f) => (
+                  <tr key={f.field} className={cls("border-t align-top", f.changed && "bg-amber-50")}>
+                    <td className="py-1.5 pr-2 font-medium">{f.label}</td>
+                    <td className="py-1.5 pr-2">{f.before || "—"}</td>
+                    <td className="py-1.5">{f.diff ? <DiffText ops={f.diff} /> : f.after || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="rounded-2xl border border-gray-200 p-4">
+            <h3 className="mb-2 text-sm font-semibold">Risk changes</h3>
+            {cmp.risks.length === 0 && <p className="text-xs text-gray-500">No risks flagged in either version.</p>}
+            <ul className="space-y-2 text-sm text-gray-800">
+              {cmp.risks.map((r, i) => (
+                <li key={i} className="flex items-start gap-2">
+                  <StatusPill {...RISK_STATUS[r.status]} />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium">{r.label}</div>
+                    {r.note && <div className="text-gray-600">{r.note}</div>}
+                  </div>
+                  <LevelChange before={r.before} after={r.after} />
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {cmp.counters.length > 0 && (
+            <div className="rounded-2xl border border-gray-200 p-4">
+              <h3 className="mb-2 text-sm font-semibold">Did our counters land?</h3>
+              <ul className="space-y-1 text-sm text-gray-800">
+                {cmp.counters.map((c, i) => (
+                  <li key={i} className="flex items-start justify-between gap-2">
+                    <span>{c.counter}</span>
+                    <span className={cls("shrink-0 text-xs font-medium", COUNTER_STATUS[c.status].tone)}>
+                      {COUNTER_STATUS[c.status].label}
+                      {c.clauses.length > 0 && ` (${c.clauses.map((k) => cmp.clauses[k].heading || "untitled").join(", ")})`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="rounded-2xl border border-gray-200 p-4">
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Clause changes</h3>
+              <label className="flex items-center gap-1 text-xs text-gray-600">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged clauses
+              </label>
+            </div>
+            {clauses.length === 0 && <p className="text-xs text-gray-500">No textual changes.</p>}
+            <ul className="space-y-2">
+              {clauses.map((c, i) => (
+                <ClauseRow key={i} change={c} before={data.before.rawText ?? ""} after={data.after.rawText ?? ""} />
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import SignInGate from "../Review/components/SignInGate";
+
+export default function PortfolioLayout({ children }: { children: React.ReactNode }) {
+  return <SignInGate>{children}</SignInGate>;
+}
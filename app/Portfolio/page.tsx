@@ -0,0 +1,199 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { portfolioSearchParams, queryPortfolio, type PortfolioQuery, type PortfolioSort } from "@/lib/portfolio";
+import { REVIEW_STATUS_LABELS, RISK_LEVELS, type Money } from "@/lib/review/schema";
+import type { ReviewSummary } from "@/lib/store/reviews";
+import RiskBadge from "../Review/components/RiskBadge";
+import { cls } from "../Review/components/ui";
+
+const COLUMNS: { sort: PortfolioSort; label: string; className?: string }[] = [
+  { sort: "filename", label: "Contract" },
+  { sort: "parties", label: "Parties" },
+  { sort: "fee", label: "Rate", className: "w-48" },
+  { sort: "term", label: "Term", className: "w-40" },
+  { sort: "risk", label: "Highest risk", className: "w-28" },
+  { sort: "createdAt", label: "Reviewed", className: "w-28" },
+];
+
+function formatMoney(m: Money) {
+  try {
+    return m.amount.toLocaleString("en-US", { style: "currency", currency: m.currency, maximumFractionDigits: 0 });
+  } catch {
+    return `${m.amount.toLocaleString("en-US")} ${m.currency}`;
+  }
+}
+
+// Every saved review in one table; filters and sort carry over to the CSV export.
+export default function PortfolioPage() {
+  const [reviews, setReviews] = useState<ReviewSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState<PortfolioQuery>({ sort: "createdAt", order: "desc" });
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/reviews", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`API error ${res.status}`))))
+      .then((data) => { if (!cancelled) setReviews(data.reviews ?? []); })
+      .catch(() => { if (!cancelled) setError("Couldn't load your contracts."); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const rows = useMemo(() => (reviews ? queryPortfolio(reviews, query) : []), [reviews, query]);
+
+  const sortBy = (sort: PortfolioSort) =>
+    setQuery((q) => ({ ...q, sort, order: q.sort === sort ? (q.order === "asc" ? "desc" : "asc") : sort === "createdAt" || sort === "risk" ? "desc" : "asc" }));
+
+  const exportCsv = async () => {
+    setError(null);
+    try {
+      const params = portfolioSearchParams(query);
+      params.set("format", "csv");
+      const res = await fetch(`/api/reviews?${params}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`Export error ${res.status}`);
+      const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "contracts.csv";
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("portfolio export error", err);
+      setError("Couldn't export the list. Please try again.");
+    }
+  };
+
+  // Past deals for the rate benchmark (see /api/benchmarks); reviewed contracts count already.
+  const importDeals = async (file: File) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const fd = new FormData();
+      fd.append("file", file);
+      const res = await fetch("/api/benchmarks", { method: "POST", body: fd });
+      const data = await res.json().catch(() => ({}));
+      const skipped = (data.errors ?? []) as { line: number; error: string }[];
+      const detail = skipped.length ? ` Skipped line${skipped.length === 1 ? "" : "s"} ${skipped.map((e) => e.line).join(", ")}: ${skipped[0].error}${skipped.length > 1 ? "…" : ""}` : "";
+      if (!res.ok) throw new Error(`${data.error ?? `Import error ${res.status}`}${detail}`);
+      setNotice(`Imported ${data.imported} past deal${data.imported === 1 ? "" : "s"} for rate benchmarks.${detail}`);
+    } catch (err) {
+      console.error("deal import error", err);
+      setError(err instanceof Error ? err.message : "Couldn't import the deals.");
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-6xl rounded-2xl border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="mb-3 flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold tracking-tight">All Contracts</h2>
+          <p className="text-sm text-gray-600">Every reviewed contract with its parties, rate, term and highest risk.</p>
+        </div>
+        <Link href="/Review" className="text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">Back to review</Link>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+        <input
+          type="search"
+          value={query.q ?? ""}
+          onChange={(e) => setQuery((q) => ({ ...q, q: e.target.value || undefined }))}
+          placeholder="Filter by file, party, rate or term…"
+          className="min-w-0 flex-1 rounded-lg border border-gray-300 p-2 focus:border-gray-500 focus:outline-none"
+        />
+        <select
+          value={query.risk ?? ""}
+          onChange={(e) => setQuery((q) => ({ ...q, risk: (e.target.value || undefined) as PortfolioQuery["risk"] }))}
+          className="rounded-lg border border-gray-300 p-2"
+        >
+          <option value="">Any risk</option>
+          {[...RISK_LEVELS].reverse().map((l) => <option key={l} value={l}>{l}</option>)}
+          <option value="none">No risks</option>
+        </select>
+        <button
+          type="button"
+          onClick={exportCsv}
+          disabled={!rows.length}
+          className="rounded-lg border border-gray-300 px-3 py-2 font-medium hover:bg-gray-50 disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+        <label className="cursor-pointer rounded-lg border border-gray-300 px-3 py-2 font-medium hover:bg-gray-50" title="CSV with rate or fee, deliverables, platform, usage and exclusivity columns">
+          Import deal history
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) importDeals(f);
+            }}
+          />
+        </label>
+      </div>
+
+      {error && <p className="mb-2 text-xs text-rose-600">{error}</p>}
+      {notice && <p className="mb-2 text-xs text-emerald-700">{notice}</p>}
+      {reviews && (
+        <p className="mb-2 text-xs text-gray-500">
+          {rows.length === reviews.length ? `${reviews.length} contract${reviews.length === 1 ? "" : "s"}` : `${rows.length} of ${reviews.length} contracts`}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full table-fixed text-left text-xs text-gray-800">
+          <thead className="text-gray-500">
+            <tr>
+              {COLUMNS.map((c) => (
+                <th key={c.sort} className={cls("py-1 pr-2", c.className)} aria-sort={query.sort === c.sort ? (query.order === "asc" ? "ascending" : "descending") : undefined}>
+                  <button type="button" onClick={() => sortBy(c.sort)} className={cls("hover:text-gray-900", query.sort === c.sort && "font-semibold text-gray-900")}>
+                    {c.label}{query.sort === c.sort && (query.order === "asc" ? " ↑" : " ↓")}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.id} className="border-t align-top hover:bg-gray-50">
+                <td className="py-1.5 pr-2">
+                  <Link href={`/Review?id=${r.id}`} className="font-medium text-gray-900 underline-offset-2 hover:underline">{r.filename || "Pasted text"}</Link>
+                  {r.playbook && <div className="text-gray-500">{r.playbook}</div>}
+                </td>
+                <td className="py-1.5 pr-2">{r.parties || "—"}</td>
+                <td className="py-1.5 pr-2">
+                  {r.fee && <div className="font-medium">{formatMoney(r.fee)}</div>}
+                  <div className={cls(r.fee && "text-gray-500")}>{r.rate || (!r.fee && "—")}</div>
+                </td>
+                <td className="py-1.5 pr-2">
+                  {r.termMonths !== undefined && <div className="font-medium">{r.termMonths} month{r.termMonths === 1 ? "" : "s"}</div>}
+                  <div className={cls(r.termMonths !== undefined && "text-gray-500")}>{r.term || (r.termMonths === undefined && "—")}</div>
+                </td>
+                <td className="py-1.5 pr-2">
+                  {r.highestRisk ? <RiskBadge level={r.highestRisk} /> : <span className="text-gray-400">None</span>}
+                  {r.risks > 0 && <div className="mt-0.5 text-gray-500">{r.risks} risk{r.risks === 1 ? "" : "s"}</div>}
+                </td>
+                <td className="py-1.5 text-gray-500">
+                  {new Date(r.createdAt).toLocaleDateString()}
+                  {r.status && (
+                    <div className={cls(r.status === "approved" && "font-medium text-emerald-700")} title={r.reviewer && `Reviewer: ${r.reviewer}`}>
+                      {REVIEW_STATUS_LABELS[r.status]}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {reviews && !rows.length && (
+          <p className="py-6 text-center text-xs text-gray-500">{reviews.length ? "No contracts match these filters." : "Contracts you review show up here."}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React, { useState } from "react";
+import { RISK_LEVELS, type RiskLevel } from "@/lib/review/schema";
+
+type Added = { kind: "risk"; label: string; level: RiskLevel; note?: string } | { kind: "counter"; text: string };
+
+// "Add a risk" / "Add a counter" link that opens a small form for a reviewer's own finding.
+export default function AddFindingForm({ kind, onAdd }: { kind: Added["kind"]; onAdd: (added: Added) => void }) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [level, setLevel] = useState<RiskLevel>("Med");
+  const [note, setNote] = useState("");
+
+  const close = () => {
+    setOpen(false);
+    setText("");
+    setNote("");
+    setLevel("Med");
+  };
+
+  if (!open) {
+    return (
+      <button type="button" onClick={() => setOpen(true)} className="mt-2 text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">
+        {kind === "risk" ? "Add a risk" : "Add a counter"}
+      </button>
+    );
+  }
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onAdd(kind === "risk" ? { kind, label: text.trim(), level, note: note.trim() || undefined } : { kind, text: text.trim() });
+    close();
+  };
+
+  const input = "rounded-lg border border-gray-300 px-2 py-1 text-sm focus:border-gray-500 focus:outline-none";
+  return (
+    <form onSubmit={submit} className="mt-2 space-y-2 rounded-xl bg-gray-50 p-2">
+      <div className="flex gap-2">
+        <input value={text} onChange={(e) => setText(e.target.value)} placeholder={kind === "risk" ? "What's the risk?" : "What to ask for"} autoFocus className={`${input} flex-1`} />
+        {kind === "risk" && (
+          <select value={level} onChange={(e) => setLevel(e.target.value as RiskLevel)} className={input} aria-label="Risk level">
+            {RISK_LEVELS.map((l) => <option key={l} value={l}>{l}</option>)}
+          </select>
+        )}
+      </div>
+      {kind === "risk" && <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Why it matters (optional)" className={`${input} w-full`} />}
+      <div className="flex gap-2 text-xs">
+        <button type="submit" disabled={!text.trim()} className="rounded-lg bg-black px-2 py-1 font-medium text-white disabled:opacity-50">Add</button>
+        <button type="button" onClick={close} className="text-gray-600 underline underline-offset-2">Cancel</button>
+      </div>
+    </form>
+  );
+}
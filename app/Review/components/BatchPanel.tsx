@@ -0,0 +1,92 @@
+'use client'
+
+import React, { useEffect, useEffectEvent, useState } from "react";
+import Link from "next/link";
+import type { BatchItemStatus, BatchJob } from "@/lib/batch";
+import RiskBadge from "./RiskBadge";
+import { cls } from "./ui";
+
+const POLL_MS = 2000;
+
+const STATUS: Record<BatchItemStatus, { label: string; tone: string }> = {
+  queued: { label: "Queued", tone: "text-gray-500" },
+  running: { label: "Reviewing…", tone: "text-sky-700" },
+  done: { label: "Done", tone: "text-emerald-700" },
+  failed: { label: "Failed", tone: "text-rose-700" },
+};
+
+// Polls a batch job until every file is done or failed.
+export default function BatchPanel({ jobId, onOpen, onDone }: {
+  jobId: string;
+  onOpen: (reviewId: string) => void;
+  onDone: () => void;
+}) {
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The latest onDone, without restarting the polling when the parent re-renders.
+  const onJobDone = useEffectEvent(() => onDone());
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/batch/${jobId}`, { cache: "no-store" });
+        if (!res.ok) throw new Error(`API error ${res.status}`);
+        const next: BatchJob = await res.json();
+        if (cancelled) return;
+        setJob(next);
+        setError(null);
+        if (next.status === "done") return onJobDone();
+      } catch {
+        if (!cancelled) setError("Couldn't check on the batch; retrying…");
+      }
+      if (!cancelled) timer = setTimeout(poll, POLL_MS);
+    };
+    poll();
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [jobId]);
+
+  const finished = job?.items.filter((i) => i.status === "done" || i.status === "failed").length ?? 0;
+  const failed = job?.items.filter((i) => i.status === "failed").length ?? 0;
+
+  return (
+    <div className="mt-6 rounded-xl border p-4">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">
+          Batch review {job && <span className="font-normal text-gray-500">— {finished} of {job.items.length} finished{failed > 0 && `, ${failed} failed`}</span>}
+        </h3>
+        <Link href="/Portfolio" className="text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">Open dashboard</Link>
+      </div>
+      {job && (
+        <div className="mb-3 h-2 w-full rounded-full bg-gray-200">
+          <div className="h-2 rounded-full bg-black transition-all" style={{ width: `${(finished / job.items.length) * 100}%` }} />
+        </div>
+      )}
+      {error && <p className="mb-2 text-xs text-rose-600">{error}</p>}
+      <ul className="divide-y text-xs">
+        {job?.items.map((item) => (
+          <li key={item.index} className="flex items-center gap-2 py-1.5">
+            <span className="min-w-0 flex-1 truncate text-gray-900" title={item.filename}>{item.filename}</span>
+            {item.highestRisk && <RiskBadge level={item.highestRisk} />}
+            <span className={cls("shrink-0", STATUS[item.status].tone)} title={item.error}>
+              {STATUS[item.status].label}
+              {item.status === "queued" && item.attempts > 0 && " (retrying)"}
+              {item.cached && " (saved)"}
+            </span>
+            {item.reviewId && (
+              <button type="button" onClick={() => onOpen(item.reviewId!)} className="shrink-0 text-gray-600 underline underline-offset-2 hover:text-gray-900">
+                Open
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {job?.items.some((i) => i.status === "failed") && (
+        <ul className="mt-2 space-y-0.5 text-xs text-rose-700">
+          {job.items.filter((i) => i.status === "failed").map((i) => <li key={i.index}>{i.filename}: {i.error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import React, { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { Citation, ContractAnswer, ReviewResult } from "@/lib/review/schema";
+import { cls } from "./ui";
+
+const SUGGESTIONS = ["Can I post on TikTok too?", "What happens if I'm late?", "When do I get paid?"];
+
+// Follow-up questions about the open contract. Every answer's quotes become
+// `ask.<turn>` citations so they highlight in the contract text like the rest.
+export default function ContractChat({ result, active, onSelect, onCitations }: {
+  result: ReviewResult;
+  active: string | null;
+  onSelect: (target: string) => void;
+  onCitations: (citations: Citation[]) => void;
+}) {
+  const [turns, setTurns] = useState<ContractAnswer[]>([]);
+  const [question, setQuestion] = useState("");
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  // The latest onCitations; only new turns should publish citations.
+  const publishCitations = useEffectEvent((citations: Citation[]) => onCitations(citations));
+
+  useEffect(() => {
+    publishCitations(turns.flatMap((t, i) => t.sources.map((s) => ({ ...s, target: `ask.${i}` }))));
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [turns]);
+
+  const ask = async (q: string) => {
+    q = q.trim();
+    if (!q || pending) return;
+    setPending(q);
+    setError(null);
+    try {
+      const res = await fetch("/api/ask", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          question: q,
+          history: turns.map(({ question, answer }) => ({ question, answer })),
+          ...(result.reviewId ? { id: result.reviewId } : { rawText: result.rawText }),
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `API error ${res.status}`);
+      setTurns((prev) => [...prev, data as ContractAnswer]);
+      setQuestion("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't answer that. Please try again.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <h3 className="mb-1 text-sm font-semibold">Ask about this contract</h3>
+      <p className="mb-3 text-xs text-gray-500">Answers come only from the contract text, with the clauses they rely on.</p>
+
+      <div className="max-h-96 space-y-3 overflow-y-auto text-sm">
+        {turns.map((t, i) => (
+          <div key={i} className="space-y-1">
+            <p className="ml-auto w-fit max-w-[85%] rounded-xl bg-gray-100 px-3 py-1.5 text-gray-900">{t.question}</p>
+            <div className={cls("max-w-[85%] rounded-xl px-3 py-1.5 ring-1", t.addressed ? "ring-gray-200" : "bg-amber-50 text-amber-900 ring-amber-200")}>
+              <p>{t.answer}</p>
+              {t.sources.map((s, k) => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => onSelect(`ask.${i}`)}
+                  className={cls(
+                    "mt-1 block w-full border-l-2 pl-2 text-left text-xs text-gray-600 hover:text-gray-900",
+                    active === `ask.${i}` ? "border-yellow-400 bg-yellow-50" : "border-gray-300"
+                  )}
+                >
+                  “{s.quote}”
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        {pending && (
+          <div className="space-y-1">
+            <p className="ml-auto w-fit max-w-[85%] rounded-xl bg-gray-100 px-3 py-1.5 text-gray-900">{pending}</p>
+            <p className="text-xs text-gray-500">Reading the contract…</p>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {!turns.length && !pending && (
+        <div className="mb-2 flex flex-wrap gap-1.5">
+          {SUGGESTIONS.map((s) => (
+            <button key={s} type="button" onClick={() => ask(s)} className="rounded-full border border-gray-300 px-2 py-0.5 text-xs text-gray-700 hover:bg-gray-50">
+              {s}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={(e) => { e.preventDefault(); ask(question); }} className="mt-2 flex gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question…"
+          maxLength={1000}
+          className="min-w-0 flex-1 rounded-xl border border-gray-300 p-2 text-sm focus:border-gray-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || !!pending}
+          className="rounded-xl bg-black px-3 py-2 text-sm font-medium text-white hover:bg-gray-900 disabled:opacity-60"
+        >
+          Ask
+        </button>
+      </form>
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
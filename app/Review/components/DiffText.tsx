@@ -0,0 +1,15 @@
+import React from "react";
+import type { DiffOp } from "@/lib/redline/diff";
+
+// Inline word diff: deletions struck through in red, insertions in green.
+export default function DiffText({ ops }: { ops: DiffOp[] }) {
+  return (
+    <>
+      {ops.map((op, i) =>
+        op.type === "equal" ? <React.Fragment key={i}>{op.text}</React.Fragment> :
+        op.type === "delete" ? <del key={i} className="bg-rose-100 text-rose-800">{op.text}</del> :
+        <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline">{op.text}</ins>
+      )}
+    </>
+  );
+}
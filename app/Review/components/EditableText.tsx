@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { cls } from "./ui";
+
+// Shows `children` with an "edit" link (or `label`) that swaps in a text box for
+// `value`. Edited values get a "revert" link back to the AI's wording.
+export default function EditableText({ value, edited, disabled, label = "edit", onSave, onRevert, children }: {
+  value: string;
+  edited?: boolean;
+  disabled?: boolean;
+  label?: string;
+  onSave: (value: string) => void;
+  onRevert?: () => void;
+  children: React.ReactNode;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft !== null) {
+    return (
+      <span className="mt-1 block">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onClick={(e) => e.stopPropagation()}
+          rows={Math.min(6, Math.max(2, Math.ceil(draft.length / 60)))}
+          autoFocus
+          className="w-full rounded-lg border border-gray-300 p-2 text-sm focus:border-gray-500 focus:outline-none"
+        />
+        <span className="mt-1 flex gap-2 text-xs">
+          <button type="button" onClick={(e) => { e.stopPropagation(); onSave(draft.trim()); setDraft(null); }} className="font-medium underline underline-offset-2">
+            Save
+          </button>
+          <button type="button" onClick={(e) => { e.stopPropagation(); setDraft(null); }} className="text-gray-600 underline underline-offset-2">
+            Cancel
+          </button>
+        </span>
+      </span>
+    );
+  }
+
+  return (
+    <>
+      <span className={cls(edited && "rounded bg-blue-50 px-0.5")} title={edited ? "Edited by the reviewer" : undefined}>{children}</span>
+      {!disabled && (
+        <button
+          type="button"
+          onClick={(e) => { e.stopPropagation(); setDraft(value); }}
+          className="ml-1 text-[11px] text-gray-500 underline-offset-2 hover:text-gray-900 hover:underline"
+        >
+          {label}
+        </button>
+      )}
+      {edited && !disabled && onRevert && (
+        <button
+          type="button"
+          onClick={(e) => { e.stopPropagation(); onRevert(); }}
+          className="ml-1 text-[11px] text-gray-500 underline-offset-2 hover:text-gray-900 hover:underline"
+        >
+          revert
+        </button>
+      )}
+    </>
+  );
+}
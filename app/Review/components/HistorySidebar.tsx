@@ -0,0 +1,74 @@
+'use client'
+
+import React, { useEffect, useState } from "react";
+import type { RiskLevel } from "@/lib/review/schema";
+import { cls } from "./ui";
+
+type ReviewSummary = {
+  id: string;
+  filename?: string;
+  parties: string;
+  highestRisk: RiskLevel | null;
+  createdAt: string;
+};
+
+const DOT: Record<RiskLevel, string> = { Low: "bg-emerald-500", Med: "bg-amber-500", High: "bg-rose-500" };
+
+// Saved reviews; clicking one re-opens it without another LLM call.
+export default function HistorySidebar({ refreshKey, activeId, onOpen, onDeleted }: {
+  refreshKey: number;
+  activeId?: string;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+}) {
+  const [reviews, setReviews] = useState<ReviewSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/reviews", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`API error ${res.status}`))))
+      .then((data) => { if (!cancelled) { setReviews(data.reviews ?? []); setError(null); } })
+      .catch(() => { if (!cancelled) setError("Couldn't load history."); });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const remove = async (id: string) => {
+    if (!confirm("Delete this saved review?")) return;
+    const res = await fetch(`/api/reviews/${id}`, { method: "DELETE" });
+    if (res.ok || res.status === 404) {
+      setReviews((prev) => prev.filter((r) => r.id !== id));
+      onDeleted(id);
+    }
+  };
+
+  return (
+    <aside className="w-full shrink-0 rounded-2xl border border-gray-200 bg-white p-3 shadow-sm lg:w-64">
+      <h3 className="mb-2 text-sm font-semibold">History</h3>
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      {!error && reviews.length === 0 && <p className="text-xs text-gray-500">Reviews you run are saved here.</p>}
+      <ul className="max-h-[70vh] space-y-1 overflow-y-auto">
+        {reviews.map((r) => (
+          <li key={r.id} className={cls("group flex items-start gap-2 rounded-lg p-2 text-xs hover:bg-gray-50", r.id === activeId && "bg-gray-100")}>
+            <button type="button" onClick={() => onOpen(r.id)} className="min-w-0 flex-1 text-left">
+              <div className="flex items-center gap-1.5">
+                {r.highestRisk && <span className={cls("h-2 w-2 shrink-0 rounded-full", DOT[r.highestRisk])} title={`Highest risk: ${r.highestRisk}`} />}
+                <span className="truncate font-medium text-gray-900">{r.filename || "Pasted text"}</span>
+              </div>
+              {r.parties && <div className="truncate text-gray-600">{r.parties}</div>}
+              <div className="text-gray-400">{new Date(r.createdAt).toLocaleString()}</div>
+            </button>
+            <button
+              type="button"
+              onClick={() => remove(r.id)}
+              className="invisible text-gray-400 hover:text-rose-600 group-hover:visible"
+              aria-label="Delete review"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
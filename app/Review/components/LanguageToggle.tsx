@@ -0,0 +1,38 @@
+import React from "react";
+import { LANGUAGE_NAMES, type ReviewResult } from "@/lib/review/schema";
+import { cls } from "./ui";
+
+// Switches between the review as written (in the contract's language) and its translation.
+export default function LanguageToggle({ result, translated, disabled, onChange }: {
+  result: ReviewResult;
+  translated: boolean;
+  // Set once the findings have been edited; edits belong to the language they were made in.
+  disabled?: boolean;
+  onChange: (translated: boolean) => void;
+}) {
+  if (!result.language || !result.translation) return null;
+  const options = [
+    { value: false, label: `${LANGUAGE_NAMES[result.language.code]} (contract)` },
+    { value: true, label: LANGUAGE_NAMES[result.translation.language] },
+  ];
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      <span>Show review in</span>
+      <div className="inline-flex rounded-full border border-gray-300 p-0.5">
+        {options.map((o) => (
+          <button
+            key={o.label}
+            type="button"
+            aria-pressed={translated === o.value}
+            disabled={disabled}
+            title={disabled ? "The review was edited in this language" : undefined}
+            onClick={() => onChange(o.value)}
+            className={cls("rounded-full px-2 py-0.5 disabled:cursor-not-allowed", translated === o.value ? "bg-gray-900 text-white" : "hover:bg-gray-50 disabled:hover:bg-transparent")}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
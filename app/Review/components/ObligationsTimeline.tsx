@@ -0,0 +1,107 @@
+'use client'
+
+import React, { useState } from "react";
+import type { Obligation, ReviewResult } from "@/lib/review/schema";
+import { cls } from "./ui";
+
+const KIND_LABELS: Record<Obligation["kind"], string> = {
+  deliverable: "Deliverable",
+  posting: "Posting",
+  invoice: "Invoice",
+  payment: "Payment",
+  exclusivity: "Exclusivity",
+  usage: "Usage",
+  term: "Term",
+};
+
+// Deadlines the creator can miss; these get a countdown.
+const ACTIONABLE: Obligation["kind"][] = ["deliverable", "posting", "invoice"];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function formatDate(iso: string) {
+  return new Date(`${iso}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+function countdown(o: Obligation, today: string): { label: string; tone: string } | null {
+  if (!ACTIONABLE.includes(o.kind)) return null;
+  const last = o.until ?? o.date;
+  if (last < today) return { label: "Passed", tone: "bg-gray-100 text-gray-600" };
+  if (o.date <= today) return { label: "Open now", tone: "bg-rose-50 text-rose-700" };
+  const days = Math.round((Date.parse(o.date) - Date.parse(today)) / DAY);
+  return { label: `In ${days} day${days === 1 ? "" : "s"}`, tone: days <= 7 ? "bg-amber-50 text-amber-800" : "bg-gray-50 text-gray-600" };
+}
+
+export default function ObligationsTimeline({ result, filename }: { result: ReviewResult; filename?: string }) {
+  const [error, setError] = useState<string | null>(null);
+  const obligations = result.obligations ?? [];
+  if (!obligations.length) return null;
+  const today = new Date().toISOString().slice(0, 10);
+
+  const download = async (format: "ics" | "csv") => {
+    setError(null);
+    try {
+      const res = await fetch("/api/obligations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ result, format, filename }),
+      });
+      if (!res.ok) throw new Error(`Export error ${res.status}`);
+      const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `Contract_Obligations.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("obligations export error", err);
+      setError("Couldn't export the obligations. Please try again.");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">Deadlines & obligations</h3>
+        <div className="flex gap-2">
+          <button onClick={() => download("ics")} className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium hover:bg-gray-50">
+            Add to calendar (.ics)
+          </button>
+          <button onClick={() => download("csv")} className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium hover:bg-gray-50">
+            CSV
+          </button>
+        </div>
+      </div>
+      {error && <p className="mb-2 text-xs text-rose-700">{error}</p>}
+      <ol className="relative ml-2 border-l border-gray-200 text-sm">
+        {obligations.map((o, i) => {
+          const due = countdown(o, today);
+          return (
+            <li key={i} className="mb-3 ml-4 last:mb-0">
+              <span className={cls("absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white", ACTIONABLE.includes(o.kind) ? "bg-gray-900" : "bg-gray-300")} />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900">
+                  {formatDate(o.date)}{o.until && ` – ${formatDate(o.until)}`}
+                </span>
+                <span className="text-xs text-gray-500">{KIND_LABELS[o.kind]}</span>
+                {due && <span className={cls("rounded-full px-2 py-0.5 text-xs font-medium", due.tone)}>{due.label}</span>}
+              </div>
+              <div className="text-gray-800">
+                {o.title} <span className="text-gray-500">· {o.party}</span>
+              </div>
+              {o.quote && (
+                <div className="text-xs text-gray-600">
+                  {o.clause && <b>{o.clause}: </b>}“{o.quote}”
+                </div>
+              )}
+              {o.basis && <div className="text-xs italic text-gray-500">Estimated: {o.basis}</div>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
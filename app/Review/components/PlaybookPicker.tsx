@@ -0,0 +1,39 @@
+'use client'
+
+import React, { useEffect, useState } from "react";
+import type { PlaybookSummary } from "@/lib/playbook/schema";
+
+// Team playbooks from /api/playbooks; "" means review without one.
+export default function PlaybookPicker({ value, onChange }: { value: string; onChange: (id: string) => void }) {
+  const [playbooks, setPlaybooks] = useState<PlaybookSummary[]>([]);
+  const [broken, setBroken] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/playbooks", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`API error ${res.status}`))))
+      .then((data) => {
+        if (cancelled) return;
+        setPlaybooks(data.playbooks ?? []);
+        setBroken(data.errors?.length ?? 0);
+      })
+      .catch(() => { if (!cancelled) setPlaybooks([]); });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!playbooks.length) return null;
+  const selected = playbooks.find((p) => p.id === value);
+  return (
+    <div className="mt-3 text-center text-xs text-gray-600">
+      <label className="inline-flex items-center gap-2">
+        Playbook
+        <select value={value} onChange={(e) => onChange(e.target.value)} className="rounded-lg border border-gray-300 p-1 text-xs">
+          <option value="">None</option>
+          {playbooks.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </label>
+      {selected?.description && <p className="mt-1 text-gray-500">{selected.description}</p>}
+      {broken > 0 && <p className="mt-1 text-amber-700">{broken} playbook file(s) failed validation and are hidden.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from "react";
+import type { PolicyCheck, ReviewResult } from "@/lib/review/schema";
+import { cls } from "./ui";
+
+const STATUS: Record<PolicyCheck["status"], { label: string; tone: string }> = {
+  pass: { label: "Meets", tone: "bg-emerald-50 text-emerald-700 ring-emerald-200" },
+  fail: { label: "Misses", tone: "bg-rose-50 text-rose-700 ring-rose-200" },
+  unknown: { label: "Unclear", tone: "bg-gray-50 text-gray-600 ring-gray-200" },
+};
+
+// Deterministic playbook checks; failures also appear as risks and counters.
+export default function PolicyPanel({ result }: { result: ReviewResult }) {
+  if (!result.playbook || !result.policy?.length) return null;
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <h3 className="mb-2 text-sm font-semibold">Playbook: {result.playbook.name}</h3>
+      <ul className="space-y-2 text-sm text-gray-800">
+        {result.policy.map((c) => (
+          <li key={c.rule} className="flex items-start gap-2">
+            <span className={cls("inline-flex shrink-0 items-center rounded-full px-2 py-0.5 text-xs font-medium ring-1", STATUS[c.status].tone)}>
+              {STATUS[c.status].label}
+            </span>
+            <div>
+              <div className="font-medium">{c.position}</div>
+              {c.found && <div className="text-gray-600">Contract: {c.found}</div>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
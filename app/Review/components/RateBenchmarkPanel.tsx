@@ -0,0 +1,39 @@
+import React from "react";
+import type { RateBenchmark } from "@/lib/review/schema";
+import { formatMoney } from "@/lib/review/terms";
+import { cls } from "./ui";
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+// Where the contract's rate per deliverable sits among comparable past deals.
+export default function RateBenchmarkPanel({ benchmark }: { benchmark: RateBenchmark }) {
+  const money = (amount: number) => formatMoney({ amount, currency: benchmark.rate.currency });
+  const below = !!benchmark.counter;
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <h3 className="mb-2 text-sm font-semibold">Rate benchmark</h3>
+      <p className="text-sm text-gray-800">
+        <b className={cls(below && "text-rose-700")}>{formatMoney(benchmark.rate)}</b> per deliverable is at the{" "}
+        <b>{ordinal(benchmark.percentile)} percentile</b> of {benchmark.comparables} comparable deals.
+        {benchmark.counter && <> Counter with {formatMoney(benchmark.counter)} per deliverable.</>}
+      </p>
+      <div className="relative mt-3 h-2 rounded-full bg-gray-100" aria-hidden>
+        <div className="absolute inset-y-0 left-1/4 right-1/4 rounded-full bg-gray-300" />
+        <div className="absolute inset-y-0 left-1/2 w-px bg-gray-600" />
+        <div
+          className={cls("absolute -top-1 h-4 w-1.5 -translate-x-1/2 rounded-full", below ? "bg-rose-600" : "bg-emerald-600")}
+          style={{ left: `${Math.min(100, Math.max(0, benchmark.percentile))}%` }}
+        />
+      </div>
+      <div className="mt-1 flex justify-between text-[11px] text-gray-500">
+        <span>25th {money(benchmark.p25)}</span>
+        <span>median {money(benchmark.p50)}</span>
+        <span>75th {money(benchmark.p75)}</span>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">Compared on: {benchmark.basis.join(", ")}.</p>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import React, { useState } from "react";
+import { diffWords } from "@/lib/redline/diff";
+import type { RedlineEdit, ReviewResult } from "@/lib/review/schema";
+import DiffText from "./DiffText";
+import { cls } from "./ui";
+
+type Decision = "pending" | "accepted" | "rejected";
+
+function EditDiff({ edit }: { edit: RedlineEdit }) {
+  return (
+    <p className="whitespace-pre-wrap rounded-lg bg-gray-50 p-2 text-xs leading-relaxed text-gray-800">
+      <DiffText ops={diffWords(edit.original, edit.replacement)} />
+    </p>
+  );
+}
+
+// Turns suggested counters into concrete clause edits the user can accept or reject.
+export default function RedlinePanel({ result, filename }: { result: ReviewResult; filename?: string }) {
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(result.counters.map((_, i) => i)));
+  const [edits, setEdits] = useState<RedlineEdit[] | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (i: number) => setSelected((prev) => {
+    const next = new Set(prev);
+    if (next.has(i)) next.delete(i); else next.add(i);
+    return next;
+  });
+
+  const draft = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/redline", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ result, accepted: [...selected].sort((a, b) => a - b) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `API error ${res.status}`);
+      setEdits(data.edits ?? []);
+      setDecisions({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't draft redlines.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const accepted = (edits ?? []).filter((e) => decisions[e.id] === "accepted");
+
+  const download = async () => {
+    setError(null);
+    try {
+      const res = await fetch("/api/redline/docx", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rawText: result.rawText, edits: accepted, filename }),
+      });
+      if (!res.ok) throw new Error(`Export error ${res.status}`);
+      const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "Contract_Redline.docx";
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't export the redline.");
+    }
+  };
+
+  if (!result.rawText || !result.counters.length) return null;
+
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <h3 className="mb-2 text-sm font-semibold">Redline counters</h3>
+      <ul className="space-y-1 text-sm text-gray-800">
+        {result.counters.map((c, i) => (
+          <li key={i}>
+            <label className="flex items-start gap-2">
+              <input type="checkbox" className="mt-1" checked={selected.has(i)} onChange={() => toggle(i)} />
+              <span>{c}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={draft}
+          disabled={busy || selected.size === 0}
+          className="inline-flex items-center justify-center rounded-xl bg-black px-3 py-2 text-xs font-medium text-white hover:bg-gray-900 disabled:opacity-60"
+        >
+          {busy ? "Drafting…" : "Draft proposed edits"}
+        </button>
+        {edits && (
+          <button
+            onClick={download}
+            disabled={accepted.length === 0}
+            className="inline-flex items-center justify-center rounded-xl border border-gray-300 px-3 py-2 text-xs font-medium hover:bg-gray-50 disabled:opacity-60"
+          >
+            Download redlined DOCX ({accepted.length})
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+
+      {edits && edits.length === 0 && (
+        <p className="mt-3 text-xs text-gray-500">No clause in the contract could be edited to implement the selected counters.</p>
+      )}
+      {edits && edits.length > 0 && (
+        <ul className="mt-3 space-y-3">
+          {edits.map((e) => {
+            const decision = decisions[e.id] ?? "pending";
+            const decide = (d: Decision) => setDecisions((prev) => ({ ...prev, [e.id]: prev[e.id] === d ? "pending" : d }));
+            return (
+              <li key={e.id} className={cls("rounded-xl border p-3", decision === "accepted" && "border-emerald-300", decision === "rejected" && "opacity-50")}>
+                <div className="mb-1 text-xs font-medium text-gray-600">{result.counters[e.counter]}</div>
+                <EditDiff edit={e} />
+                <p className="mt-1 text-xs text-gray-600">{e.rationale}</p>
+                <div className="mt-2 flex gap-2">
+                  <button
+                    onClick={() => decide("accepted")}
+                    className={cls("rounded-lg px-2 py-1 text-xs ring-1", decision === "accepted" ? "bg-emerald-600 text-white ring-emerald-600" : "ring-gray-300 hover:bg-gray-50")}
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => decide("rejected")}
+                    className={cls("rounded-lg px-2 py-1 text-xs ring-1", decision === "rejected" ? "bg-gray-700 text-white ring-gray-700" : "ring-gray-300 hover:bg-gray-50")}
+                  >
+                    Reject
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React from "react";
+import { REVIEW_STATUS_LABELS, REVIEW_STATUSES, type ReviewEdits } from "@/lib/review/schema";
+import { cls } from "./ui";
+
+export type SaveState = "saved" | "unsaved" | "saving" | { error: string };
+
+// Review status, reviewer name and saving for the edits made on the page.
+export default function ReviewBar({ edits, corrections, save, canSave, approved, onChange, onSave }: {
+  edits: ReviewEdits;
+  // Changes from the AI output so far.
+  corrections: number;
+  save: SaveState;
+  // False for reviews that aren't in the history; their edits only apply to this page's exports.
+  canSave: boolean;
+  // Saved as approved: only setting the status back is allowed until then.
+  approved?: boolean;
+  onChange: (edits: ReviewEdits) => void;
+  onSave: () => void;
+}) {
+  const approving = edits.status === "approved";
+  const locked = approved && approving;
+  return (
+    <div className="space-y-2 rounded-2xl border border-gray-200 p-3 text-xs text-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Status</span>
+        <div className="inline-flex rounded-full border border-gray-300 p-0.5">
+          {REVIEW_STATUSES.map((s) => (
+            <button
+              key={s}
+              type="button"
+              aria-pressed={edits.status === s}
+              onClick={() => onChange({ ...edits, status: s })}
+              className={cls("rounded-full px-2 py-0.5", edits.status === s ? (s === "approved" ? "bg-emerald-700 text-white" : "bg-gray-900 text-white") : "hover:bg-gray-50")}
+            >
+              {REVIEW_STATUS_LABELS[s]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1">
+          Reviewer
+          <input
+            value={edits.reviewer ?? ""}
+            onChange={(e) => onChange({ ...edits, reviewer: e.target.value || undefined })}
+            placeholder="Your name"
+            maxLength={100}
+            disabled={locked}
+            className={cls("w-36 rounded-lg border px-2 py-0.5 focus:border-gray-500 focus:outline-none", approving && !edits.reviewer?.trim() ? "border-rose-300" : "border-gray-300")}
+          />
+        </label>
+        {canSave && (
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={save === "saved" || save === "saving" || locked || (approving && !edits.reviewer?.trim())}
+            className="ml-auto rounded-lg border border-gray-300 px-2 py-0.5 font-medium hover:bg-gray-50 disabled:opacity-50"
+          >
+            {save === "saving" ? "Saving…" : save === "saved" ? "Saved" : "Save review"}
+          </button>
+        )}
+      </div>
+      <p className="text-gray-500">
+        {corrections ? `${corrections} correction${corrections === 1 ? "" : "s"} to the AI review.` : "No corrections to the AI review yet."}
+        {" "}{approving ? "Approved reviews are locked; set the status back to edit." : "Use edit, dismiss and add below; exports use the edited version."}
+        {!canSave && " This review isn't in your history, so edits aren't saved."}
+        {approving && !edits.reviewer?.trim() && <span className="text-rose-600"> Add a reviewer name to approve.</span>}
+        {typeof save === "object" && <span className="text-rose-600"> {save.error}</span>}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import React from "react";
+import type { RiskLevel } from "@/lib/review/schema";
+import { cls } from "./ui";
+
+export default function RiskBadge({ level }: { level: RiskLevel }) {
+  const palette: Record<RiskLevel, string> = {
+    Low: "bg-emerald-50 text-emerald-700 ring-emerald-200",
+    Med: "bg-amber-50 text-amber-700 ring-amber-200",
+    High: "bg-rose-50 text-rose-700 ring-rose-200",
+  };
+  return (
+    <span className={cls("inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ring-1", palette[level])}>{level}</span>
+  );
+}
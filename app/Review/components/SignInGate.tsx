@@ -0,0 +1,72 @@
+'use client'
+
+import React, { useEffect, useState } from "react";
+
+type Session = { required: boolean; authenticated: boolean; name?: string };
+
+// Renders its children once /api/session says the browser may use the API;
+// otherwise asks for an access key, which the server swaps for a session cookie.
+export default function SignInGate({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [key, setKey] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/session", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`API error ${res.status}`))))
+      .then((data: Session) => { if (!cancelled) setSession(data); })
+      // If the check itself fails, let the page load; its own requests will report the problem.
+      .catch(() => { if (!cancelled) setSession({ required: false, authenticated: false }); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!key.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || `API error ${res.status}`);
+      setKey("");
+      setSession({ required: true, authenticated: true, name: data.name });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't sign in.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!session) return null;
+  if (!session.required || session.authenticated) return <>{children}</>;
+
+  return (
+    <form onSubmit={signIn} className="mx-auto mt-16 w-full max-w-sm rounded-2xl border border-gray-200 bg-white p-4 shadow-sm">
+      <h2 className="text-lg font-semibold tracking-tight">Sign in</h2>
+      <p className="mb-3 text-sm text-gray-600">Enter your team&apos;s access key to use the contract reviewer.</p>
+      <input
+        type="password"
+        value={key}
+        onChange={(e) => setKey(e.target.value)}
+        autoComplete="current-password"
+        placeholder="Access key"
+        className="w-full rounded-xl border border-gray-300 p-2 text-sm"
+      />
+      {error && <p className="mt-2 text-xs text-rose-700">{error}</p>}
+      <button
+        type="submit"
+        disabled={busy || !key.trim()}
+        className="mt-3 inline-flex w-full items-center justify-center rounded-xl bg-black px-3 py-2 text-sm font-medium text-white disabled:opacity-50"
+      >
+        {busy ? "Signing in…" : "Sign in"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,108 @@
+import React from "react";
+import type { StructuredTerms } from "@/lib/review/schema";
+import { formatMoney } from "@/lib/review/terms";
+
+const DASH = "—";
+
+function months(n?: number): string {
+  if (n === undefined) return DASH;
+  return n % 12 === 0 ? `${n / 12} year${n === 12 ? "" : "s"}` : `${n} month${n === 1 ? "" : "s"}`;
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <tr className="border-t border-gray-100">
+      <th className="w-40 py-1 pr-3 text-left font-medium text-gray-600">{label}</th>
+      <td className="py-1 text-gray-800">{children}</td>
+    </tr>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+// Typed terms parsed from the contract text; anything it doesn't state shows as a dash.
+export default function TermsTables({ terms }: { terms: StructuredTerms }) {
+  const { payment, term, deliverables, usage } = terms;
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4">
+      <h3 className="mb-3 text-sm font-semibold">Key terms</h3>
+      <div className="grid grid-cols-1 gap-4 text-sm sm:grid-cols-2">
+        <Section title="Payment">
+          <table className="w-full">
+            <tbody>
+              <Row label="Total">{payment.total ? formatMoney(payment.total) : DASH}</Row>
+              <Row label="Per deliverable">{payment.perDeliverable ? formatMoney(payment.perDeliverable) : DASH}</Row>
+              <Row label="Paid within">{payment.netDays !== undefined ? `${payment.netDays} days` : DASH}</Row>
+              {payment.schedule.map((s, i) => (
+                <Row key={i} label={`Installment ${i + 1}`}>
+                  {s.percent !== undefined ? `${s.percent}%` : s.amount ? formatMoney(s.amount) : DASH} {s.due}
+                </Row>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="Term">
+          <table className="w-full">
+            <tbody>
+              <Row label="Start">{term.start ?? DASH}</Row>
+              <Row label="End">{term.end ?? DASH}</Row>
+              <Row label="Length">{months(term.months)}</Row>
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="Usage rights">
+          <table className="w-full">
+            <tbody>
+              <Row label="Media">{usage.media.length ? usage.media.join(", ") : DASH}</Row>
+              <Row label="Territory">{usage.territory ?? DASH}</Row>
+              <Row label="Duration">{usage.perpetual ? "Perpetual" : months(usage.months)}</Row>
+              <Row label="Exclusivity">
+                {usage.exclusivity
+                  ? [usage.exclusivity.category ?? "Unspecified category", usage.exclusivity.months !== undefined && months(usage.exclusivity.months)]
+                      .filter(Boolean)
+                      .join(", ")
+                  : "None stated"}
+              </Row>
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="Deliverables">
+          {deliverables.length ? (
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-1 pr-3 font-medium">Platform</th>
+                  <th className="py-1 pr-3 font-medium">Format</th>
+                  <th className="py-1 pr-3 font-medium">Count</th>
+                  <th className="py-1 font-medium">Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliverables.map((d, i) => (
+                  <tr key={i} className="border-t border-gray-100 text-gray-800">
+                    <td className="py-1 pr-3">{d.platform ?? DASH}</td>
+                    <td className="py-1 pr-3">{d.format}</td>
+                    <td className="py-1 pr-3">{d.count}</td>
+                    <td className="py-1">{d.due ?? DASH}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-500">No countable deliverables found.</p>
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+}
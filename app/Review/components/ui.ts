@@ -0,0 +1 @@
+export const cls = (...arr: (string | false | null | undefined)[]) => arr.filter(Boolean).join(" ");
@@ -0,0 +1,5 @@
+import SignInGate from "./components/SignInGate";
+
+export default function ReviewLayout({ children }: { children: React.ReactNode }) {
+  return <SignInGate>{children}</SignInGate>;
+}
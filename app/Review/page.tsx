@@ -1,103 +1,171 @@
 'use client'
 
-import React, { useCallback, useRef, useState, useEffect } from "react";
+import React, { useCallback, useRef, useState, useEffect, useEffectEvent, useMemo } from "react";
+import Link from "next/link";
+import {
+  ACCEPTED_EXTENSIONS, languageFromTag, normalizeResult, normalizeSnapshot, RISK_LEVELS, SNAPSHOT_FIELDS, SNAPSHOT_LABELS,
+  type Citation, type Extraction, type RedactionReport, type ReviewEdits, type ReviewResult, type ReviewStatus, type Risk, type RiskEdit, type RiskLevel,
+} from "@/lib/review/schema";
+import { citationsFor } from "@/lib/review/citations";
+import {
+  applyEdits, countCorrections, editCounter, editedFindings, editRisk, editSnapshotField, emptyEdits, hasFindingEdits, totalCorrections, translatedView,
+} from "@/lib/review/edits";
+import { REVIEW_STAGES, type ReviewEvent, type ReviewStreamEnd } from "@/lib/review/events";
+import AddFindingForm from "./components/AddFindingForm";
+import BatchPanel from "./components/BatchPanel";
+import ContractChat from "./components/ContractChat";
+import EditableText from "./components/EditableText";
+import HistorySidebar from "./components/HistorySidebar";
+import LanguageToggle from "./components/LanguageToggle";
+import PlaybookPicker from "./components/PlaybookPicker";
+import PolicyPanel from "./components/PolicyPanel";
+import ObligationsTimeline from "./components/ObligationsTimeline";
+import TermsTables from "./components/TermsTables";
+import RateBenchmarkPanel from "./components/RateBenchmarkPanel";
+import RedlinePanel from "./components/RedlinePanel";
+import ReviewBar, { type SaveState } from "./components/ReviewBar";
+import RiskBadge from "./components/RiskBadge";
+import { cls } from "./components/ui";
 
 // -----------------------------
-// Types
-// -----------------------------
+// UI Bits
 
-type RiskLevel = "Low" | "Med" | "High";
-
-type ReviewResult = {
-  snapshot: {
-    parties: string;
-    dates: string;
-    term: string; // must always be a string
-    rate: string; // must always be a string
-    deliverables: string;
-    usage: string;
-    brandBrief?: string;
-    additionalReqs?: string;
-    billing?: string;
-  };
-  risks: { label: string; level: RiskLevel; note?: string }[];
-  counters: string[];
-  rawText?: string;
-};
+// UI helper: show "Not Specified" when empty
+function show(val: string | undefined) {
+  return val && val.toString().trim().length ? val : "Not Specified";
+}
 
-// -----------------------------
-// Utils
 // -----------------------------
 
-const cls = (...arr: (string | false | null | undefined)[]) => arr.filter(Boolean).join(" ");
-
-// Robust string cleaner that guarantees a string output.
-function cleanStr(input: unknown): string {
-  if (typeof input === "string") return input;
-  if (input === null || input === undefined) return "";
-  try { return String(input); } catch { return ""; }
+// Small "source" link next to anything that has a verified citation.
+function CiteLink({ target, citations, active, onSelect }: {
+  target: string;
+  citations: Citation[];
+  active: string | null;
+  onSelect: (target: string) => void;
+}) {
+  const count = citationsFor(citations, target).length;
+  if (!count) return null;
+  return (
+    <button
+      type="button"
+      onClick={(e) => { e.stopPropagation(); onSelect(target); }}
+      className={cls("ml-1 rounded px-1 text-[11px] font-medium underline-offset-2 hover:underline", active === target ? "bg-yellow-200 text-gray-900" : "text-blue-700")}
+    >
+      source{count > 1 ? ` (${count})` : ""}
+    </button>
+  );
 }
 
-// Normalize a snapshot object coming from the API (or any source)
-function normalizeSnapshot(s: any): ReviewResult["snapshot"] {
-  const parties = cleanStr(s?.parties);
-  const dates = cleanStr(s?.dates);
-  const term = cleanStr(s?.term); // ensure string
-  const rate = cleanStr(s?.rate); // ensure string
-  const deliverables = cleanStr(s?.deliverables);
-  const usage = cleanStr(s?.usage);
-  const brandBriefVal = cleanStr(s?.brandBrief);
-  const additionalReqsVal = cleanStr(s?.additionalReqs);
-  const billingVal = cleanStr(s?.billing);
-
-  return {
-    parties,
-    dates,
-    term,
-    rate,
-    deliverables,
-    usage,
-    brandBrief: brandBriefVal || undefined,
-    additionalReqs: additionalReqsVal || undefined,
-    billing: billingVal || undefined,
-  };
+// Full contract text with the active target's citations highlighted.
+function DocumentView({ text, citations, active }: { text: string; citations: Citation[]; active: string | null }) {
+  const markRef = useRef<HTMLElement>(null);
+
+  const segments = useMemo(() => {
+    const spans = citationsFor(citations, active ?? "").sort((a, b) => a.start - b.start);
+    const out: { text: string; hit: boolean }[] = [];
+    let pos = 0;
+    for (const c of spans) {
+      const start = Math.max(c.start, pos);
+      if (c.end <= start) continue;
+      if (start > pos) out.push({ text: text.slice(pos, start), hit: false });
+      out.push({ text: text.slice(start, c.end), hit: true });
+      pos = c.end;
+    }
+    out.push({ text: text.slice(pos), hit: false });
+    return out;
+  }, [text, citations, active]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [segments]);
+
+  const firstHit = segments.findIndex((seg) => seg.hit);
+  return (
+    <div className="rounded-2xl border border-gray-200 p-4 lg:sticky lg:top-4">
+      <h3 className="mb-2 text-sm font-semibold">Contract text</h3>
+      <pre className="max-h-[70vh] overflow-y-auto whitespace-pre-wrap font-sans text-xs leading-relaxed text-gray-700">
+        {segments.map((seg, i) =>
+          seg.hit ? (
+            <mark key={i} ref={i === firstHit ? markRef : undefined} className="rounded bg-yellow-200 text-gray-900">{seg.text}</mark>
+          ) : (
+            <React.Fragment key={i}>{seg.text}</React.Fragment>
+          )
+        )}
+      </pre>
+    </div>
+  );
 }
 
-function normalizeResult(data: any): ReviewResult {
-  const snapshot = normalizeSnapshot(data?.snapshot ?? {});
-  const risks = Array.isArray(data?.risks) ? data.risks : [];
-  const counters = Array.isArray(data?.counters) ? data.counters : [];
-  return {
-    snapshot,
-    risks,
-    counters,
-    rawText: cleanStr(data?.rawText) || undefined,
-  };
+// Shown when some pages came from OCR, so reviewers know to double-check them.
+function OcrNote({ extraction }: { extraction: Extraction }) {
+  const ocrPages = extraction.pages.filter((p) => p.method === "ocr");
+  const avg = ocrPages.reduce((sum, p) => sum + p.confidence, 0) / (ocrPages.length || 1);
+  const weak = ocrPages.filter((p) => p.confidence < 0.6).map((p) => p.page);
+  return (
+    <p className="rounded-xl bg-sky-50 p-3 text-xs text-sky-800 ring-1 ring-sky-200">
+      {ocrPages.length} scanned page{ocrPages.length === 1 ? "" : "s"} read with OCR (average confidence {Math.round(avg * 100)}%).
+      {weak.length > 0 && <> Check page{weak.length === 1 ? "" : "s"} {weak.join(", ")} against the original — the scan was hard to read.</>}
+    </p>
+  );
 }
 
-// -----------------------------
-// UI Bits
+const ENTITY_LABELS: Record<string, string> = {
+  email: "email", phone: "phone number", ssn: "SSN", tax_id: "tax ID", bank_account: "account number",
+  routing_number: "routing number", iban: "IBAN", swift: "SWIFT code", card: "card number", address: "address",
+};
 
-// UI helper: show "Not Specified" when empty
-function show(val: string | undefined) {
-  return val && val.toString().trim().length ? val : "Not Specified";
+function RedactionNote({ report }: { report: RedactionReport }) {
+  const byEntity = new Map<string, number>();
+  for (const item of report.items) byEntity.set(item.entity, (byEntity.get(item.entity) ?? 0) + 1);
+  const parts = [...byEntity].map(([e, n]) => `${n} ${ENTITY_LABELS[e] ?? e}${n === 1 ? "" : "s"}`);
+  return (
+    <p className="text-xs text-gray-500">
+      Redacted before analysis: {parts.join(", ")}. The AI saw placeholders; the values below are restored from your document.
+    </p>
+  );
 }
 
-// -----------------------------
+// Model risks carry no tag unless a rule detector confirmed them.
+function RiskSource({ risk }: { risk: Risk }) {
+  const label = { playbook: "Playbook", rule: "Rule", benchmark: "Benchmark", reviewer: "Reviewer", model: risk.rule ? "AI + rule" : null }[risk.source ?? "model"];
+  if (!label) return null;
+  return (
+    <span className="ml-2 rounded bg-gray-100 px-1.5 py-0.5 align-middle text-[10px] font-medium uppercase tracking-wide text-gray-600" title={risk.match}>
+      {label}
+    </span>
+  );
+}
 
-function RiskBadge({ level }: { level: RiskLevel }) {
-  const palette: Record<RiskLevel, string> = {
-    Low: "bg-emerald-50 text-emerald-700 ring-emerald-200",
-    Med: "bg-amber-50 text-amber-700 ring-amber-200",
-    High: "bg-rose-50 text-rose-700 ring-rose-200",
-  };
+// The reviewer's controls under each risk: level, dismiss, and a note of their own.
+function RiskControls({ original, edit, onChange }: {
+  original: RiskLevel;
+  edit?: RiskEdit;
+  onChange: (patch: Partial<Omit<RiskEdit, "index">>) => void;
+}) {
   return (
-    <span className={cls("inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ring-1", palette[level])}>{level}</span>
+    <div className="mt-1 flex flex-wrap items-center gap-2 text-[11px] text-gray-500" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={edit?.level ?? original}
+        onChange={(e) => onChange({ level: e.target.value === original ? undefined : (e.target.value as RiskLevel) })}
+        aria-label="Risk level"
+        className="rounded border border-gray-300 px-1 py-0.5"
+      >
+        {RISK_LEVELS.map((l) => <option key={l} value={l}>{l}</option>)}
+      </select>
+      <button type="button" onClick={() => onChange({ dismissed: edit?.dismissed ? undefined : true })} className="underline-offset-2 hover:text-gray-900 hover:underline">
+        {edit?.dismissed ? "restore" : "dismiss"}
+      </button>
+      {!edit?.comment && (
+        <EditableText value="" label="add a note" onSave={(v) => onChange({ comment: v || undefined })}>{null}</EditableText>
+      )}
+    </div>
   );
 }
 
+// One label per REVIEW_STAGES entry; the server drives `step` over the event stream.
 function Stepper({ step }: { step: number }) {
-  const labels = ["Extract", "Analyze", "Summarize"];
+  const labels = ["Extract", "Chunk", "Analyze", "Validate"];
   return (
     <div className="w-full">
       <div className="relative h-2 w-full rounded-full bg-gray-200">
@@ -116,29 +184,84 @@ function Stepper({ step }: { step: number }) {
 // API call (frontend)
 // -----------------------------
 
-async function analyzeContract(file: File): Promise<ReviewResult> {
+// Parses a text/event-stream body, calling onMessage for each complete frame.
+async function readEventStream(res: Response, onMessage: (event: string, data: string) => void) {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buf = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buf += value;
+    let end: number;
+    while ((end = buf.indexOf("\n\n")) !== -1) {
+      const frame = buf.slice(0, end);
+      buf = buf.slice(end + 2);
+      let event = "message";
+      const data: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) onMessage(event, data.join("\n"));
+    }
+  }
+}
+
+// Accepts an uploaded file or pasted contract/email text. `force` skips the history cache.
+// Progress arrives over Server-Sent Events; aborting `signal` cancels the analysis server-side too.
+// `language` is the reader's; contracts in another language come back with a translation into it.
+// Errors the server reports are thrown for the page to show.
+async function analyzeContract(
+  input: File | string,
+  force = false,
+  { signal, onEvent, playbook, language }: { signal?: AbortSignal; onEvent?: (event: ReviewEvent) => void; playbook?: string; language?: string } = {}
+): Promise<ReviewResult> {
   const fd = new FormData();
-  fd.append("file", file);
+  if (typeof input === "string") fd.append("text", input);
+  else fd.append("file", input);
+  if (force) fd.append("force", "1");
+  if (playbook) fd.append("playbook", playbook);
+  if (language) fd.append("language", language);
+  fd.append("stream", "1");
+  let res: Response;
   try {
-    const res = await fetch("/api/review", { method: "POST", body: fd, cache: "no-store" });
-    if (!res.ok) {
-      let msg = `API error ${res.status}`;
-      try { const j = await res.json(); if (j?.error) msg = j.error; } catch {}
-      throw new Error(msg);
-    }
-    const data = await res.json();
-    console.log(data);
-    
-    return normalizeResult(data);
+    res = await fetch("/api/review", { method: "POST", body: fd, cache: "no-store", signal });
   } catch (err) {
+    if (signal?.aborted) throw err;
     console.error("analyzeContract error", err);
     // Minimal fallback so UI still works if backend is unreachable
     return {
       snapshot: normalizeSnapshot({ parties: "(unknown)", dates: "", term: "", rate: "", deliverables: "", usage: "" }),
       risks: [],
       counters: [],
+      citations: [],
     };
   }
+  if (!res.ok) {
+    let msg = `API error ${res.status}`;
+    try { const j = await res.json(); if (j?.error) msg = j.error; } catch {}
+    throw new Error(msg);
+  }
+  let end = null as ReviewStreamEnd | null;
+  await readEventStream(res, (event, data) => {
+    const msg = JSON.parse(data);
+    if (event === "result" || event === "error") end = msg;
+    else onEvent?.(msg);
+  });
+  if (!end) throw new Error("The analysis stream ended early.");
+  if (end.type === "error") throw new Error(end.error);
+  return normalizeResult(end.result);
+}
+
+// Several files at once go to the batch endpoint; returns the job id to poll.
+async function startBatch(files: File[], playbook?: string): Promise<string> {
+  const fd = new FormData();
+  for (const f of files) fd.append("file", f);
+  if (playbook) fd.append("playbook", playbook);
+  const res = await fetch("/api/batch", { method: "POST", body: fd, cache: "no-store" });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || `API error ${res.status}`);
+  return data.id;
 }
 
 // -----------------------------
@@ -151,30 +274,108 @@ export default function ContractReviewMiniApp() {
   const [step, setStep] = useState(0);
   const [result, setResult] = useState<ReviewResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [activeTarget, setActiveTarget] = useState<string | null>(null);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  // Bumped per analysis so per-result panels reset their local state.
+  const [runId, setRunId] = useState(0);
+  const [pasted, setPasted] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState("");
+  const [playbook, setPlaybook] = useState("");
+  // Show the translation (the reader's language) rather than the review as written, when there is one.
+  const [translated, setTranslated] = useState(true);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  // The reviewer's corrections to `result`, which itself stays the AI's output.
+  const [edits, setEdits] = useState<ReviewEdits>(emptyEdits);
+  const [saveState, setSaveState] = useState<SaveState>("saved");
+  // Status as last saved; an approved review has to be reopened before anything else changes.
+  const [savedStatus, setSavedStatus] = useState<ReviewStatus>("draft");
+  // Quotes behind chat answers; highlighted in the contract text like review citations.
+  const [askCitations, setAskCitations] = useState<Citation[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancelAnalysis = () => abortRef.current?.abort();
+
+  const showResult = (r: ReviewResult) => {
+    setResult(r);
+    setEdits(r.edits ?? emptyEdits());
+    setSavedStatus(r.edits?.status ?? "draft");
+    setSaveState("saved");
+    setRunId((n) => n + 1);
+    setActiveTarget(null);
+    setError(null);
+  };
 
-  // Clear all cache/state on reload
-  useEffect(() => {
-    setFile(null);
-    setResult(null);
-    setLoading(false);
-    setStep(0);
-  }, []);
+  // Edits belong to the language of the findings they were first made on.
+  const updateEdits = (next: ReviewEdits) => {
+    const shown = translated && result?.translation ? result.translation.language : result?.language?.code;
+    const language = !hasFindingEdits(next) ? undefined : hasFindingEdits(edits) ? edits.language : shown;
+    setEdits({ ...next, language });
+    setSaveState("unsaved");
+  };
 
-  const runAnalysis = useCallback(async (targetFile: File) => {
+  const runAnalysis = useCallback(async (input: File | string, force = false) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setStep(0);
-    const t1 = setTimeout(() => setStep(1), 300);
-    const t2 = setTimeout(() => setStep(2), 600);
-    const out = await analyzeContract(targetFile);
-    clearTimeout(t1); clearTimeout(t2);
-    setResult(out);
+    setProgress("");
+    setResult(null);
     setError(null);
+
+    // Panels render from what has streamed in so far.
+    let draft: Record<string, unknown> = {};
+    const onEvent = (e: ReviewEvent) => {
+      if (e.type === "stage") setStep(REVIEW_STAGES.indexOf(e.stage));
+      else if (e.type === "plan") {
+        draft = { ...draft, rawText: e.rawText, coverage: e.coverage, extraction: e.extraction };
+        if (e.coverage.chunked) setProgress(`Analyzing ${e.coverage.chunks} sections…`);
+      } else if (e.type === "partial") {
+        draft = { ...draft, ...e.findings };
+        setResult(normalizeResult(draft));
+        if (e.total > 1) setProgress(`Analyzed ${e.done} of ${e.total} sections…`);
+      } else if (e.type === "repair") {
+        setProgress("Fixing a malformed model answer…");
+      }
+    };
+
+    let out: ReviewResult;
+    try {
+      const language = languageFromTag(navigator.language) ?? "en";
+      out = await analyzeContract(input, force, { signal: controller.signal, onEvent, playbook, language });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setLoading(false);
+        throw err;
+      }
+      // Superseded by a newer run: that one owns the UI now.
+      if (abortRef.current === controller) {
+        setResult(null);
+        setError("Analysis cancelled.");
+        setLoading(false);
+      }
+      return;
+    }
+    showResult(out);
     setLoading(false);
-  }, []);
+  }, [playbook]);
 
   const handleFiles = useCallback(async (fs: FileList | null) => {
     if (!fs || !fs[0]) return;
+    if (fs.length > 1) {
+      setFile(null);
+      setResult(null);
+      setError(null);
+      try {
+        setBatchId(await startBatch(Array.from(fs), playbook));
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Couldn't start the batch review.");
+      }
+      return;
+    }
     const f = fs[0];
     setFile(f);
     try {
@@ -182,158 +383,418 @@ export default function ContractReviewMiniApp() {
     } catch (e: any) {
       setError(e?.message || "Something went wrong analyzing the file.");
     }
-  }, [runAnalysis]);
+  }, [runAnalysis, playbook]);
 
   const reviewNow = async () => {
-    if (!file) {
+    const input = pasteOpen && pasted.trim() ? pasted : file;
+    if (!input) {
       inputRef.current?.click();
     } else {
       try {
-        await runAnalysis(file);
+        await runAnalysis(input);
       } catch (e: any) {
         setError(e?.message || "Something went wrong analyzing the file.");
       }
     }
   };
 
+  const openReview = async (id: string) => {
+    try {
+      const res = await fetch(`/api/reviews/${id}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`API error ${res.status}`);
+      showResult(normalizeResult(await res.json()));
+      setFile(null);
+    } catch (err) {
+      console.error("openReview error", err);
+      setError("Couldn't open that review.");
+    }
+  };
+
+  // Deep link from the dashboard: /Review?id=<review id>. Only on load; later reviews are opened
+  // from the history list.
+  const openLinkedReview = useEffectEvent((id: string) => openReview(id));
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("id");
+    if (id) openLinkedReview(id);
+  }, []);
+
+  const rerunInput = pasteOpen && pasted.trim() ? pasted : file;
+
+  const cite = { citations: result?.citations ?? [], active: activeTarget, onSelect: setActiveTarget };
+  // Once findings are edited the review is shown in the language the edits were made in.
+  const editingFindings = hasFindingEdits(edits);
+  const showTranslation = editingFindings ? !!edits.language && edits.language === result?.translation?.language : translated;
+  const view = result && (editingFindings ? editedFindings(result, edits) : translated ? translatedView(result) : result);
+  // Stable between renders, or the document view re-scrolls to the highlight on every keystroke.
+  const documentCitations = useMemo(() => [...(result?.citations ?? []), ...askCitations], [result?.citations, askCitations]);
+
+  // What gets exported: the view with the reviewer's edits applied.
+  const edited = view ? applyEdits(view, edits) : null;
+  const corrections = result ? totalCorrections(countCorrections(result, edits)) : 0;
+  const editable = !loading && edits.status !== "approved" && saveState !== "saving";
+
+  const saveEdits = async () => {
+    if (!result?.reviewId) return;
+    setSaveState("saving");
+    try {
+      const res = await fetch(`/api/reviews/${result.reviewId}/edits`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(edits),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `API error ${res.status}`);
+      setSavedStatus(edits.status);
+      setSaveState("saved");
+    } catch (err) {
+      setSaveState({ error: err instanceof Error ? err.message : "Couldn't save the review." });
+    }
+  };
+
   const copySummary = () => {
-    if (!result) return;
-    const text = JSON.stringify(result, null, 2);
+    if (!edited) return;
+    const text = JSON.stringify(edited, null, 2);
     navigator.clipboard.writeText(text);
     alert("Summary copied to clipboard");
   };
 
-  const downloadSummary = () => {
-    if (!result) return;
-    const blob = new Blob([JSON.stringify(result, null, 2)], { type: "application/pdf" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "Contract_Summary.pdf";
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
+  const downloadSummary = async (format: "pdf" | "docx" | "md") => {
+    if (!result || !view) return;
+    try {
+      const res = await fetch("/api/report", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        // The report is in whichever language the page is showing, with the reviewer's edits applied server-side.
+        body: JSON.stringify({ result: { ...view, edits }, format, filename: result.filename ?? file?.name }),
+      });
+      if (!res.ok) throw new Error(`Report error ${res.status}`);
+      const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `Contract_Summary.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("downloadSummary error", err);
+      setError("Couldn't generate the report. Please try again.");
+    }
   };
 
   return (
-    <div className="mx-auto max-w-3xl rounded-2xl border border-gray-200 bg-white p-4 shadow-sm">
-      <div className="mb-2">
-        <h2 className="text-lg font-semibold tracking-tight">AI Contract Review</h2>
-        <p className="text-sm text-gray-600">Upload a contract and get a clean, creator-friendly summary.</p>
-      </div>
-
-      <div
-        onClick={() => inputRef.current?.click()}
-        className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed p-8 text-center text-sm cursor-pointer hover:bg-gray-50"
-      >
-        <input ref={inputRef} type="file" accept=".pdf,.doc,.docx" className="hidden" onChange={(e) => handleFiles(e.target.files)} />
-        <span><strong>Drag & drop</strong> or click to upload</span>
-        {file && <p className="text-xs text-gray-500">Selected: {file.name}</p>}
-      </div>
+    <div className="mx-auto flex max-w-[88rem] flex-col gap-4 lg:flex-row lg:items-start">
+      <HistorySidebar
+        refreshKey={runId}
+        activeId={result?.reviewId}
+        onOpen={openReview}
+        onDeleted={(id) => { if (result?.reviewId === id) setResult(null); }}
+      />
+      <div className={cls("mx-auto w-full rounded-2xl border border-gray-200 bg-white p-4 shadow-sm", result?.rawText ? "max-w-6xl" : "max-w-3xl")}>
+        <div className="mb-2 flex items-start justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold tracking-tight">AI Contract Review</h2>
+            <p className="text-sm text-gray-600">Upload a contract and get a clean, creator-friendly summary.</p>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/Portfolio" className="text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">All contracts</Link>
+            <Link href="/Compare" className="text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">Compare versions</Link>
+          </div>
+        </div>
 
-      <div className="mt-4 flex justify-center">
-        <button
-          onClick={reviewNow}
-          className="inline-flex items-center justify-center rounded-xl bg-black px-3 py-2 text-sm font-medium text-white hover:bg-gray-900 disabled:opacity-60"
-          disabled={loading}
+        <div
+          onClick={() => inputRef.current?.click()}
+          className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed p-8 text-center text-sm cursor-pointer hover:bg-gray-50"
         >
-          Review and Summarize with AI
-        </button>
-      </div>
-      {error && (<p className="mt-2 text-xs text-rose-600 text-center">{error}</p>)}
-
-      {loading && (
-        <div className="mt-6 rounded-xl border p-4"><Stepper step={step} /><p className="mt-2 text-xs text-gray-500">Analyzing…</p></div>
-      )}
+          <input ref={inputRef} type="file" multiple accept={ACCEPTED_EXTENSIONS.join(",")} className="hidden" onChange={(e) => handleFiles(e.target.files)} />
+          <span><strong>Drag & drop</strong> or click to upload</span>
+          <span className="text-xs text-gray-500">Pick several files to review a whole batch.</span>
+          {file && <p className="text-xs text-gray-500">Selected: {file.name}</p>}
+        </div>
 
-      {result && (
-        <div className="mt-6 space-y-4">
-          <div className="rounded-2xl border p-4">
-            <h3 className="text-sm font-semibold mb-2">Snapshot</h3>
-            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-800">
-              <li><b>Parties:</b> {show(result.snapshot.parties)}</li>
-              <li><b>Dates:</b> {show(result.snapshot.dates)}</li>
-              <li><b>Term:</b> {show(result.snapshot.term)}</li>
-              <li><b>Rate:</b> {show(result.snapshot.rate)}</li>
-              <li className="sm:col-span-2"><b>Deliverables:</b> {show(result.snapshot.deliverables)}</li>
-              <li className="sm:col-span-2"><b>Usage & Exclusivity:</b> {show(result.snapshot.usage)}</li>
-              <li className="sm:col-span-2"><b>Brand Brief:</b> {show(result.snapshot.brandBrief)}</li>
-              <li className="sm:col-span-2"><b>Additional Requirements:</b> {show(result.snapshot.additionalReqs)}</li>
-              <li className="sm:col-span-2"><b>Billing:</b> {show(result.snapshot.billing)}</li>
-            </ul>
+        <div className="mt-2 text-center">
+          <button type="button" onClick={() => setPasteOpen((v) => !v)} className="text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">
+            {pasteOpen ? "Upload a file instead" : "Or paste contract text / an email"}
+          </button>
+        </div>
+        {pasteOpen && (
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="Paste the contract or the brand's email here…"
+            rows={8}
+            className="mt-2 w-full rounded-xl border border-gray-300 p-3 text-sm focus:border-gray-500 focus:outline-none"
+          />
+        )}
+
+        <PlaybookPicker value={playbook} onChange={setPlaybook} />
+
+        <div className="mt-4 flex justify-center">
+          <button
+            onClick={reviewNow}
+            className="inline-flex items-center justify-center rounded-xl bg-black px-3 py-2 text-sm font-medium text-white hover:bg-gray-900 disabled:opacity-60"
+            disabled={loading}
+          >
+            Review and Summarize with AI
+          </button>
+        </div>
+        {error && (<p className="mt-2 text-xs text-rose-600 text-center">{error}</p>)}
+
+        {batchId && <BatchPanel jobId={batchId} onOpen={openReview} onDone={() => setRunId((n) => n + 1)} />}
+
+        {loading && (
+          <div className="mt-6 rounded-xl border p-4">
+            <Stepper step={step} />
+            <div className="mt-2 flex items-center justify-between">
+              <p className="text-xs text-gray-500">{progress || "Analyzing…"}</p>
+              <button type="button" onClick={cancelAnalysis} className="text-xs text-gray-600 underline underline-offset-2 hover:text-gray-900">
+                Cancel
+              </button>
+            </div>
           </div>
-
-          <div className="rounded-2xl border border-gray-200 p-4">
-            <h3 className="mb-2 text-sm font-semibold">What to watch out for</h3>
-            <ul className="space-y-2 text-sm text-gray-800">
-              {result.risks.map((r, i) => (
-                <li key={i} className="flex items-start gap-2">
-                  <RiskBadge level={r.level} />
-                  <div>
-                    <div className="font-medium">{r.label}</div>
-                    {r.note && <div className="text-gray-600">{r.note}</div>}
+        )}
+
+        {result && view && (
+          <div className={cls("mt-6", result.rawText && "grid gap-4 lg:grid-cols-2 lg:items-start")}>
+            <div className="space-y-4">
+              {result.cached && (
+                <p className="flex flex-wrap items-center gap-2 rounded-xl bg-gray-50 p-3 text-xs text-gray-700 ring-1 ring-gray-200">
+                  Saved review{result.createdAt ? ` from ${new Date(result.createdAt).toLocaleString()}` : ""} — no new AI call was made.
+                  {rerunInput && (
+                    <button onClick={() => runAnalysis(rerunInput, true)} disabled={loading} className="font-medium underline underline-offset-2 disabled:opacity-60">
+                      Re-run analysis
+                    </button>
+                  )}
+                </p>
+              )}
+              {result.modelUnavailable && (
+                <p className="rounded-xl bg-amber-50 p-3 text-xs text-amber-800 ring-1 ring-amber-200">
+                  The AI review isn&apos;t available right now, so only the built-in clause checks ran. The snapshot and counters are empty; try again later for a full review.
+                </p>
+              )}
+              {result.coverage?.truncated && (
+                <p className="rounded-xl bg-amber-50 p-3 text-xs text-amber-800 ring-1 ring-amber-200">
+                  This contract is long: only the first {result.coverage.percent}% ({result.coverage.analyzedChars.toLocaleString()} of {result.coverage.totalChars.toLocaleString()} characters) was analyzed.
+                </p>
+              )}
+              {result.extraction && result.extraction.method !== "text" && (
+                <OcrNote extraction={result.extraction} />
+              )}
+              {result.redaction && result.redaction.total > 0 && <RedactionNote report={result.redaction} />}
+              {result.coverage?.chunked && !result.coverage.truncated && (
+                <p className="text-xs text-gray-500">Analyzed in {result.coverage.chunks} sections and merged.</p>
+              )}
+              <LanguageToggle result={result} translated={showTranslation} disabled={editingFindings} onChange={setTranslated} />
+              {!loading && (
+                <ReviewBar
+                  edits={edits}
+                  corrections={corrections}
+                  save={saveState}
+                  canSave={!!result.reviewId}
+                  approved={savedStatus === "approved"}
+                  onChange={updateEdits}
+                  onSave={saveEdits}
+                />
+              )}
+              <div className="rounded-2xl border p-4">
+                <h3 className="text-sm font-semibold mb-2">Snapshot</h3>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-800">
+                  {/* Parties, dates, term and rate share a row; the longer fields get their own. */}
+                  {SNAPSHOT_FIELDS.map((f, i) => {
+                    const value = edits.snapshot[f] ?? view.snapshot[f] ?? "";
+                    return (
+                      <li key={f} className={cls(i >= 4 && "sm:col-span-2")}>
+                        <b>{SNAPSHOT_LABELS[f]}:</b>{" "}
+                        <EditableText
+                          value={value}
+                          edited={edits.snapshot[f] !== undefined}
+                          disabled={!editable}
+                          onSave={(v) => updateEdits(editSnapshotField(edits, f, v === (view.snapshot[f] ?? "") ? undefined : v))}
+                          onRevert={() => updateEdits(editSnapshotField(edits, f, undefined))}
+                        >
+                          {show(value)}
+                        </EditableText>
+                        <CiteLink target={`snapshot.${f}`} {...cite} />
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+
+              {result.terms && <TermsTables terms={result.terms} />}
+
+              {result.rateBenchmark && <RateBenchmarkPanel benchmark={result.rateBenchmark} />}
+
+              {!loading && <ObligationsTimeline result={result} filename={result.filename ?? file?.name} />}
+
+              <PolicyPanel result={result} />
+
+              <div className="rounded-2xl border border-gray-200 p-4">
+                <h3 className="mb-2 text-sm font-semibold">What to watch out for</h3>
+                <ul className="space-y-2 text-sm text-gray-800">
+                  {view.risks.map((r, i) => {
+                    const edit = edits.risks.find((e) => e.index === i);
+                    return (
+                      <li
+                        key={i}
+                        onClick={() => setActiveTarget(`risks.${i}`)}
+                        className={cls(
+                          "flex items-start gap-2 rounded-lg p-1",
+                          citationsFor(result.citations, `risks.${i}`).length > 0 && "cursor-pointer hover:bg-gray-50",
+                          activeTarget === `risks.${i}` && "bg-yellow-50",
+                          edit?.dismissed && "opacity-50"
+                        )}
+                      >
+                        <RiskBadge level={edit?.level ?? r.level} />
+                        <div>
+                          <div className={cls("font-medium", edit?.dismissed && "line-through")}>{r.label}<RiskSource risk={r} /><CiteLink target={`risks.${i}`} {...cite} /></div>
+                          {r.note && <div className="text-gray-600">{r.note}</div>}
+                          {r.match && <div className="mt-0.5 border-l-2 border-gray-200 pl-2 text-xs text-gray-500">“{r.match}”</div>}
+                          {edit?.comment && (
+                            <div className="mt-0.5 text-xs text-blue-800">
+                              <EditableText
+                                value={edit.comment}
+                                disabled={!editable}
+                                onSave={(v) => updateEdits(editRisk(edits, i, { comment: v || undefined }))}
+                                onRevert={() => updateEdits(editRisk(edits, i, { comment: undefined }))}
+                                edited
+                              >
+                                Reviewer: {edit.comment}
+                              </EditableText>
+                            </div>
+                          )}
+                          {editable && <RiskControls original={r.level} edit={edit} onChange={(patch) => updateEdits(editRisk(edits, i, patch))} />}
+                        </div>
+                      </li>
+                    );
+                  })}
+                  {edits.addedRisks.map((r, i) => (
+                    <li key={`added-${i}`} className="flex items-start gap-2 rounded-lg p-1">
+                      <RiskBadge level={r.level} />
+                      <div>
+                        <div className="font-medium">{r.label}<RiskSource risk={{ ...r, source: "reviewer" }} /></div>
+                        {r.note && <div className="text-gray-600">{r.note}</div>}
+                        {editable && (
+                          <button
+                            type="button"
+                            onClick={() => updateEdits({ ...edits, addedRisks: edits.addedRisks.filter((_, k) => k !== i) })}
+                            className="mt-1 text-[11px] text-gray-500 underline-offset-2 hover:text-gray-900 hover:underline"
+                          >
+                            remove
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                {editable && (
+                  <AddFindingForm
+                    kind="risk"
+                    onAdd={(a) => a.kind === "risk" && updateEdits({ ...edits, addedRisks: [...edits.addedRisks, { label: a.label, level: a.level, note: a.note }] })}
+                  />
+                )}
+              </div>
+
+              <div className="rounded-2xl border border-gray-200 p-4">
+                <h3 className="mb-2 text-sm font-semibold">Suggested counters</h3>
+                <ul className="list-inside list-disc space-y-1 text-sm text-gray-800">
+                  {view.counters.map((c, i) => {
+                    const edit = edits.counters.find((e) => e.index === i);
+                    return (
+                      <li key={i} className={cls(edit?.dismissed && "text-gray-400")}>
+                        <EditableText
+                          value={edit?.text ?? c}
+                          edited={edit?.text !== undefined}
+                          disabled={!editable || edit?.dismissed}
+                          onSave={(v) => updateEdits(editCounter(edits, i, { text: v && v !== c ? v : undefined }))}
+                          onRevert={() => updateEdits(editCounter(edits, i, { text: undefined }))}
+                        >
+                          <span className={cls(edit?.dismissed && "line-through")}>{edit?.text ?? c}</span>
+                        </EditableText>
+                        <CiteLink target={`counters.${i}`} {...cite} />
+                        {editable && (
+                          <button
+                            type="button"
+                            onClick={() => updateEdits(editCounter(edits, i, { dismissed: edit?.dismissed ? undefined : true }))}
+                            className="ml-1 text-[11px] text-gray-500 underline-offset-2 hover:text-gray-900 hover:underline"
+                          >
+                            {edit?.dismissed ? "restore" : "dismiss"}
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                  {edits.addedCounters.map((c, i) => (
+                    <li key={`added-${i}`}>
+                      {c}<RiskSource risk={{ label: c, level: "Low", source: "reviewer" }} />
+                      {editable && (
+                        <button
+                          type="button"
+                          onClick={() => updateEdits({ ...edits, addedCounters: edits.addedCounters.filter((_, k) => k !== i) })}
+                          className="ml-1 text-[11px] text-gray-500 underline-offset-2 hover:text-gray-900 hover:underline"
+                        >
+                          remove
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {editable && <AddFindingForm kind="counter" onAdd={(a) => a.kind === "counter" && updateEdits({ ...edits, addedCounters: [...edits.addedCounters, a.text] })} />}
+              </div>
+
+              {/* Partial results are still streaming in; exports wait for the final one. */}
+              {!loading && edited && (
+                <>
+                  {/* Drafts start over when the counters they were drafted from change. */}
+                  <RedlinePanel key={`${runId}:${edited.counters.join("\n")}`} result={edited} filename={result.filename ?? file?.name} />
+
+                  {result.rawText && (
+                    <ContractChat key={runId} result={result} active={activeTarget} onSelect={setActiveTarget} onCitations={setAskCitations} />
+                  )}
+
+                  <div className="mt-4 flex justify-center gap-3">
+                    <button
+                      onClick={copySummary}
+                      className="inline-flex items-center justify-center rounded-xl border border-gray-300 px-3 py-2 text-sm font-medium hover:bg-gray-50"
+                    >
+                      Copy Summary
+                    </button>
+                    <button
+                      onClick={() => downloadSummary("pdf")}
+                      className="inline-flex items-center justify-center rounded-xl border border-gray-300 px-3 py-2 text-sm font-medium hover:bg-gray-50"
+                    >
+                      Download PDF
+                    </button>
+                    <button
+                      onClick={() => downloadSummary("docx")}
+                      className="inline-flex items-center justify-center rounded-xl border border-gray-300 px-3 py-2 text-sm font-medium hover:bg-gray-50"
+                    >
+                      Word
+                    </button>
+                    <button
+                      onClick={() => downloadSummary("md")}
+                      className="inline-flex items-center justify-center rounded-xl border border-gray-300 px-3 py-2 text-sm font-medium hover:bg-gray-50"
+                    >
+                      Markdown
+                    </button>
                   </div>
-                </li>
-              ))}
-            </ul>
-          </div>
+                </>
+              )}
+            </div>
 
-          <div className="rounded-2xl border border-gray-200 p-4">
-            <h3 className="mb-2 text-sm font-semibold">Suggested counters</h3>
-            <ul className="list-inside list-disc space-y-1 text-sm text-gray-800">
-              {result.counters.map((c, i) => (
-                <li key={i}>{c}</li>
-              ))}
-            </ul>
+            {result.rawText && (
+              <DocumentView text={result.rawText} citations={documentCitations} active={activeTarget} />
+            )}
           </div>
-
-          <div className="mt-4 flex justify-center gap-3">
-            <button
-              onClick={copySummary}
-              className="inline-flex items-center justify-center rounded-xl border border-gray-300 px-3 py-2 text-sm font-medium hover:bg-gray-50"
-            >
-              Copy Summary
-            </button>
-            <button
-              onClick={downloadSummary}
-              className="inline-flex items-center justify-center rounded-xl border border-gray-300 px-3 py-2 text-sm font-medium hover:bg-gray-50"
-            >
-              Download PDF
-            </button>
-          </div>
-        </div>
-      )}
+        )}
+      </div>
     </div>
   );
 }
 
 
 
-// -----------------------------
-// Dev Tests (console-only; no UI changes)
-// -----------------------------
-// We add simple runtime tests to ensure normalization is resilient.
-if (typeof window !== "undefined" && process.env.NODE_ENV !== "production") {
-  (function runDevTests() {
-    const cases = [
-      { name: "null-values", in: { snapshot: { term: null, rate: null } }, expect: { term: "", rate: "" } },
-      { name: "missing-values", in: { snapshot: {} }, expect: { term: "", rate: "" } },
-      { name: "non-strings", in: { snapshot: { term: 120, rate: true } }, expect: { term: "120", rate: "true" } },
-      // UI display helper tests
-      { name: "show-empty", in: { snapshot: { term: "", rate: "" } }, expect: { term: "Not Specified", rate: "Not Specified" }, displayOnly: true },
-    ];
-    let pass = 0;
-    for (const t of cases) {
-      const out = normalizeResult(t.in);
-      const termOk = t.displayOnly ? ( (out.snapshot.term ? out.snapshot.term : "") === out.snapshot.term ) : (out.snapshot.term === t.expect.term);
-      const rateOk = t.displayOnly ? ( (out.snapshot.rate ? out.snapshot.rate : "") === out.snapshot.rate ) : (out.snapshot.rate === t.expect.rate);
-      if (termOk && rateOk) pass++; else console.error("[TEST FAIL]", t.name, out.snapshot);
-    }
-    console.log(`[AI Contract Review] Dev tests: ${pass}/${cases.length} passed`);
-  })();
-}
-
 // -----------------------------
 // (Optional) Express example omitted for brevity
 // -----------------------------
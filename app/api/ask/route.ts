@@ -0,0 +1,75 @@
+// -----------------------------
+// Next.js API route (app/api/ask/route.ts)
+// -----------------------------
+// Answers a question about one contract from its text, with supporting quotes.
+// Send the `id` of a saved review or the `rawText` itself, plus the `question`
+// and optionally earlier `history` turns.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { answerQuestion, type AskTurn } from "@/lib/ask";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { getProvider, meterProvider, resolveProviderName, PROVIDER_NAMES } from "@/lib/llm";
+import { getReview } from "@/lib/store/reviews";
+import { logUsage } from "@/lib/store/usage";
+
+const MAX_QUESTION_CHARS = 1000;
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+function parseHistory(value: unknown): AskTurn[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((t) =>
+    t && typeof t.question === "string" && typeof t.answer === "string"
+      ? [{ question: t.question.slice(0, MAX_QUESTION_CHARS), answer: t.answer.slice(0, 4 * MAX_QUESTION_CHARS) }]
+      : []
+  );
+}
+
+export async function POST(req: NextRequest) {
+  const caller = authorize(req, { cost: 1 });
+  if (caller instanceof Response) return caller;
+  try {
+    let body: { question?: unknown; id?: unknown; rawText?: unknown; history?: unknown; provider?: unknown };
+    try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+
+    const question = typeof body.question === "string" ? body.question.trim() : "";
+    if (!question) return corsJson({ error: "No question provided" }, 400, req);
+    if (question.length > MAX_QUESTION_CHARS) return corsJson({ error: `Question too long (max ${MAX_QUESTION_CHARS} characters).` }, 400, req);
+
+    let text: string | undefined;
+    if (typeof body.id === "string" && body.id) {
+      const saved = await getReview(body.id);
+      if (!saved) return corsJson({ error: "Review not found" }, 404, req);
+      text = saved.result.rawText;
+    } else if (typeof body.rawText === "string") {
+      text = body.rawText;
+    }
+    if (!text?.trim()) return corsJson({ error: "The review has no contract text to ask about" }, 400, req);
+
+    const providerName = resolveProviderName(typeof body.provider === "string" ? body.provider : null);
+    if (!providerName) {
+      return corsJson({ error: `Unknown provider. Use one of: ${PROVIDER_NAMES.join(", ")}.` }, 400, req);
+    }
+
+    const provider = meterProvider(getProvider(providerName));
+    const record = (status: number) =>
+      logUsage({ principal: caller.id, route: "/api/ask", provider: provider.name, model: provider.model, status, ...provider.usage });
+    try {
+      const answer = await answerQuestion(provider, text, question, { history: parseHistory(body.history), signal: req.signal });
+      record(200);
+      return corsJson(answer, 200, req);
+    } catch (err) {
+      record(500);
+      throw err;
+    }
+  } catch (err) {
+    console.error("/api/ask error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
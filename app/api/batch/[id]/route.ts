@@ -0,0 +1,33 @@
+// -----------------------------
+// Next.js API route (app/api/batch/[id]/route.ts)
+// -----------------------------
+// A batch job with every file's status; poll until `status` is "done".
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getBatchJob } from "@/lib/batch";
+import { corsJson, corsPreflight } from "@/lib/http";
+
+type Params = { params: Promise<{ id: string }> };
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    const job = await getBatchJob(id);
+    // Someone else's job looks the same as a missing one.
+    if (!job || job.principal !== caller.id) return corsJson({ error: "Batch not found" }, 404, req);
+    return corsJson(job, 200, req);
+  } catch (err) {
+    console.error("/api/batch/[id] error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
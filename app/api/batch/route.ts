@@ -0,0 +1,109 @@
+// -----------------------------
+// Next.js API route (app/api/batch/route.ts)
+// -----------------------------
+// Starts a batch review of many `file` fields and returns the job (202) to poll
+// at /api/batch/:id. Starting a batch takes a rate-limit token, and each file
+// takes another when its review starts, so a large batch queues behind the
+// caller's limit instead of being refused. A caller runs at most
+// BATCH_MAX_ACTIVE batches at once.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize, waitForTokens } from "@/lib/auth";
+import { claimBatchSlot, createBatch, listBatches, MAX_BATCH_BYTES, MAX_BATCH_FILES, maxActiveBatches, runBatch, type BatchSource } from "@/lib/batch";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { getProvider, meterProvider, resolveProviderName, PROVIDER_NAMES } from "@/lib/llm";
+import { ExtractionError } from "@/lib/extract";
+import { getPlaybook } from "@/lib/playbook";
+import { MAX_INPUT_BYTES, reviewDocument } from "@/lib/review/pipeline";
+import { logUsage } from "@/lib/store/usage";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    return corsJson({ batches: await listBatches(caller.id) }, 200, req);
+  } catch (err) {
+    console.error("/api/batch error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const caller = authorize(req, { cost: 1 });
+  if (caller instanceof Response) return caller;
+  const release = claimBatchSlot(caller.id);
+  if (!release) {
+    const max = maxActiveBatches();
+    return corsJson({ error: `You already have ${max} batch${max === 1 ? "" : "es"} running. Wait for one to finish.` }, 429, req);
+  }
+  let started = false;
+  try {
+    // Refuse before buffering the upload when the client says up front that it's too big.
+    if (Number(req.headers.get("content-length")) > MAX_BATCH_BYTES) {
+      return corsJson({ error: "The batch is too large (max 100MB in total)." }, 413, req);
+    }
+    const form = await req.formData();
+    const files = form.getAll("file").filter((f): f is File => f instanceof File);
+    if (!files.length) return corsJson({ error: "No files provided" }, 400, req);
+    if (files.length > MAX_BATCH_FILES) return corsJson({ error: `Too many files (max ${MAX_BATCH_FILES} per batch).` }, 400, req);
+    const tooLarge = files.find((f) => f.size > MAX_INPUT_BYTES);
+    if (tooLarge) return corsJson({ error: `"${tooLarge.name}" is too large (max 15MB).` }, 413, req);
+    if (files.reduce((n, f) => n + f.size, 0) > MAX_BATCH_BYTES) {
+      return corsJson({ error: "The batch is too large (max 100MB in total)." }, 413, req);
+    }
+
+    const providerName = resolveProviderName(form.get("provider") as string | null);
+    if (!providerName) {
+      return corsJson({ error: `Unknown provider. Use one of: ${PROVIDER_NAMES.join(", ")}.` }, 400, req);
+    }
+
+    const playbookId = form.get("playbook");
+    const playbook = typeof playbookId === "string" && playbookId ? await getPlaybook(playbookId) : undefined;
+    if (playbook === null) return corsJson({ error: `Unknown playbook "${playbookId}".` }, 400, req);
+    const force = form.get("force") === "1" || form.get("force") === "true";
+
+    const sources: BatchSource[] = await Promise.all(
+      files.map(async (f) => ({ buffer: Buffer.from(await f.arrayBuffer()), filename: f.name }))
+    );
+    const job = await createBatch({
+      principal: caller.id,
+      provider: providerName,
+      playbook: playbook && { id: playbook.id, name: playbook.name },
+      filenames: sources.map((s) => s.filename),
+    });
+
+    // One metered provider per attempt, so every ledger entry is one review.
+    const review = async (source: BatchSource) => {
+      await waitForTokens(caller.id);
+      const provider = meterProvider(getProvider(providerName));
+      const record = (status: number, cached?: boolean) =>
+        logUsage({ principal: caller.id, route: "/api/batch", provider: provider.name, model: provider.model, status, cached, ...provider.usage });
+      try {
+        const result = await reviewDocument(source, provider, { force, playbook });
+        record(200, result.cached);
+        return result;
+      } catch (err) {
+        record(err instanceof ExtractionError ? err.status : 500);
+        throw err;
+      }
+    };
+    runBatch(structuredClone(job), sources, review)
+      .catch((err) => console.error("batch run failed", err))
+      .finally(release);
+    started = true;
+
+    return corsJson(job, 202, req, { Location: `/api/batch/${job.id}` });
+  } catch (err) {
+    console.error("/api/batch error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  } finally {
+    if (!started) release();
+  }
+}
@@ -0,0 +1,31 @@
+// -----------------------------
+// Next.js API route (app/api/benchmarks/[id]/route.ts)
+// -----------------------------
+// Removes an imported deal. Deals from saved reviews go away with the review.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { deleteImportedDeal } from "@/lib/store/benchmarks";
+
+type Params = { params: Promise<{ id: string }> };
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    if (!(await deleteImportedDeal(id))) return corsJson({ error: "Deal not found" }, 404, req);
+    return corsJson({ deleted: id }, 200, req);
+  } catch (err) {
+    console.error("/api/benchmarks/[id] error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,60 @@
+// -----------------------------
+// Next.js API route (app/api/benchmarks/route.ts)
+// -----------------------------
+// The deals the rate benchmark compares against. GET lists them (saved reviews
+// plus imports); POST imports historical deals from CSV, sent as a `file` form
+// field or as a text/csv body.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { DealImportError, loadBenchmarkDeals, minComparables, parseDealsCsv } from "@/lib/benchmark";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { saveImportedDeals } from "@/lib/store/benchmarks";
+
+const MAX_CSV_BYTES = 2 * 1024 * 1024; // 2MB
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const deals = await loadBenchmarkDeals();
+    return corsJson({ deals, minComparables: minComparables() }, 200, req);
+  } catch (err) {
+    console.error("/api/benchmarks error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
+
+async function readCsv(req: NextRequest): Promise<string | null> {
+  if (req.headers.get("content-type")?.includes("multipart/form-data")) {
+    const file = (await req.formData()).get("file");
+    return file instanceof File ? file.text() : null;
+  }
+  return req.text();
+}
+
+export async function POST(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const csv = await readCsv(req);
+    if (!csv?.trim()) return corsJson({ error: "No CSV provided" }, 400, req);
+    if (Buffer.byteLength(csv) > MAX_CSV_BYTES) return corsJson({ error: "CSV too large (max 2MB)." }, 413, req);
+
+    const { deals, errors } = parseDealsCsv(csv);
+    if (!deals.length) return corsJson({ error: "No row could be imported.", errors }, 400, req);
+    const saved = await saveImportedDeals(deals);
+    return corsJson({ imported: saved.length, deals: saved, errors }, 201, req);
+  } catch (err) {
+    if (err instanceof DealImportError) return corsJson({ error: err.message }, err.status, req);
+    console.error("/api/benchmarks error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
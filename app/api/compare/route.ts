@@ -0,0 +1,110 @@
+// -----------------------------
+// Next.js API route (app/api/compare/route.ts)
+// -----------------------------
+// Reviews two versions of a contract and diffs them. Each side is a `before` /
+// `after` file, pasted `beforeText` / `afterText`, or a saved `beforeId` / `afterId`.
+// A saved review is compared as its reviewer edited it. An optional `playbook`
+// applies to both sides.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize, chargeTokens } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { getProvider, meterProvider, resolveProviderName, PROVIDER_NAMES, type LLMProvider } from "@/lib/llm";
+import { ExtractionError } from "@/lib/extract";
+import { compareReviews } from "@/lib/compare";
+import { getPlaybook } from "@/lib/playbook";
+import { applyEdits } from "@/lib/review/edits";
+import { MAX_INPUT_BYTES, reviewDocument, type ReviewOptions } from "@/lib/review/pipeline";
+import type { ReviewResult } from "@/lib/review/schema";
+import { getReview } from "@/lib/store/reviews";
+import { logUsage } from "@/lib/store/usage";
+
+// Thrown for a side that can't be read; carries the response status.
+class InputError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+type Side = "before" | "after";
+
+function savedId(form: FormData, side: Side): string | null {
+  const id = form.get(`${side}Id`);
+  return typeof id === "string" && id ? id : null;
+}
+
+async function reviewSide(form: FormData, side: Side, provider: LLMProvider, opts: ReviewOptions): Promise<ReviewResult> {
+  const id = savedId(form, side);
+  if (id) {
+    const saved = await getReview(id);
+    if (!saved) throw new InputError(`Saved review for "${side}" not found`, 404);
+    return { ...applyEdits(saved.result, saved.edits), cached: true };
+  }
+
+  const fileEntry = form.get(side);
+  const file = fileEntry instanceof File ? fileEntry : null;
+  const textEntry = form.get(`${side}Text`);
+  const pasted = typeof textEntry === "string" && textEntry.trim() ? textEntry : null;
+  if (!file && !pasted) throw new InputError(`No file or text provided for "${side}"`, 400);
+  if (file && file.size > MAX_INPUT_BYTES) throw new InputError(`File too large (max 15MB).`, 413);
+  if (pasted && Buffer.byteLength(pasted) > MAX_INPUT_BYTES) throw new InputError(`Text too large (max 15MB).`, 413);
+
+  const source = file ? { buffer: Buffer.from(await file.arrayBuffer()), filename: file.name } : { text: pasted! };
+  try {
+    return await reviewDocument(source, provider, opts);
+  } catch (err) {
+    if (err instanceof ExtractionError) throw new InputError(`${side === "before" ? "Earlier" : "New"} version: ${err.message}`, err.status);
+    throw err;
+  }
+}
+
+// ✅ Preflight handler (OPTIONS)
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+// -----------------------------
+// POST Handler
+// -----------------------------
+export async function POST(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const form = await req.formData();
+    // A token per side that gets reviewed; saved reviews are free.
+    const limited = chargeTokens(req, caller, (["before", "after"] as const).filter((side) => !savedId(form, side)).length);
+    if (limited) return limited;
+    const providerName = resolveProviderName(form.get("provider") as string | null);
+    if (!providerName) {
+      return corsJson({ error: `Unknown provider. Use one of: ${PROVIDER_NAMES.join(", ")}.` }, 400, req);
+    }
+    const provider = meterProvider(getProvider(providerName));
+    const record = (status: number, cached?: boolean) =>
+      logUsage({ principal: caller.id, route: "/api/compare", provider: provider.name, model: provider.model, status, cached, ...provider.usage });
+    const force = form.get("force") === "1" || form.get("force") === "true";
+    const playbookId = form.get("playbook");
+    const playbook = typeof playbookId === "string" && playbookId ? await getPlaybook(playbookId) : undefined;
+    if (playbook === null) return corsJson({ error: `Unknown playbook "${playbookId}".` }, 400, req);
+
+    let sides: [ReviewResult, ReviewResult];
+    try {
+      sides = await Promise.all([
+        reviewSide(form, "before", provider, { force, playbook }),
+        reviewSide(form, "after", provider, { force, playbook }),
+      ]);
+    } catch (err) {
+      record(err instanceof InputError ? err.status : 500);
+      throw err;
+    }
+    const [before, after] = sides;
+    record(200, before.cached && after.cached);
+    return corsJson({ before, after, comparison: compareReviews(before, after) }, 200, req);
+  } catch (err) {
+    if (err instanceof InputError) return corsJson({ error: err.message }, err.status, req);
+    console.error("/api/compare error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
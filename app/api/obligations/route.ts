@@ -0,0 +1,72 @@
+// -----------------------------
+// Next.js API route (app/api/obligations/route.ts)
+// -----------------------------
+// Exports a review's dated obligations as an .ics calendar or a CSV. Send the
+// `result` itself, or the `id` of a saved review.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsHeaders, corsJson, corsPreflight } from "@/lib/http";
+import { extractObligations, OBLIGATION_FORMATS, renderObligations, type ObligationFormat } from "@/lib/obligations";
+import { normalizeResult, type ReviewResult } from "@/lib/review/schema";
+import { extractTerms } from "@/lib/review/structured";
+import { readsTermsIn } from "@/lib/review/terms";
+import { getReview } from "@/lib/store/reviews";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+function isObligationFormat(value: unknown): value is ObligationFormat {
+  return typeof value === "string" && (OBLIGATION_FORMATS as readonly string[]).includes(value);
+}
+
+// Reviews saved before obligations existed are worked out from their text.
+function obligationsFor(result: ReviewResult) {
+  if (result.obligations) return result.obligations;
+  if (!result.rawText || !readsTermsIn(result.language?.code)) return [];
+  return extractObligations(result.rawText, result.terms ?? extractTerms(result.snapshot, result.rawText));
+}
+
+export async function POST(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    let body: { result?: unknown; id?: unknown; format?: unknown; filename?: unknown };
+    try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+
+    const format = body.format ?? "ics";
+    if (!isObligationFormat(format)) {
+      return corsJson({ error: `Unknown format. Use one of: ${OBLIGATION_FORMATS.join(", ")}.` }, 400, req);
+    }
+
+    let result: ReviewResult;
+    if (typeof body.id === "string" && body.id) {
+      const saved = await getReview(body.id);
+      if (!saved) return corsJson({ error: "Review not found" }, 404, req);
+      result = saved.result;
+    } else if (body.result && typeof body.result === "object") {
+      result = normalizeResult(body.result);
+    } else {
+      return corsJson({ error: "No result or id provided" }, 400, req);
+    }
+
+    const filename = typeof body.filename === "string" ? body.filename : result.filename;
+    const file = renderObligations(obligationsFor(result), format, filename);
+
+    return new NextResponse(Buffer.from(file.body), {
+      status: 200,
+      headers: {
+        ...corsHeaders(req),
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (err) {
+    console.error("/api/obligations error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
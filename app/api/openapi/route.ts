@@ -0,0 +1,27 @@
+// -----------------------------
+// Next.js API route (app/api/openapi/route.ts)
+// -----------------------------
+// The OpenAPI 3.1 document for the review and webhook endpoints.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { buildOpenApiSpec } from "@/lib/api";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    return corsJson(buildOpenApiSpec(), 200, req);
+  } catch (err) {
+    console.error("/api/openapi error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,29 @@
+// -----------------------------
+// Next.js API route (app/api/playbooks/route.ts)
+// -----------------------------
+// Playbooks available for upload, plus any files that failed validation.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { loadPlaybooks, type PlaybookSummary } from "@/lib/playbook";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { playbooks, errors } = await loadPlaybooks();
+    const summaries: PlaybookSummary[] = playbooks.map(({ id, name, description, positions }) => ({ id, name, description, positions }));
+    return corsJson({ playbooks: summaries, errors }, 200, req);
+  } catch (err) {
+    console.error("/api/playbooks error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,57 @@
+// -----------------------------
+// Next.js API route (app/api/redline/docx/route.ts)
+// -----------------------------
+// Exports accepted edits as a DOCX with tracked changes.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsHeaders, corsJson, corsPreflight } from "@/lib/http";
+import { redlineFilename, renderRedlineDocx } from "@/lib/redline";
+import { locateQuote } from "@/lib/review/citations";
+import { RedlineEditSchema, type RedlineEdit } from "@/lib/review/schema";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function POST(req: NextRequest) {
+  // Each edit is word-diffed into tracked changes.
+  const caller = authorize(req, { cost: 1 });
+  if (caller instanceof Response) return caller;
+  try {
+    let body: { rawText?: unknown; edits?: unknown; filename?: unknown };
+    try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+
+    if (typeof body.rawText !== "string" || !body.rawText.trim()) return corsJson({ error: "No contract text provided" }, 400, req);
+    const text = body.rawText;
+
+    // Offsets come from the client; re-anchor any edit whose original no longer lines up.
+    const edits = (Array.isArray(body.edits) ? body.edits : []).flatMap((e): RedlineEdit[] => {
+      const parsed = RedlineEditSchema.safeParse(e);
+      if (!parsed.success) return [];
+      const edit = parsed.data;
+      if (text.slice(edit.start, edit.end) === edit.original) return [edit];
+      const span = locateQuote(text, edit.original);
+      return span ? [{ ...edit, ...span }] : [];
+    });
+    if (!edits.length) return corsJson({ error: "No edits to export" }, 400, req);
+
+    const filename = typeof body.filename === "string" ? body.filename : undefined;
+    const docx = await renderRedlineDocx(text, edits, { filename });
+
+    return new NextResponse(new Uint8Array(docx), {
+      status: 200,
+      headers: {
+        ...corsHeaders(req),
+        "Content-Type": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "Content-Disposition": `attachment; filename="${redlineFilename({ filename })}"`,
+      },
+    });
+  } catch (err) {
+    console.error("/api/redline/docx error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,79 @@
+// -----------------------------
+// Next.js API route (app/api/redline/route.ts)
+// -----------------------------
+// Turns accepted counters into concrete clause edits against rawText.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { getProvider, meterProvider, resolveProviderName, PROVIDER_NAMES } from "@/lib/llm";
+import { redact } from "@/lib/redact";
+import { generateRedlines, type CounterInput } from "@/lib/redline";
+import { citationsFor } from "@/lib/review/citations";
+import { normalizeResult } from "@/lib/review/schema";
+import { logUsage } from "@/lib/store/usage";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function POST(req: NextRequest) {
+  const caller = authorize(req, { cost: 1 });
+  if (caller instanceof Response) return caller;
+  try {
+    let body: { result?: unknown; accepted?: unknown; provider?: unknown };
+    try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+
+    const result = normalizeResult(body.result);
+    if (!result.rawText) return corsJson({ error: "The review has no contract text to redline" }, 400, req);
+
+    const providerName = resolveProviderName(typeof body.provider === "string" ? body.provider : null);
+    if (!providerName) {
+      return corsJson({ error: `Unknown provider. Use one of: ${PROVIDER_NAMES.join(", ")}.` }, 400, req);
+    }
+
+    // Default to every counter when the client doesn't say which ones were accepted.
+    const accepted = Array.isArray(body.accepted)
+      ? body.accepted.filter((i): i is number => Number.isInteger(i) && i >= 0 && i < result.counters.length)
+      : result.counters.map((_, i) => i);
+    if (!accepted.length) return corsJson({ error: "No counters selected" }, 400, req);
+
+    // Same masking as the review itself; the edits are mapped back onto rawText below.
+    const rawText = result.rawText;
+    const redaction = redact(rawText);
+    const counters: CounterInput[] = accepted.map((index) => ({
+      index,
+      text: redaction.mask(result.counters[index]),
+      quotes: citationsFor(result.citations, `counters.${index}`).map((c) => redaction.mask(c.quote)),
+    }));
+
+    const provider = meterProvider(getProvider(providerName));
+    const record = (status: number) =>
+      logUsage({ principal: caller.id, route: "/api/redline", provider: provider.name, model: provider.model, status, ...provider.usage });
+    try {
+      const edits = (await generateRedlines(provider, redaction.text, counters)).map((e) => {
+        const start = redaction.toOriginal(e.start, "start");
+        const end = redaction.toOriginal(e.end, "end");
+        return {
+          ...e,
+          start,
+          end,
+          original: rawText.slice(start, end),
+          replacement: redaction.restore(e.replacement),
+          rationale: redaction.restore(e.rationale),
+        };
+      });
+      record(200);
+      return corsJson({ edits }, 200, req);
+    } catch (err) {
+      record(500);
+      throw err;
+    }
+  } catch (err) {
+    console.error("/api/redline error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,55 @@
+// -----------------------------
+// Next.js API route (app/api/report/route.ts)
+// -----------------------------
+// Renders a review result as a downloadable PDF, DOCX or Markdown report.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsHeaders, corsJson, corsPreflight } from "@/lib/http";
+import { renderReport, REPORT_FORMATS, type ReportFormat } from "@/lib/report";
+import { applyEdits } from "@/lib/review/edits";
+import { normalizeResult } from "@/lib/review/schema";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === "string" && (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export async function POST(req: NextRequest) {
+  // Rendering a PDF or DOCX costs as much as the redline DOCX export.
+  const caller = authorize(req, { cost: 1 });
+  if (caller instanceof Response) return caller;
+  try {
+    let body: { result?: unknown; format?: unknown; filename?: unknown };
+    try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+
+    const format = body.format ?? "pdf";
+    if (!isReportFormat(format)) {
+      return corsJson({ error: `Unknown format. Use one of: ${REPORT_FORMATS.join(", ")}.` }, 400, req);
+    }
+    if (!body.result || typeof body.result !== "object") return corsJson({ error: "No result provided" }, 400, req);
+
+    const filename = typeof body.filename === "string" ? body.filename : undefined;
+    // A result with reviewer edits is exported as edited.
+    const result = normalizeResult(body.result);
+    const report = await renderReport(applyEdits(result), format, { filename, edits: result.edits });
+
+    return new NextResponse(Buffer.from(report.body), {
+      status: 200,
+      headers: {
+        ...corsHeaders(req),
+        "Content-Type": report.contentType,
+        "Content-Disposition": `attachment; filename="${report.filename}"`,
+      },
+    });
+  } catch (err) {
+    console.error("/api/report error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -5,172 +5,104 @@
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-import pdfParse from "pdf-parse";
-import * as mammoth from "mammoth";
-
-// ✅ CORS CONFIG (change * to your domain for security)
-const CORS_HEADERS = {
-  "Access-Control-Allow-Origin": "*",        // or "https://ejd.tkk.mybluehost.me"
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
-};
-
-function corsJson(body: any, status = 200) {
-  return new NextResponse(JSON.stringify(body), {
-    status,
-    headers: {
-      ...CORS_HEADERS,
-      "Content-Type": "application/json",
-    },
-  });
-}
+import { NextRequest } from "next/server";
+import { API_VERSION_HEADER, API_VERSIONS, requestedApiVersion, versionedReview } from "@/lib/api";
+import { authorize } from "@/lib/auth";
+import { corsEventStream, corsJson, corsPreflight } from "@/lib/http";
+import { getProvider, meterProvider, resolveProviderName, PROVIDER_NAMES } from "@/lib/llm";
+import { ExtractionError } from "@/lib/extract";
+import { getPlaybook } from "@/lib/playbook";
+import type { ReviewStreamEnd } from "@/lib/review/events";
+import { MAX_INPUT_BYTES, reviewDocument } from "@/lib/review/pipeline";
+import { languageFromTag, LANGUAGES } from "@/lib/review/schema";
+import { logUsage } from "@/lib/store/usage";
 
 // ✅ Preflight handler (OPTIONS)
-export function OPTIONS() {
-  return new NextResponse(null, {
-    status: 204,
-    headers: CORS_HEADERS,
-  });
-}
-
-// -----------------------------
-// Helpers
-// -----------------------------
-function s_cleanStr(input: unknown): string {
-  if (typeof input === "string") return input;
-  if (input === null || input === undefined) return "";
-  try { return String(input); } catch { return ""; }
-}
-
-function s_normalizeSnapshot(s: any) {
-  const parties = s_cleanStr(s?.parties);
-  const dates = s_cleanStr(s?.dates);
-  const term = s_cleanStr(s?.term);
-  const rate = s_cleanStr(s?.rate);
-  const deliverables = s_cleanStr(s?.deliverables);
-  const usage = s_cleanStr(s?.usage);
-  const brandBrief = s_cleanStr(s?.brandBrief);
-  const additionalReqs = s_cleanStr(s?.additionalReqs);
-  const billing = s_cleanStr(s?.billing);
-  return {
-    parties,
-    dates,
-    term,
-    rate,
-    deliverables,
-    usage,
-    brandBrief: brandBrief || undefined,
-    additionalReqs: additionalReqs || undefined,
-    billing: billing || undefined,
-  };
-}
-
-async function extractTextFromPDF(buffer: Buffer): Promise<string> {
-  const out = await pdfParse(buffer);
-  return out.text || "";
-}
-
-async function extractTextFromDOCX(arrayBuffer: ArrayBuffer): Promise<string> {
-  const { value } = await mammoth.extractRawText({ arrayBuffer });
-  return value || "";
-}
-
-function looksLikePDF(filename?: string, mime?: string) {
-  return (mime?.includes("pdf") ?? false) || (filename?.toLowerCase().endsWith(".pdf") ?? false);
-}
-
-function looksLikeDOCX(filename?: string, mime?: string) {
-  const n = filename?.toLowerCase() || "";
-  return (mime?.includes("word") ?? false) || n.endsWith(".docx") || n.endsWith(".doc");
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
 }
 
 // -----------------------------
 // POST Handler
 // -----------------------------
 export async function POST(req: NextRequest) {
+  const caller = authorize(req, { cost: 1 });
+  if (caller instanceof Response) return caller;
   try {
-    const form = await req.formData();
-    const file = form.get("file") as unknown as File | null;
-    if (!file) return corsJson({ error: "No file provided" }, 400);
-
-    const MAX_BYTES = 15 * 1024 * 1024; // 15MB
-    const fname = (file as any).name as string | undefined;
-    const mime = (file as any).type as string | undefined;
-    const size = (file as any).size as number | undefined;
+    // Response format; see lib/api/version.ts.
+    const apiVersion = requestedApiVersion(req);
+    if (!apiVersion) return corsJson({ error: `Unsupported API version. Use one of: ${API_VERSIONS.join(", ")}.` }, 400, req);
+    const versionHeader = { [API_VERSION_HEADER]: apiVersion };
 
-    if (typeof size === "number" && size > MAX_BYTES) {
-      return corsJson({ error: `File too large (max 15MB).` }, 413);
-    }
-
-    const allowed = /\.(pdf|docx?|rtf)$/i;
-    if (fname && !allowed.test(fname)) {
-      return corsJson(
-        { error: "Unsupported file type. Please upload a PDF or Word document." },
-        415
-      );
+    const form = await req.formData();
+    const fileEntry = form.get("file");
+    const file = fileEntry instanceof File ? fileEntry : null;
+    const textEntry = form.get("text");
+    const pasted = typeof textEntry === "string" && textEntry.trim() ? textEntry : null;
+    if (!file && !pasted) return corsJson({ error: "No file or text provided" }, 400, req);
+
+    const providerName = resolveProviderName(form.get("provider") as string | null);
+    if (!providerName) {
+      return corsJson({ error: `Unknown provider. Use one of: ${PROVIDER_NAMES.join(", ")}.` }, 400, req);
     }
 
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    const playbookId = form.get("playbook");
+    const playbook = typeof playbookId === "string" && playbookId ? await getPlaybook(playbookId) : undefined;
+    if (playbook === null) return corsJson({ error: `Unknown playbook "${playbookId}".` }, 400, req);
 
-    let text = "";
-    if (looksLikePDF(fname, mime)) {
-      try { text = await extractTextFromPDF(buffer); }
-      catch { return corsJson({ error: "Unable to parse PDF. If it's password-protected, export an unlocked copy and re-upload." }, 422); }
-    } else if (looksLikeDOCX(fname, mime) || /\.doc$/i.test(fname || "")) {
-      try { text = await extractTextFromDOCX(arrayBuffer); }
-      catch { return corsJson({ error: "Unable to read Word file. Try saving as DOCX or PDF and re-upload." }, 422); }
-    } else {
-      try { text = await extractTextFromPDF(buffer); } catch {}
-      if (!text) { try { text = await extractTextFromDOCX(arrayBuffer); } catch {} }
+    // Output language ("es", "pt-BR", ...); the review is also translated into it when the contract is in another one.
+    const languageTag = form.get("language");
+    const outputLanguage = typeof languageTag === "string" && languageTag ? languageFromTag(languageTag) : undefined;
+    if (outputLanguage === null) {
+      return corsJson({ error: `Unsupported language "${languageTag}". Use one of: ${LANGUAGES.join(", ")}.` }, 400, req);
     }
 
-    if (!text || text.trim().length < 20) {
-      return corsJson({ error: "We couldn't extract readable text. Please export to PDF or DOCX and re-upload." }, 422);
+    if (file && file.size > MAX_INPUT_BYTES) return corsJson({ error: `File too large (max 15MB).` }, 413, req);
+    if (pasted && Buffer.byteLength(pasted) > MAX_INPUT_BYTES) return corsJson({ error: `Text too large (max 15MB).` }, 413, req);
+
+    const source = file ? { buffer: Buffer.from(await file.arrayBuffer()), filename: file.name } : { text: pasted! };
+    const force = form.get("force") === "1" || form.get("force") === "true";
+    const provider = meterProvider(getProvider(providerName));
+    const record = (status: number, cached?: boolean) =>
+      logUsage({ principal: caller.id, route: "/api/review", provider: provider.name, model: provider.model, status, cached, ...provider.usage });
+
+    // `stream=1` (or Accept: text/event-stream): progress as Server-Sent Events, ending in `result` or `error`.
+    const stream = form.get("stream") === "1" || req.headers.get("accept")?.includes("text/event-stream");
+    if (stream) {
+      const res = corsEventStream(async (send, signal) => {
+        const end = (event: ReviewStreamEnd) => send(event.type, event);
+        try {
+          const result = await reviewDocument(source, provider, { force, playbook, outputLanguage, signal, onEvent: (e) => send(e.type, e) });
+          record(200, result.cached);
+          end({ type: "result", result: versionedReview(result) });
+        } catch (err) {
+          // 499: the client went away, but the calls made so far still count.
+          if (signal.aborted) return record(499);
+          if (err instanceof ExtractionError) {
+            record(err.status);
+            return end({ type: "error", error: err.message, status: err.status });
+          }
+          console.error("/api/review stream error", err);
+          record(500);
+          end({ type: "error", error: "Unexpected error", status: 500 });
+        }
+      }, req);
+      res.headers.set(API_VERSION_HEADER, apiVersion);
+      return res;
     }
 
-    const TEXT_LIMIT = 50000;
-    const trimmed = text.slice(0, TEXT_LIMIT);
-
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-    const system = `You are a contracts analyst for creator/brand deals. Return STRICT JSON only. Fields:
-      {
-        "snapshot": {"parties":string,"dates":string,"term":string,"rate":string,"deliverables":string,"usage":string,"brandBrief":string|null,"additionalReqs":string|null,"billing":string|null},
-        "risks": Array<{"label":string,"level":"Low"|"Med"|"High","note"?:string}>,
-        "counters": string[]
-      }
-      Do NOT include late fees in counters.`;
-
-    const user = `Contract text:\n\n${trimmed}`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      temperature: 0.2,
-      messages: [
-        { role: "system", content: system },
-        { role: "user", content: user },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const content = completion.choices[0]?.message?.content ?? "{}";
-    let data: any;
-    try { data = JSON.parse(content); } catch { data = {}; }
-
-    const out = {
-      snapshot: s_normalizeSnapshot(data?.snapshot ?? {}),
-      risks: Array.isArray(data?.risks) ? data.risks : [],
-      counters: (Array.isArray(data?.counters) ? data.counters : []).filter((c: string) => !/late fee/i.test(c)),
-      rawText: trimmed,
-    };
-
-    return corsJson(out, 200);
+    try {
+      const result = await reviewDocument(source, provider, { force, playbook, outputLanguage });
+      record(200, result.cached);
+      return corsJson(versionedReview(result), 200, req, versionHeader);
+    } catch (err) {
+      record(err instanceof ExtractionError ? err.status : 500);
+      if (err instanceof ExtractionError) return corsJson({ error: err.message }, err.status, req);
+      throw err;
+    }
 
   } catch (err: any) {
     console.error("/api/review error", err);
-    return corsJson({ error: "Unexpected error" }, 500);
+    return corsJson({ error: "Unexpected error" }, 500, req);
   }
 }
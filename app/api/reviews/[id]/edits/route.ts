@@ -0,0 +1,59 @@
+// -----------------------------
+// Next.js API route (app/api/reviews/[id]/edits/route.ts)
+// -----------------------------
+// Saves a reviewer's edits (ReviewEdits JSON) to a saved review, replacing any
+// earlier ones. The AI output itself is left as it was; GET /api/reviews/:id
+// returns both. An approved review only takes edits that also reopen it.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { ReviewEditsSchema } from "@/lib/review/schema";
+import { getReview, saveReviewEdits } from "@/lib/store/reviews";
+
+type Params = { params: Promise<{ id: string }> };
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    let body: unknown;
+    try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+
+    const parsed = ReviewEditsSchema.safeParse(body);
+    if (!parsed.success) {
+      return corsJson({ error: parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") }, 400, req);
+    }
+    const edits = parsed.data;
+    if (edits.status === "approved" && !edits.reviewer) return corsJson({ error: "Approving a review needs a reviewer name." }, 400, req);
+
+    const review = await getReview(id);
+    if (!review) return corsJson({ error: "Review not found" }, 404, req);
+    if (review.edits?.status === "approved" && edits.status === "approved") {
+      return corsJson({ error: "This review is approved. Set its status back to draft or in review to change it." }, 409, req);
+    }
+    const languages = [review.result.language?.code, review.result.translation?.language];
+    if (edits.language && !languages.includes(edits.language)) {
+      return corsJson({ error: "Edits can only be made in the contract's language or the translation's." }, 400, req);
+    }
+    const badRisk = edits.risks.find((e) => e.index >= review.result.risks.length);
+    if (badRisk) return corsJson({ error: `No risk at index ${badRisk.index}.` }, 400, req);
+    const badCounter = edits.counters.find((e) => e.index >= review.result.counters.length);
+    if (badCounter) return corsJson({ error: `No counter at index ${badCounter.index}.` }, 400, req);
+
+    const saved = await saveReviewEdits(id, { ...edits, updatedAt: new Date().toISOString(), updatedBy: caller.id });
+    if (!saved) return corsJson({ error: "Review not found" }, 404, req);
+    return corsJson(saved.edits, 200, req);
+  } catch (err) {
+    console.error("/api/reviews/[id]/edits error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
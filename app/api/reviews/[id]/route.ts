@@ -0,0 +1,47 @@
+// -----------------------------
+// Next.js API route (app/api/reviews/[id]/route.ts)
+// -----------------------------
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { API_VERSION_HEADER, API_VERSIONS, requestedApiVersion, versionedReview } from "@/lib/api";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { deleteReview, getReview } from "@/lib/store/reviews";
+
+type Params = { params: Promise<{ id: string }> };
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const apiVersion = requestedApiVersion(req);
+    if (!apiVersion) return corsJson({ error: `Unsupported API version. Use one of: ${API_VERSIONS.join(", ")}.` }, 400, req);
+    const { id } = await params;
+    const review = await getReview(id);
+    if (!review) return corsJson({ error: "Review not found" }, 404, req);
+    return corsJson(versionedReview({ ...review.result, edits: review.edits, cached: true }), 200, req, { [API_VERSION_HEADER]: apiVersion });
+  } catch (err) {
+    console.error("/api/reviews/[id] error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    if (!(await deleteReview(id))) return corsJson({ error: "Review not found" }, 404, req);
+    return corsJson({ deleted: id }, 200, req);
+  } catch (err) {
+    console.error("/api/reviews/[id] error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
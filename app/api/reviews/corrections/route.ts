@@ -0,0 +1,29 @@
+// -----------------------------
+// Next.js API route (app/api/reviews/corrections/route.ts)
+// -----------------------------
+// How often reviewers correct the AI: edits counted against what the AI
+// produced, over every saved review.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { correctionStats } from "@/lib/review/edits";
+import { listStoredReviews } from "@/lib/store/reviews";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    return corsJson(correctionStats(await listStoredReviews()), 200, req);
+  } catch (err) {
+    console.error("/api/reviews/corrections error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,41 @@
+// -----------------------------
+// Next.js API route (app/api/reviews/route.ts)
+// -----------------------------
+// Saved review history, newest first. Takes the portfolio filters (`q`, `risk`,
+// `sort`, `order`); `format=csv` downloads the filtered list.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsHeaders, corsJson, corsPreflight } from "@/lib/http";
+import { parsePortfolioQuery, queryPortfolio, renderPortfolioCsv } from "@/lib/portfolio";
+import { listReviews } from "@/lib/store/reviews";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const params = new URL(req.url).searchParams;
+    const reviews = queryPortfolio(await listReviews(), parsePortfolioQuery(params));
+    if (params.get("format") === "csv") {
+      return new NextResponse(renderPortfolioCsv(reviews), {
+        status: 200,
+        headers: {
+          ...corsHeaders(req),
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="contracts-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+    return corsJson({ reviews }, 200, req);
+  } catch (err) {
+    console.error("/api/reviews error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,46 @@
+// -----------------------------
+// Next.js API route (app/api/session/route.ts)
+// -----------------------------
+// Browser sign-in: POST an API key to get a session cookie, DELETE to sign
+// out, GET to see whether the app needs signing in at all.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authRequired, clearSessionCookie, clientIp, createSession, identify, matchApiKey, sessionCookie, takeTokens, trustProxy } from "@/lib/auth";
+import { corsJson, corsPreflight, isOriginAllowed } from "@/lib/http";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = identify(req);
+  return corsJson({ required: authRequired(), authenticated: !!caller, name: caller?.kind === "anonymous" ? undefined : caller?.name }, 200, req);
+}
+
+export async function POST(req: NextRequest) {
+  if (!isOriginAllowed(req)) return corsJson({ error: "Origin not allowed" }, 403, req);
+  // Sign-in attempts are limited per address, which only the proxy knows (route handlers don't see
+  // the socket). Without one, every client would share a bucket that anyone can drain.
+  if (process.env.NODE_ENV === "production" && !trustProxy()) {
+    console.error("TRUST_PROXY is not set; refusing browser sign-in in production");
+    return corsJson({ error: "Sign-in isn't configured on this server." }, 503, req);
+  }
+  // Slows down key guessing; in development, without a proxy, one bucket for everyone.
+  const limit = takeTokens(`login:${clientIp(req)}`);
+  if (!limit.ok) return corsJson({ error: "Too many sign-in attempts." }, 429, req, { "Retry-After": String(limit.retryAfter) });
+
+  let body: { key?: unknown };
+  try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+  const name = typeof body.key === "string" ? matchApiKey(body.key.trim()) : null;
+  if (!name) return corsJson({ error: "That key isn't valid." }, 401, req);
+
+  const { token, expires } = createSession(name);
+  return corsJson({ authenticated: true, name }, 200, req, { "Set-Cookie": sessionCookie(token, expires) });
+}
+
+export async function DELETE(req: NextRequest) {
+  return corsJson({ authenticated: false }, 200, req, { "Set-Cookie": clearSessionCookie() });
+}
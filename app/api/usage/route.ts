@@ -0,0 +1,33 @@
+// -----------------------------
+// Next.js API route (app/api/usage/route.ts)
+// -----------------------------
+// The caller's own usage ledger: totals plus the most recent entries.
+// `?since=<ISO date>` narrows both.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { listUsage, summarizeUsage } from "@/lib/store/usage";
+
+const RECENT = 100;
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const since = new URL(req.url).searchParams.get("since") ?? undefined;
+    if (since && Number.isNaN(Date.parse(since))) return corsJson({ error: "`since` must be an ISO date" }, 400, req);
+    const entries = await listUsage({ principal: caller.id, since: since && new Date(since).toISOString() });
+    return corsJson({ principal: caller.id, totals: summarizeUsage(entries), entries: entries.slice(0, RECENT) }, 200, req);
+  } catch (err) {
+    console.error("/api/usage error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
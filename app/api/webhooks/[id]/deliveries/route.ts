@@ -0,0 +1,33 @@
+// -----------------------------
+// Next.js API route (app/api/webhooks/[id]/deliveries/route.ts)
+// -----------------------------
+// The webhook's delivery log: every attempt, its status code or error, and
+// when the next retry is due.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { getWebhook } from "@/lib/store/webhooks";
+import { webhookDeliveries } from "@/lib/webhooks";
+
+type Params = { params: Promise<{ id: string }> };
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    if (!(await getWebhook(id))) return corsJson({ error: "Webhook not found" }, 404, req);
+    return corsJson({ deliveries: await webhookDeliveries(id) }, 200, req);
+  } catch (err) {
+    console.error("/api/webhooks/[id]/deliveries error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,45 @@
+// -----------------------------
+// Next.js API route (app/api/webhooks/[id]/route.ts)
+// -----------------------------
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { deleteWebhook, getWebhook } from "@/lib/store/webhooks";
+import { WebhookSchema } from "@/lib/webhooks";
+
+type Params = { params: Promise<{ id: string }> };
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    const hook = await getWebhook(id);
+    if (!hook) return corsJson({ error: "Webhook not found" }, 404, req);
+    return corsJson(WebhookSchema.parse(hook), 200, req);
+  } catch (err) {
+    console.error("/api/webhooks/[id] error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    if (!(await deleteWebhook(id))) return corsJson({ error: "Webhook not found" }, 404, req);
+    return corsJson({ deleted: id }, 200, req);
+  } catch (err) {
+    console.error("/api/webhooks/[id] error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
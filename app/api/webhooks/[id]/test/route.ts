@@ -0,0 +1,36 @@
+// -----------------------------
+// Next.js API route (app/api/webhooks/[id]/test/route.ts)
+// -----------------------------
+// Sends a signed "ping" once (no retries) and says whether it was accepted, so
+// a receiver can be checked without running a review. The status code or error
+// isn't returned, so the endpoint can't be used to probe what a URL answers.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { getWebhook } from "@/lib/store/webhooks";
+import { deliverWebhook, webhookEvent } from "@/lib/webhooks";
+
+type Params = { params: Promise<{ id: string }> };
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    const { id } = await params;
+    const hook = await getWebhook(id);
+    if (!hook) return corsJson({ error: "Webhook not found" }, 404, req);
+    const { id: deliveryId, status } = await deliverWebhook(hook, webhookEvent("ping"), { maxAttempts: 1 });
+    return corsJson({ deliveryId, delivered: status === "succeeded" }, 200, req);
+  } catch (err) {
+    console.error("/api/webhooks/[id]/test error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
@@ -0,0 +1,52 @@
+// -----------------------------
+// Next.js API route (app/api/webhooks/route.ts)
+// -----------------------------
+// Outbound webhook subscriptions. POST takes a JSON WebhookInput and answers
+// 201 with the webhook and its signing secret, the only time the secret is shown.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/auth";
+import { corsJson, corsPreflight } from "@/lib/http";
+import { createWebhook, listWebhooks } from "@/lib/store/webhooks";
+import { generateWebhookSecret, webhookTargetError, WebhookInputSchema, WebhookSchema } from "@/lib/webhooks";
+
+export function OPTIONS(req: NextRequest) {
+  return corsPreflight(req);
+}
+
+export async function GET(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    // parse() drops the secret.
+    const webhooks = (await listWebhooks()).map((h) => WebhookSchema.parse(h));
+    return corsJson({ webhooks }, 200, req);
+  } catch (err) {
+    console.error("/api/webhooks error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const caller = authorize(req);
+  if (caller instanceof Response) return caller;
+  try {
+    let body: unknown;
+    try { body = await req.json(); } catch { return corsJson({ error: "Expected a JSON body" }, 400, req); }
+
+    const parsed = WebhookInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return corsJson({ error: parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") }, 400, req);
+    }
+    const targetError = await webhookTargetError(parsed.data.url);
+    if (targetError) return corsJson({ error: `url: ${targetError}` }, 400, req);
+    const hook = await createWebhook({ ...parsed.data, secret: parsed.data.secret ?? generateWebhookSecret(), createdBy: caller.id });
+    return corsJson({ ...WebhookSchema.parse(hook), secret: hook.secret }, 201, req, { Location: `/api/webhooks/${hook.id}` });
+  } catch (err) {
+    console.error("/api/webhooks error", err);
+    return corsJson({ error: "Unexpected error" }, 500, req);
+  }
+}
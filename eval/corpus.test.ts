@@ -0,0 +1,21 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { findRegressions, loadCorpus, runEval, type EvalMetrics } from "@/lib/eval";
+import { getProvider } from "@/lib/llm";
+
+// The CI gate from `npm run eval`: the mock model over the golden corpus must
+// not score below its recorded baseline.
+describe("golden corpus", () => {
+  it("has a fixture for every expectation", async () => {
+    const cases = await loadCorpus();
+    expect(cases.length).toBeGreaterThan(0);
+    for (const c of cases) await expect(fs.access(path.join("eval", "corpus", c.file))).resolves.toBeUndefined();
+  });
+
+  it("scores the mock model at or above its baseline", async () => {
+    const baselines: Record<string, EvalMetrics> = JSON.parse(await fs.readFile(path.join("eval", "baseline.json"), "utf8"));
+    const report = await runEval(getProvider("mock"), await loadCorpus());
+    expect(findRegressions(report, baselines.mock)).toEqual([]);
+  });
+});
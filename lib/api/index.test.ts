@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { buildOpenApiSpec, requestedApiVersion, toJsonSchema, versionedReview } from "./index";
+
+describe("toJsonSchema", () => {
+  const Schema = z.object({
+    name: z.string().min(1),
+    count: z.number().int().min(0).optional(),
+    tags: z.array(z.enum(["a", "b"])).default([]),
+    note: z.preprocess((v) => v, z.string()).optional(),
+  }).strict();
+
+  it("renders types, checks and required fields", () => {
+    expect(toJsonSchema(Schema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1 },
+        count: { type: "integer", minimum: 0 },
+        tags: { type: "array", items: { type: "string", enum: ["a", "b"] }, default: [] },
+        note: { type: "string" },
+      },
+      required: ["name", "tags"],
+      additionalProperties: false,
+    });
+  });
+
+  it("lets request bodies leave out defaulted fields", () => {
+    expect(toJsonSchema(Schema, "input").required).toEqual(["name"]);
+  });
+});
+
+describe("buildOpenApiSpec", () => {
+  const spec = buildOpenApiSpec() as {
+    paths: Record<string, unknown>;
+    webhooks: Record<string, unknown>;
+    components: { schemas: Record<string, { required?: string[]; properties?: Record<string, unknown> }> };
+  };
+
+  it("documents the review response from the result schema", () => {
+    const review = spec.components.schemas.ReviewResponse;
+    expect(review.required).toEqual(expect.arrayContaining(["apiVersion", "snapshot", "risks", "counters"]));
+    expect(Object.keys(review.properties!)).toEqual(expect.arrayContaining(["terms", "rateBenchmark", "translation"]));
+    expect(spec.paths).toHaveProperty(["/api/review"]);
+    expect(spec.webhooks).toHaveProperty(["review.completed"]);
+  });
+
+  it("has every referenced schema", () => {
+    const refs = [...JSON.stringify(spec).matchAll(/"#\/components\/schemas\/(\w+)"/g)].map((m) => m[1]);
+    for (const name of refs) expect(spec.components.schemas).toHaveProperty([name]);
+  });
+});
+
+describe("API versions", () => {
+  const req = (headers: Record<string, string> = {}, query = "") => new Request(`http://localhost/api/review${query}`, { headers });
+
+  it("defaults to the current version and refuses unknown ones", () => {
+    expect(requestedApiVersion(req())).toBe("1");
+    expect(requestedApiVersion(req({ "X-API-Version": "1" }))).toBe("1");
+    expect(requestedApiVersion(req({}, "?apiVersion=1"))).toBe("1");
+    expect(requestedApiVersion(req({ "X-API-Version": "2" }))).toBeNull();
+  });
+
+  it("stamps the version on results", () => {
+    expect(versionedReview({ snapshot: {} as never, risks: [], counters: [], citations: [] }).apiVersion).toBe("1");
+  });
+});
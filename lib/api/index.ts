@@ -0,0 +1,6 @@
+export { toJsonSchema, type JsonSchema, type SchemaIO } from "./jsonschema";
+export { buildOpenApiSpec } from "./openapi";
+export {
+  API_VERSION, API_VERSION_HEADER, API_VERSIONS, ErrorResponseSchema, ReviewResponseSchema, requestedApiVersion, versionedReview,
+  type ReviewResponse,
+} from "./version";
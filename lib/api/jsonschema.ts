@@ -0,0 +1,84 @@
+// -----------------------------
+// JSON Schema from zod
+// -----------------------------
+// Renders the zod schemas we validate with as JSON Schema (draft 2020-12, as
+// used by OpenAPI 3.1), so the published API contract can't drift from the
+// code. Covers the zod features this codebase uses; anything else renders as {}.
+
+import { z } from "zod";
+
+export type JsonSchema = { [key: string]: unknown };
+
+// Request bodies may leave out fields that have a default; responses always include them.
+export type SchemaIO = "input" | "output";
+
+// preprocess() wrappers don't change the output type.
+function unwrapEffects(t: z.ZodTypeAny): z.ZodTypeAny {
+  return t instanceof z.ZodEffects ? unwrapEffects(t.innerType()) : t;
+}
+
+/** `.optional()`, possibly under preprocess(); on input, defaulted fields too. */
+function isOptionalField(t: z.ZodTypeAny, io: SchemaIO): boolean {
+  const inner = unwrapEffects(t);
+  return inner instanceof z.ZodOptional || (io === "input" && inner instanceof z.ZodDefault);
+}
+
+function stringSchema(t: z.ZodString): JsonSchema {
+  const s: JsonSchema = { type: "string" };
+  for (const check of t._def.checks) {
+    if (check.kind === "min") s.minLength = check.value;
+    else if (check.kind === "max") s.maxLength = check.value;
+    else if (check.kind === "length") s.minLength = s.maxLength = check.value;
+    else if (check.kind === "regex") s.pattern = check.regex.source;
+    else if (check.kind === "url") s.format = "uri";
+    else if (check.kind === "email") s.format = "email";
+    else if (check.kind === "uuid") s.format = "uuid";
+    else if (check.kind === "datetime") s.format = "date-time";
+  }
+  return s;
+}
+
+function numberSchema(t: z.ZodNumber): JsonSchema {
+  const s: JsonSchema = { type: "number" };
+  for (const check of t._def.checks) {
+    if (check.kind === "int") s.type = "integer";
+    else if (check.kind === "min") s[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    else if (check.kind === "max") s[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+  }
+  return s;
+}
+
+export function toJsonSchema(t: z.ZodTypeAny, io: SchemaIO = "output"): JsonSchema {
+  const convert = (inner: z.ZodTypeAny) => toJsonSchema(inner, io);
+  const description = t.description ? { description: t.description } : {};
+  if (t instanceof z.ZodEffects) return { ...convert(t.innerType()), ...description };
+  if (t instanceof z.ZodOptional) return { ...convert(t.unwrap()), ...description };
+  if (t instanceof z.ZodDefault) return { ...convert(t.removeDefault()), default: t._def.defaultValue(), ...description };
+  if (t instanceof z.ZodNullable) return { anyOf: [convert(t.unwrap()), { type: "null" }], ...description };
+  if (t instanceof z.ZodString) return { ...stringSchema(t), ...description };
+  if (t instanceof z.ZodNumber) return { ...numberSchema(t), ...description };
+  if (t instanceof z.ZodBoolean) return { type: "boolean", ...description };
+  if (t instanceof z.ZodLiteral) return { const: t.value, ...description };
+  if (t instanceof z.ZodEnum) return { type: "string", enum: [...t.options], ...description };
+  if (t instanceof z.ZodUnion) return { anyOf: (t.options as z.ZodTypeAny[]).map(convert), ...description };
+  if (t instanceof z.ZodRecord) return { type: "object", additionalProperties: convert(t.valueSchema), ...description };
+  if (t instanceof z.ZodArray) {
+    const s: JsonSchema = { type: "array", items: convert(t.element), ...description };
+    if (t._def.minLength) s.minItems = t._def.minLength.value;
+    if (t._def.maxLength) s.maxItems = t._def.maxLength.value;
+    return s;
+  }
+  if (t instanceof z.ZodObject) {
+    const shape = t.shape as z.ZodRawShape;
+    const required = Object.keys(shape).filter((k) => !isOptionalField(shape[k], io));
+    const s: JsonSchema = {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([k, v]) => [k, convert(v)])),
+      ...description,
+    };
+    if (required.length) s.required = required;
+    if (t._def.unknownKeys === "strict") s.additionalProperties = false;
+    return s;
+  }
+  return { ...description };
+}
@@ -0,0 +1,193 @@
+// -----------------------------
+// OpenAPI spec
+// -----------------------------
+// The published contract for the review and webhook endpoints. Schemas come
+// from the zod types the routes validate and respond with, so regenerating
+// (`npm run openapi`, or GET /api/openapi) is enough to keep it current.
+
+import { z } from "zod";
+import { ACCEPTED_EXTENSIONS, LANGUAGES, ReviewEditsSchema } from "@/lib/review/schema";
+import { PROVIDER_NAMES } from "@/lib/llm";
+import {
+  WebhookDeliverySchema, WebhookEventSchema, WebhookInputSchema, WebhookSchema,
+  EVENT_HEADER, ID_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER,
+} from "@/lib/webhooks";
+import { toJsonSchema, type JsonSchema } from "./jsonschema";
+import { API_VERSION, API_VERSION_HEADER, API_VERSIONS, ErrorResponseSchema, ReviewResponseSchema } from "./version";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: JsonSchema, description: string) => ({ description, content: { "application/json": { schema } } });
+
+const error = (description: string) => json(ref("Error"), description);
+
+const idParam = (what: string) => ({ name: "id", in: "path", required: true, description: `The ${what} id.`, schema: { type: "string" } });
+
+const versionParam = {
+  name: API_VERSION_HEADER,
+  in: "header",
+  required: false,
+  description: `Response format version; defaults to the current one. Also accepted as \`?apiVersion=\`.`,
+  schema: { type: "string", enum: [...API_VERSIONS] },
+};
+
+const versionHeader = { [API_VERSION_HEADER]: { description: "Version of the response format.", schema: { type: "string" } } };
+
+const reviewResponse = (description: string) => ({ ...json(ref("ReviewResponse"), description), headers: versionHeader });
+
+export function buildOpenApiSpec(): JsonSchema {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Contract Review API",
+      version: API_VERSION,
+      description:
+        "Reviews creator contracts and reports the key terms, risks and counter-proposals. " +
+        "The response format is versioned: adding optional fields keeps the version, anything else bumps it.",
+    },
+    security: [{ bearer: [] }, { apiKey: [] }],
+    paths: {
+      "/api/review": {
+        post: {
+          summary: "Review a contract",
+          description:
+            "Reviews an uploaded file or pasted text. With `stream=1` (or `Accept: text/event-stream`) progress is sent as " +
+            "Server-Sent Events, ending in a `result` event whose `result` is the ReviewResponse, or an `error` event.",
+          parameters: [versionParam],
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    file: { type: "string", format: "binary", description: `One of ${ACCEPTED_EXTENSIONS.join(", ")} (max 15MB).` },
+                    text: { type: "string", description: "Contract text, instead of a file." },
+                    provider: { type: "string", enum: [...PROVIDER_NAMES] },
+                    playbook: { type: "string", description: "Playbook id to check the contract against." },
+                    language: { type: "string", enum: [...LANGUAGES], description: "Output language; a region (\"pt-BR\") is ignored." },
+                    force: { type: "string", enum: ["1", "true"], description: "Skip the cache of earlier reviews." },
+                    stream: { type: "string", enum: ["1"], description: "Stream progress as Server-Sent Events." },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            200: reviewResponse("The review."),
+            400: error("Missing input, or an unknown provider, playbook, language or API version."),
+            401: error("Missing or invalid credentials."),
+            413: error("Input too large."),
+            415: error("Unsupported file type."),
+            422: error("No text could be extracted from the file."),
+            429: error("Rate limited; see Retry-After."),
+          },
+        },
+      },
+      "/api/reviews/{id}": {
+        get: {
+          summary: "Get a saved review",
+          parameters: [idParam("review"), versionParam],
+          responses: { 200: reviewResponse("The saved review, with `cached: true`."), 404: error("No such review.") },
+        },
+      },
+      "/api/reviews/{id}/edits": {
+        put: {
+          summary: "Save a reviewer's edits to a review",
+          description: "Replaces the review's edits; the AI output is kept as it was. Risk and counter edits refer to the AI's items by index, and `language` says whether they were made on the translation. Approving needs a `reviewer`; an approved review only takes edits that set its status back.",
+          parameters: [idParam("review")],
+          requestBody: { required: true, content: { "application/json": { schema: ref("ReviewEditsInput") } } },
+          responses: {
+            200: json(ref("ReviewEdits"), "The saved edits."),
+            400: error("Invalid edits."),
+            404: error("No such review."),
+            409: error("The review is approved."),
+          },
+        },
+      },
+      "/api/webhooks": {
+        get: {
+          summary: "List webhooks",
+          responses: { 200: json({ type: "object", properties: { webhooks: { type: "array", items: ref("Webhook") } }, required: ["webhooks"] }, "Webhooks, oldest first.") },
+        },
+        post: {
+          summary: "Create a webhook",
+          description: "The signing secret is returned once, in this response; it's generated unless one is given.",
+          requestBody: { required: true, content: { "application/json": { schema: ref("WebhookInput") } } },
+          responses: { 201: json(ref("CreatedWebhook"), "The new webhook, with its secret."), 400: error("Invalid webhook settings.") },
+        },
+      },
+      "/api/webhooks/{id}": {
+        get: { summary: "Get a webhook", parameters: [idParam("webhook")], responses: { 200: json(ref("Webhook"), "The webhook."), 404: error("No such webhook.") } },
+        delete: {
+          summary: "Delete a webhook",
+          parameters: [idParam("webhook")],
+          responses: { 200: json({ type: "object", properties: { deleted: { type: "string" } }, required: ["deleted"] }, "Deleted."), 404: error("No such webhook.") },
+        },
+      },
+      "/api/webhooks/{id}/deliveries": {
+        get: {
+          summary: "Delivery log",
+          parameters: [idParam("webhook")],
+          responses: {
+            200: json({ type: "object", properties: { deliveries: { type: "array", items: ref("WebhookDelivery") } }, required: ["deliveries"] }, "The last 100 deliveries, newest first."),
+            404: error("No such webhook."),
+          },
+        },
+      },
+      "/api/webhooks/{id}/test": {
+        post: {
+          summary: "Send a test event",
+          description: "Sends a signed `ping` event once, without retries, and says whether the receiver accepted it.",
+          parameters: [idParam("webhook")],
+          responses: {
+            200: json(
+              { type: "object", properties: { deliveryId: { type: "string" }, delivered: { type: "boolean" } }, required: ["deliveryId", "delivered"] },
+              "Whether the ping got a 2xx answer."
+            ),
+            404: error("No such webhook."),
+          },
+        },
+      },
+      "/api/openapi": {
+        get: { summary: "This document", responses: { 200: json({ type: "object" }, "The OpenAPI document.") } },
+      },
+    },
+    webhooks: {
+      "review.completed": {
+        post: {
+          summary: "A review finished",
+          description:
+            `Sent to every active webhook subscribed to the event when a review is saved. ${SIGNATURE_HEADER} is ` +
+            `\`v1=\` and the hex HMAC-SHA256, keyed with the webhook secret, of \`<${TIMESTAMP_HEADER}>.<raw body>\`. ` +
+            "Answer with any 2xx; timeouts, 408, 429 and 5xx are retried with backoff.",
+          parameters: [
+            { name: ID_HEADER, in: "header", required: true, description: "Event id; the same on retries.", schema: { type: "string" } },
+            { name: EVENT_HEADER, in: "header", required: true, schema: { type: "string" } },
+            { name: TIMESTAMP_HEADER, in: "header", required: true, description: "Unix seconds when the attempt was sent.", schema: { type: "string" } },
+            { name: SIGNATURE_HEADER, in: "header", required: true, schema: { type: "string" } },
+          ],
+          requestBody: { required: true, content: { "application/json": { schema: ref("WebhookEvent") } } },
+          responses: { "2XX": { description: "Received." } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearer: { type: "http", scheme: "bearer", description: "An API key from API_KEYS." },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        ReviewResponse: toJsonSchema(ReviewResponseSchema),
+        Error: toJsonSchema(ErrorResponseSchema),
+        ReviewEditsInput: toJsonSchema(ReviewEditsSchema, "input"),
+        ReviewEdits: toJsonSchema(ReviewEditsSchema),
+        WebhookInput: toJsonSchema(WebhookInputSchema, "input"),
+        Webhook: toJsonSchema(WebhookSchema),
+        CreatedWebhook: toJsonSchema(WebhookSchema.extend({ secret: z.string() })),
+        WebhookDelivery: toJsonSchema(WebhookDeliverySchema),
+        WebhookEvent: toJsonSchema(WebhookEventSchema),
+      },
+    },
+  };
+}
@@ -0,0 +1,35 @@
+// -----------------------------
+// Versioned review format
+// -----------------------------
+// `/api/review` responses (and webhook payloads) carry `apiVersion`. Adding
+// optional fields doesn't change the version; removing, renaming or changing
+// the meaning of a field does, and the previous version keeps being served to
+// callers that pin it with the X-API-Version header.
+
+import { z } from "zod";
+import { ReviewResultSchema, type ReviewResult } from "@/lib/review/schema";
+
+export const API_VERSION = "1";
+export const API_VERSIONS = [API_VERSION] as const;
+export const API_VERSION_HEADER = "X-API-Version";
+
+export const ReviewResponseSchema = ReviewResultSchema.extend({
+  apiVersion: z.literal(API_VERSION),
+});
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+});
+
+export type ReviewResponse = z.output<typeof ReviewResponseSchema>;
+
+/** The version the caller pinned, the current one if none, or null for a version we don't serve. */
+export function requestedApiVersion(req: Request): (typeof API_VERSIONS)[number] | null {
+  const asked = req.headers.get(API_VERSION_HEADER)?.trim() || new URL(req.url).searchParams.get("apiVersion");
+  if (!asked) return API_VERSION;
+  return (API_VERSIONS as readonly string[]).includes(asked) ? (asked as (typeof API_VERSIONS)[number]) : null;
+}
+
+export function versionedReview(result: ReviewResult): ReviewResponse {
+  return { apiVersion: API_VERSION, ...result };
+}
@@ -0,0 +1,69 @@
+// -----------------------------
+// Grounded answers to contract questions
+// -----------------------------
+// The model only sees the retrieved clauses (masked, see lib/redact) and must
+// quote them. An answer counts as addressed only if at least one quote is
+// really in the contract; otherwise the user is told it isn't addressed.
+
+import type { LLMProvider } from "@/lib/llm";
+import { redact } from "@/lib/redact";
+import { locateQuote } from "@/lib/review/citations";
+import { describeSchema, ModelAnswerSchema, NOT_ADDRESSED, type AnswerSource, type ContractAnswer } from "@/lib/review/schema";
+import { retrievePassages } from "./retrieve";
+
+export const ANSWER_SYSTEM_PROMPT = `You answer a creator's questions about one brand-deal contract. Return STRICT JSON only:
+${describeSchema(ModelAnswerSchema)}
+Answer ONLY from the contract text provided. "quotes" are the passages that support the answer, each copied VERBATIM from the contract text.
+If the contract text doesn't answer the question, set "addressed" to false, "quotes" to [] and "answer" to ${JSON.stringify(NOT_ADDRESSED)}.
+Never guess, and never fill gaps with what such contracts usually say. Keep answers short and plain.`;
+
+export type AskTurn = { question: string; answer: string };
+
+// Earlier turns sent along for follow-ups ("and on TikTok?").
+const MAX_HISTORY = 6;
+
+function answerPrompt(question: string, excerpts: string, history: AskTurn[]): string {
+  const earlier = history.length
+    ? `Earlier in this conversation:\n${history.map((t) => `Q: ${t.question}\nA: ${t.answer}`).join("\n")}\n\n`
+    : "";
+  return `${earlier}Question: ${question}\n\nContract text:\n\n${excerpts}`;
+}
+
+export type AskOptions = { history?: AskTurn[]; signal?: AbortSignal };
+
+/** Throws when the model's answer can't be parsed; "not addressed" is a normal answer. */
+export async function answerQuestion(provider: LLMProvider, text: string, question: string, opts: AskOptions = {}): Promise<ContractAnswer> {
+  const redaction = redact(text);
+  const masked = redaction.mask(question);
+  const excerpts = retrievePassages(redaction.text, masked).map((p) => p.text.trim()).join("\n[…]\n");
+  const history = (opts.history ?? []).slice(-MAX_HISTORY).map((t) => ({ question: redaction.mask(t.question), answer: redaction.mask(t.answer) }));
+
+  const content = await provider.completeJSON({
+    task: "answer",
+    system: ANSWER_SYSTEM_PROMPT,
+    user: answerPrompt(masked, excerpts, history),
+    temperature: 0,
+    signal: opts.signal,
+  });
+  let data: unknown;
+  try { data = JSON.parse(content); } catch { data = null; }
+  const parsed = ModelAnswerSchema.safeParse(data);
+  if (!parsed.success) throw new Error("The model's answer didn't match the expected format");
+
+  const notAddressed: ContractAnswer = { question, answer: NOT_ADDRESSED, addressed: false, sources: [] };
+  if (!parsed.data.addressed) return notAddressed;
+
+  const sources: AnswerSource[] = [];
+  for (const quote of parsed.data.quotes) {
+    const span = locateQuote(redaction.text, quote);
+    if (!span) continue;
+    const start = redaction.toOriginal(span.start, "start");
+    const end = redaction.toOriginal(span.end, "end");
+    if (sources.some((s) => s.start === start && s.end === end)) continue;
+    sources.push({ quote: text.slice(start, end), start, end });
+  }
+  // An answer without a verifiable quote is a guess.
+  if (!sources.length) return notAddressed;
+
+  return { question, answer: redaction.restore(parsed.data.answer), addressed: true, sources: sources.sort((a, b) => a.start - b.start) };
+}
@@ -0,0 +1,2 @@
+export { answerQuestion, ANSWER_SYSTEM_PROMPT, type AskOptions, type AskTurn } from "./answer";
+export { retrievePassages, ASK_CONTEXT_CHARS } from "./retrieve";
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { retrievePassages } from "./retrieve";
+
+const filler = (n: number) =>
+  Array.from({ length: n }, (_, i) => `${i + 10}. General\nThe parties will cooperate in good faith on scheduling and approvals under this section.`).join("\n\n");
+
+describe("retrievePassages", () => {
+  it("returns short contracts whole", () => {
+    const text = "1. Term\nThis agreement lasts six months.";
+    expect(retrievePassages(text, "How long does it last?")).toEqual([{ text, start: 0, end: text.length }]);
+  });
+
+  it("finds the clause a question is about in a long contract", () => {
+    const clause = "9. Termination\nEither party may terminate this Agreement on thirty days' written notice.";
+    const text = `${filler(60)}\n\n${clause}\n\n${filler(60)}`;
+    const passages = retrievePassages(text, "Can the brand cancel the deal early?", 1500);
+    expect(passages.some((p) => p.text.includes("terminate this Agreement"))).toBe(true);
+    for (const p of passages) expect(text.slice(p.start, p.end)).toBe(p.text);
+    expect(passages.reduce((n, p) => n + p.text.length, 0)).toBeLessThanOrEqual(1500);
+  });
+});
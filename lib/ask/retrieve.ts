@@ -0,0 +1,100 @@
+// -----------------------------
+// Clause retrieval for questions
+// -----------------------------
+// A long contract doesn't fit in one prompt next to a question, so questions
+// are answered from the clauses that share the most terms with them (BM25 over
+// clause-sized chunks). No embeddings, so no extra provider calls.
+
+import { splitIntoChunks, splitIntoSections, type Chunk } from "@/lib/review/chunking";
+
+// Contracts up to this size are sent whole.
+export const ASK_CONTEXT_CHARS = 12_000;
+const CLAUSE_CHARS = 1500;
+
+const STOPWORDS = new Set(
+  ("a an and are as at be but by can could do does did for from had has have how i if in into is it its me my " +
+    "no not of on or our so that the their them then there these they this to too us was we what when where " +
+    "which who why will with would you your contract agreement").split(" ")
+);
+
+// Creators ask in their words; contracts answer in legal ones.
+const SYNONYMS: Record<string, string[]> = {
+  late: ["delay", "deadline", "overdue", "timely", "failure"],
+  pay: ["payment", "fee", "compensation", "invoice"],
+  paid: ["payment", "fee", "compensation", "invoice"],
+  money: ["payment", "fee", "compensation"],
+  cancel: ["terminate", "termination"],
+  quit: ["terminate", "termination"],
+  own: ["ownership", "rights", "license", "intellectual"],
+  post: ["posting", "publish", "deliverable", "content"],
+  tiktok: ["platform", "channel", "social"],
+  instagram: ["platform", "channel", "social"],
+  youtube: ["platform", "channel", "social"],
+  competitor: ["competing", "exclusivity", "exclusive"],
+  competitors: ["competing", "exclusivity", "exclusive"],
+  edit: ["approval", "revision", "modify"],
+  sue: ["indemnify", "indemnification", "liability", "dispute"],
+};
+
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word.replace(/(?:ing|ed|es|s)$/, "");
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter((w) => !STOPWORDS.has(w)).map(stem);
+}
+
+function questionTerms(question: string): string[] {
+  const words = (question.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter((w) => !STOPWORDS.has(w));
+  return [...new Set(words.flatMap((w) => [w, ...(SYNONYMS[w] ?? [])]).map(stem))];
+}
+
+// Sections, with any section longer than a clause split further.
+function clauses(text: string): Chunk[] {
+  return splitIntoSections(text).flatMap((s) =>
+    s.text.length <= CLAUSE_CHARS
+      ? [s]
+      : splitIntoChunks(s.text, CLAUSE_CHARS).map((c) => ({ text: c.text, start: s.start + c.start, end: s.start + c.end }))
+  );
+}
+
+/**
+ * The passages to answer `question` from, in document order and within `budget`
+ * characters. Short texts come back whole; nothing relevant means the opening.
+ */
+export function retrievePassages(text: string, question: string, budget = ASK_CONTEXT_CHARS): Chunk[] {
+  if (text.length <= budget) return [{ text, start: 0, end: text.length }];
+
+  const chunks = clauses(text);
+  const docs = chunks.map((c) => terms(c.text));
+  const avgLen = docs.reduce((n, d) => n + d.length, 0) / (docs.length || 1);
+  const k1 = 1.2;
+  const b = 0.75;
+
+  const scored = chunks.map((chunk, i) => {
+    const counts = new Map<string, number>();
+    for (const t of docs[i]) counts.set(t, (counts.get(t) ?? 0) + 1);
+    let score = 0;
+    for (const q of questionTerms(question)) {
+      const tf = counts.get(q);
+      if (!tf) continue;
+      const df = docs.filter((d) => d.includes(q)).length;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * docs[i].length) / (avgLen || 1))));
+    }
+    return { chunk, score };
+  });
+
+  const ranked = scored.filter((s) => s.score > 0).sort((x, y) => y.score - x.score);
+  if (!ranked.length) return [{ text: text.slice(0, budget), start: 0, end: Math.min(budget, text.length) }];
+
+  const picked: Chunk[] = [];
+  let used = 0;
+  for (const { chunk } of ranked) {
+    if (used + chunk.text.length > budget) continue;
+    picked.push(chunk);
+    used += chunk.text.length;
+  }
+  return picked.sort((x, y) => x.start - y.start);
+}
@@ -0,0 +1,61 @@
+import { createHash, createHmac } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clientIp, createSession, identify } from "./index";
+
+const withCookie = (token: string) => new Request("http://localhost/api/reviews", { headers: { cookie: `cr_session=${token}` } });
+
+// A session signed the way the server would with no secret configured at all.
+function forgedSession(name: string): string {
+  const key = createHash("sha256").update("session|").digest("hex");
+  const payload = Buffer.from(JSON.stringify({ name, exp: Date.now() + 60_000 })).toString("base64url");
+  return `${payload}.${createHmac("sha256", key).update(payload).digest("base64url")}`;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("sessions", () => {
+  it("rejects every session when neither SESSION_SECRET nor API_KEYS is set", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("API_KEYS", "");
+    vi.stubEnv("SESSION_SECRET", "");
+    expect(identify(withCookie(forgedSession("attacker")))).toBeNull();
+    expect(() => createSession("anyone")).toThrow();
+  });
+
+  it("accepts a session signed with the configured keys", () => {
+    vi.stubEnv("API_KEYS", "team:s3cret");
+    vi.stubEnv("SESSION_SECRET", "");
+    expect(identify(withCookie(createSession("team").token))).toMatchObject({ id: "session:team", kind: "session" });
+    expect(identify(withCookie(forgedSession("team")))).toBeNull();
+  });
+
+  it("ends a key's sessions when the key is removed", () => {
+    vi.stubEnv("API_KEYS", "team:s3cret,ops:0ther");
+    vi.stubEnv("SESSION_SECRET", "fixed");
+    const token = createSession("team").token;
+    expect(identify(withCookie(token))).toMatchObject({ name: "team" });
+    vi.stubEnv("API_KEYS", "ops:0ther");
+    expect(identify(withCookie(token))).toBeNull();
+  });
+
+  it("treats a malformed cookie as no session", () => {
+    vi.stubEnv("API_KEYS", "team:s3cret");
+    expect(identify(withCookie("%E0%A4%A"))).toBeNull();
+  });
+});
+
+describe("clientIp", () => {
+  const req = new Request("http://localhost/api/session", { headers: { "x-forwarded-for": "6.6.6.6, 203.0.113.7" } });
+
+  it("ignores forwarding headers unless a proxy is trusted", () => {
+    vi.stubEnv("TRUST_PROXY", "");
+    expect(clientIp(req)).toBe("unknown");
+  });
+
+  it("takes the address the trusted proxy appended", () => {
+    vi.stubEnv("TRUST_PROXY", "1");
+    expect(clientIp(req)).toBe("203.0.113.7");
+  });
+});
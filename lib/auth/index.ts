@@ -0,0 +1,100 @@
+// -----------------------------
+// Request authorization
+// -----------------------------
+// Every API route calls authorize() first. A request is let through when its
+// Origin is allowed, it carries a valid API key (Authorization: Bearer, or
+// X-API-Key) or session cookie, and its caller still has rate-limit tokens.
+// With no API_KEYS configured, development runs open and production refuses.
+
+import { NextResponse } from "next/server";
+import { corsJson, isOriginAllowed } from "@/lib/http";
+import { hasApiKeys, isApiKeyName, matchApiKey } from "./keys";
+import { takeTokens } from "./limits";
+import { readCookie, readSession, SESSION_COOKIE } from "./session";
+
+export { hasApiKeys, matchApiKey } from "./keys";
+export { takeTokens, waitForTokens, type RateLimit } from "./limits";
+export { clearSessionCookie, createSession, sessionCookie } from "./session";
+
+export type Principal = {
+  // "key:<name>", "session:<name>" or "ip:<address>"; used for rate limits and the usage ledger.
+  id: string;
+  kind: "key" | "session" | "anonymous";
+  name: string;
+};
+
+export const trustProxy = () => process.env.TRUST_PROXY === "1" || process.env.TRUST_PROXY === "true";
+
+/**
+ * Caller's address as reported by the proxy in front of us. Clients can send forwarding headers
+ * themselves, so they're only read with TRUST_PROXY set; otherwise every caller is "unknown".
+ */
+export function clientIp(req: Request): string {
+  if (!trustProxy()) return "unknown";
+  // The proxy appends the address it saw; earlier entries came from the client.
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").map((s) => s.trim()).filter(Boolean);
+  return forwarded?.at(-1) || req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+function presentedKey(req: Request): string | null {
+  const auth = req.headers.get("authorization");
+  if (auth?.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return req.headers.get("x-api-key")?.trim() || null;
+}
+
+export function authRequired(): boolean {
+  return hasApiKeys() || process.env.NODE_ENV === "production";
+}
+
+/** Identifies the caller without enforcing anything; null when unauthenticated. */
+export function identify(req: Request): Principal | null {
+  const key = presentedKey(req);
+  if (key) {
+    const name = matchApiKey(key);
+    return name ? { id: `key:${name}`, kind: "key", name } : null;
+  }
+  // A session only lasts as long as the key it was started with.
+  const session = readSession(readCookie(req, SESSION_COOKIE));
+  if (session && isApiKeyName(session)) return { id: `session:${session}`, kind: "session", name: session };
+  if (!authRequired()) {
+    const ip = clientIp(req);
+    return { id: `ip:${ip}`, kind: "anonymous", name: ip };
+  }
+  return null;
+}
+
+/**
+ * The caller, or the error response to send instead. `cost` is the number of
+ * rate-limit tokens the request takes; 0 skips rate limiting (cheap reads).
+ */
+export function authorize(req: Request, { cost = 0 }: { cost?: number } = {}): Principal | NextResponse {
+  if (!isOriginAllowed(req)) return corsJson({ error: "Origin not allowed" }, 403, req);
+
+  const principal = identify(req);
+  if (!principal) {
+    if (!hasApiKeys()) {
+      console.error("API_KEYS is not set; refusing API requests in production");
+      return corsJson({ error: "Authentication isn't configured on this server." }, 503, req);
+    }
+    const error = presentedKey(req) ? "Invalid API key" : "Authentication required";
+    return corsJson({ error }, 401, req, { "WWW-Authenticate": 'Bearer realm="api"' });
+  }
+
+  return chargeTokens(req, principal, cost) ?? principal;
+}
+
+/**
+ * Takes `cost` tokens from the caller's bucket, or returns the 429 to send
+ * instead. For routes that only know their cost once they've read the body.
+ */
+export function chargeTokens(req: Request, principal: Principal, cost: number): NextResponse | null {
+  if (cost <= 0) return null;
+  const limit = takeTokens(principal.id, cost);
+  if (limit.ok) return null;
+  return corsJson(
+    { error: `Rate limit exceeded. Try again in ${limit.retryAfter} second${limit.retryAfter === 1 ? "" : "s"}.` },
+    429,
+    req,
+    { "Retry-After": String(limit.retryAfter), "X-RateLimit-Limit": String(limit.limit), "X-RateLimit-Remaining": "0" }
+  );
+}
@@ -0,0 +1,49 @@
+// -----------------------------
+// API keys
+// -----------------------------
+// API_KEYS is a comma-separated list of `name:secret` pairs. The name is what
+// shows up in rate limits and the usage ledger; the secret never leaves here.
+
+import { createHash, timingSafeEqual } from "crypto";
+
+type ApiKey = { name: string; digest: Buffer };
+
+const digest = (s: string) => createHash("sha256").update(s).digest();
+
+let cached: { source: string; keys: ApiKey[] } | null = null;
+
+function apiKeys(): ApiKey[] {
+  const source = process.env.API_KEYS ?? "";
+  if (cached?.source === source) return cached.keys;
+  const keys = source
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, i) => {
+      const colon = entry.indexOf(":");
+      // A bare secret gets a positional name.
+      return colon === -1
+        ? { name: `key-${i + 1}`, digest: digest(entry) }
+        : { name: entry.slice(0, colon).trim(), digest: digest(entry.slice(colon + 1).trim()) };
+    });
+  cached = { source, keys };
+  return keys;
+}
+
+export function hasApiKeys(): boolean {
+  return apiKeys().length > 0;
+}
+
+/** Name of the key matching `secret`, or null. Compares digests in constant time. */
+export function matchApiKey(secret: string): string | null {
+  const candidate = digest(secret);
+  let match: string | null = null;
+  // Check every key so timing doesn't reveal which one matched.
+  for (const key of apiKeys()) if (timingSafeEqual(candidate, key.digest) && !match) match = key.name;
+  return match;
+}
+
+/** Whether a key with this name is still configured; sessions outlive the key that started them otherwise. */
+export function isApiKeyName(name: string): boolean {
+  return apiKeys().some((key) => key.name === name);
+}
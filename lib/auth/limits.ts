@@ -0,0 +1,60 @@
+// -----------------------------
+// Token-bucket rate limits
+// -----------------------------
+// Each caller gets a bucket of RATE_LIMIT_BURST tokens that refills at
+// RATE_LIMIT_PER_MINUTE. Buckets live in memory, so limits are per server
+// process; that matches the single-server file store.
+
+export type RateLimit = {
+  ok: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until enough tokens are back; 0 when ok.
+  retryAfter: number;
+};
+
+type Bucket = { tokens: number; updated: number };
+
+const buckets = new Map<string, Bucket>();
+const MAX_BUCKETS = 10_000;
+
+function limits() {
+  const perMinute = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 10);
+  const burst = Number(process.env.RATE_LIMIT_BURST ?? perMinute);
+  return { perMinute: Number.isFinite(perMinute) ? perMinute : 10, burst: Number.isFinite(burst) && burst > 0 ? burst : perMinute };
+}
+
+/** Takes `cost` tokens from `id`'s bucket. RATE_LIMIT_PER_MINUTE=0 turns limiting off. */
+export function takeTokens(id: string, cost = 1, now = Date.now()): RateLimit {
+  const { perMinute, burst } = limits();
+  if (perMinute <= 0) return { ok: true, limit: Infinity, remaining: Infinity, retryAfter: 0 };
+
+  const perMs = perMinute / 60_000;
+  const bucket = buckets.get(id) ?? { tokens: burst, updated: now };
+  bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updated) * perMs);
+  bucket.updated = now;
+
+  if (!buckets.has(id)) {
+    // Full buckets are indistinguishable from new ones, so they're the ones to drop.
+    if (buckets.size >= MAX_BUCKETS) {
+      for (const [key, b] of buckets) if (b.tokens + (now - b.updated) * perMs >= burst) buckets.delete(key);
+    }
+    buckets.set(id, bucket);
+  }
+
+  if (bucket.tokens < cost) {
+    return { ok: false, limit: burst, remaining: Math.floor(bucket.tokens), retryAfter: Math.ceil((cost - bucket.tokens) / perMs / 1000) };
+  }
+  bucket.tokens -= cost;
+  return { ok: true, limit: burst, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+}
+
+/** Waits until `id` has `cost` tokens and takes them; for background work that should queue rather than fail. */
+export async function waitForTokens(id: string, cost = 1, signal?: AbortSignal): Promise<void> {
+  for (;;) {
+    signal?.throwIfAborted();
+    const limit = takeTokens(id, cost);
+    if (limit.ok) return;
+    await new Promise((resolve) => setTimeout(resolve, limit.retryAfter * 1000));
+  }
+}
@@ -0,0 +1,74 @@
+// -----------------------------
+// Browser sessions
+// -----------------------------
+// The Review page can't hold an API key, so signing in with one sets an
+// HttpOnly cookie instead: `<payload>.<hmac>`, where the payload names the key
+// and when the session expires. Rotating SESSION_SECRET signs everyone out.
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { hasApiKeys } from "./keys";
+
+export const SESSION_COOKIE = "cr_session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Falls back to a secret derived from the configured keys, so changing a key also ends its sessions.
+// With neither, there's nothing secret to sign with and no session is valid.
+function secret(): string | null {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (!hasApiKeys()) return null;
+  return createHash("sha256").update(`session|${process.env.API_KEYS}`).digest("hex");
+}
+
+function sign(payload: string): string | null {
+  const key = secret();
+  return key && createHmac("sha256", key).update(payload).digest("base64url");
+}
+
+export function createSession(name: string, now = Date.now()): { token: string; expires: Date } {
+  const expires = new Date(now + SESSION_TTL_MS);
+  const payload = Buffer.from(JSON.stringify({ name, exp: expires.getTime() })).toString("base64url");
+  const sig = sign(payload);
+  if (!sig) throw new Error("Sessions need SESSION_SECRET or API_KEYS to be set");
+  return { token: `${payload}.${sig}`, expires };
+}
+
+/** Key name for a valid, unexpired session token; null otherwise. */
+export function readSession(token: string | undefined, now = Date.now()): string | null {
+  if (!token) return null;
+  const [payload, sig] = token.split(".");
+  if (!payload || !sig) return null;
+  const signature = sign(payload);
+  if (!signature) return null;
+  const expected = Buffer.from(signature);
+  const given = Buffer.from(sig);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const { name, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return typeof name === "string" && typeof exp === "number" && exp > now ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The cookie's value; undefined when it's missing or not validly percent-encoded. */
+export function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq === -1 || part.slice(0, eq).trim() !== name) continue;
+    try {
+      return decodeURIComponent(part.slice(eq + 1).trim());
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+export function sessionCookie(token: string, expires: Date): string {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Expires=${expires.toUTCString()}${secure}`;
+}
+
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
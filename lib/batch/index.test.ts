@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { claimBatchSlot } from "./index";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("claimBatchSlot", () => {
+  it("limits each caller to BATCH_MAX_ACTIVE batches at once", () => {
+    vi.stubEnv("BATCH_MAX_ACTIVE", "2");
+    const first = claimBatchSlot("key:team");
+    const second = claimBatchSlot("key:team");
+    expect(first && second).toBeTruthy();
+    expect(claimBatchSlot("key:team")).toBeNull();
+    expect(claimBatchSlot("key:ops")).toBeTruthy();
+
+    first!();
+    first!(); // releasing twice frees one slot, not two
+    expect(claimBatchSlot("key:team")).toBeTruthy();
+    expect(claimBatchSlot("key:team")).toBeNull();
+  });
+});
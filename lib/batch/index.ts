@@ -0,0 +1,133 @@
+// -----------------------------
+// Batch review runner
+// -----------------------------
+// Reviews a job's files with at most BATCH_CONCURRENCY in flight. Failures other
+// than unreadable input are retried with exponential backoff, up to
+// BATCH_RETRIES extra attempts. Jobs run inside this server process; a job
+// interrupted by a restart is closed out the next time it's read.
+
+import { ExtractionError } from "@/lib/extract";
+import type { ReviewResult } from "@/lib/review/schema";
+import { getBatch, saveBatch, type BatchItem, type BatchJob } from "@/lib/store/batches";
+import { highestRisk } from "@/lib/store/reviews";
+
+export type { BatchItem, BatchItemStatus, BatchJob } from "@/lib/store/batches";
+export { createBatch, listBatches } from "@/lib/store/batches";
+
+export const MAX_BATCH_FILES = 50;
+// Files are held in memory until their batch finishes, so their total is capped too.
+export const MAX_BATCH_BYTES = 100 * 1024 * 1024; // 100MB
+
+export type BatchSource = { buffer: Buffer; filename: string };
+
+function envInt(name: string, fallback: number, min: number): number {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n >= min ? n : fallback;
+}
+
+export const batchConcurrency = () => envInt("BATCH_CONCURRENCY", 3, 1);
+const batchRetries = () => envInt("BATCH_RETRIES", 2, 0);
+export const maxActiveBatches = () => envInt("BATCH_MAX_ACTIVE", 2, 1);
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 30_000;
+
+// Jobs with a runner in this process.
+const active = new Set<string>();
+// Batches each principal is uploading or running in this process.
+const slots = new Map<string, number>();
+
+/** Takes one of the principal's BATCH_MAX_ACTIVE batch slots; returns its release, or null when all are in use. */
+export function claimBatchSlot(principal: string): (() => void) | null {
+  const used = slots.get(principal) ?? 0;
+  if (used >= maxActiveBatches()) return null;
+  slots.set(principal, used + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const left = (slots.get(principal) ?? 1) - 1;
+    if (left > 0) slots.set(principal, left);
+    else slots.delete(principal);
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runItem(item: BatchItem, source: BatchSource, review: (source: BatchSource) => Promise<ReviewResult>, persist: () => void) {
+  const retries = batchRetries();
+  for (;;) {
+    item.attempts++;
+    item.status = "running";
+    persist();
+    try {
+      const result = await review(source);
+      Object.assign(item, {
+        status: "done",
+        reviewId: result.reviewId,
+        cached: result.cached,
+        highestRisk: highestRisk(result),
+        error: undefined,
+        finishedAt: new Date().toISOString(),
+      });
+      return persist();
+    } catch (err) {
+      // Unreadable files fail the same way every time.
+      if (err instanceof ExtractionError || item.attempts > retries) {
+        if (!(err instanceof ExtractionError)) console.error(`batch item "${item.filename}" failed`, err);
+        Object.assign(item, {
+          status: "failed",
+          error: err instanceof ExtractionError ? err.message : "The review failed after several attempts.",
+          finishedAt: new Date().toISOString(),
+        });
+        return persist();
+      }
+      item.status = "queued";
+      item.error = `Attempt ${item.attempts} failed; retrying.`;
+      persist();
+      await sleep(Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (item.attempts - 1)));
+    }
+  }
+}
+
+/** Runs the job to completion, saving every item's progress. `sources` line up with `job.items`. */
+export async function runBatch(job: BatchJob, sources: BatchSource[], review: (source: BatchSource) => Promise<ReviewResult>): Promise<BatchJob> {
+  // Saves are chained so a slow write never lands after a newer one.
+  let writes = Promise.resolve();
+  const persist = () => {
+    const snapshot = structuredClone(job);
+    writes = writes.then(() => saveBatch(snapshot)).catch((err) => console.error("saving batch failed", err));
+  };
+
+  active.add(job.id);
+  try {
+    let next = 0;
+    const worker = async () => {
+      while (next < sources.length) {
+        const i = next++;
+        await runItem(job.items[i], sources[i], review, persist);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(batchConcurrency(), sources.length) }, worker));
+    job.status = "done";
+    persist();
+    await writes;
+    return job;
+  } finally {
+    active.delete(job.id);
+  }
+}
+
+/** The job as last saved; one whose runner is gone (server restart) has its unfinished items failed. */
+export async function getBatchJob(id: string): Promise<BatchJob | null> {
+  const job = await getBatch(id);
+  if (!job || job.status === "done" || active.has(job.id)) return job;
+  for (const item of job.items) {
+    if (item.status === "queued" || item.status === "running") {
+      Object.assign(item, { status: "failed", error: "Interrupted by a server restart. Upload this file again." });
+    }
+  }
+  job.status = "done";
+  await saveBatch(job);
+  return job;
+}
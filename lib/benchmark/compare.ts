@@ -0,0 +1,133 @@
+// -----------------------------
+// Rate benchmark
+// -----------------------------
+// A "$500" fee means little on its own. The contract's effective rate per
+// deliverable is placed among comparable past deals: same currency, then as
+// much of platform, usage window and exclusivity as still leaves enough deals
+// to say anything. Below the 25th percentile it becomes a risk, and the
+// counter asks for the comparable deals' median.
+
+import type { Citation, RateBenchmark, ReviewFindings, Risk, StructuredTerms } from "@/lib/review/schema";
+import { formatMoney } from "@/lib/review/terms";
+import type { BenchmarkDeal, DealProfile } from "./schema";
+
+const DEFAULT_MIN_COMPARABLES = 5;
+
+/** Fewest comparable deals a benchmark is based on (BENCHMARK_MIN_DEALS). */
+export function minComparables(): number {
+  const n = Number(process.env.BENCHMARK_MIN_DEALS);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_MIN_COMPARABLES;
+}
+
+/** What a contract pays per deliverable and for what; null when the terms don't give a rate. */
+export function dealProfile(terms: StructuredTerms): DealProfile | null {
+  const rate = terms.payment.perDeliverable;
+  if (!rate) return null;
+  const unique = (values: (string | undefined)[]) => [...new Set(values.filter((v): v is string => !!v))];
+  return {
+    rate,
+    deliverables: terms.deliverables.reduce((n, d) => n + d.count, 0) || 1,
+    platforms: unique(terms.deliverables.map((d) => d.platform)),
+    formats: unique(terms.deliverables.map((d) => d.format)),
+    usageMonths: terms.usage.months,
+    perpetual: terms.usage.perpetual,
+    exclusivity: !!terms.usage.exclusivity,
+  };
+}
+
+type UsageBucket = "perpetual" | "long" | "short";
+
+const USAGE_BASIS: Record<UsageBucket, string> = {
+  perpetual: "perpetual usage",
+  long: "usage over 12 months",
+  short: "usage up to 12 months",
+};
+
+// Unknown windows count as short: most deals that don't say are organic-only.
+function usageBucket(d: Pick<DealProfile, "usageMonths" | "perpetual">): UsageBucket {
+  if (d.perpetual) return "perpetual";
+  return (d.usageMonths ?? 0) > 12 ? "long" : "short";
+}
+
+// Linear interpolation between closest ranks; `sorted` is ascending and non-empty.
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Counter amounts read better rounded up: $647.50 → $650, $1,210 → $1,250.
+function niceAmount(n: number): number {
+  const step = n < 100 ? 5 : n < 1000 ? 10 : 50;
+  return Math.ceil(n / step) * step;
+}
+
+export function compareRate(profile: DealProfile, deals: BenchmarkDeal[], minDeals = minComparables()): RateBenchmark | null {
+  const { currency } = profile.rate;
+  const platforms = new Set(profile.platforms.map((p) => p.toLowerCase()));
+  const bucket = usageBucket(profile);
+  const sharesPlatform = (d: BenchmarkDeal) => d.platforms.some((p) => platforms.has(p.toLowerCase()));
+  const sameRights = (d: BenchmarkDeal) => usageBucket(d) === bucket && d.exclusivity === profile.exclusivity;
+  const rights = [USAGE_BASIS[bucket], profile.exclusivity ? "exclusivity" : "no exclusivity"];
+
+  // Narrowest first; the first tier with enough deals wins.
+  const tiers: [string[], (d: BenchmarkDeal) => boolean][] = platforms.size
+    ? [
+        [[currency, ...profile.platforms, ...rights], (d) => sharesPlatform(d) && sameRights(d)],
+        [[currency, ...profile.platforms], sharesPlatform],
+      ]
+    : [[[currency, ...rights], sameRights]];
+  tiers.push([[currency], () => true]);
+
+  const sameCurrency = deals.filter((d) => d.rate.currency === currency);
+  for (const [basis, keep] of tiers) {
+    const rates = sameCurrency.filter(keep).map((d) => d.rate.amount).sort((a, b) => a - b);
+    if (rates.length < minDeals) continue;
+    const offer = profile.rate.amount;
+    const below = rates.filter((r) => r < offer).length;
+    const equal = rates.filter((r) => r === offer).length;
+    const p25 = quantile(rates, 0.25);
+    const p50 = quantile(rates, 0.5);
+    return {
+      rate: profile.rate,
+      deliverables: profile.deliverables,
+      comparables: rates.length,
+      basis,
+      percentile: Math.round(((below + equal / 2) / rates.length) * 100),
+      p25: round2(p25),
+      p50: round2(p50),
+      p75: round2(quantile(rates, 0.75)),
+      counter: offer < p25 ? { amount: niceAmount(p50), currency } : undefined,
+    };
+  }
+  return null;
+}
+
+/** Adds a below-market benchmark as a risk and counter, cited where the snapshot's rate was. */
+export function applyRateBenchmark(findings: ReviewFindings, benchmark: RateBenchmark | null | undefined): ReviewFindings {
+  if (!benchmark?.counter) return findings;
+  const { rate, counter, deliverables: count, comparables, percentile } = benchmark;
+  const median = { amount: benchmark.p50, currency: rate.currency };
+  const risks: Risk[] = [
+    ...findings.risks,
+    {
+      label: "Rate below market",
+      // Bottom tenth: most of our deals paid far more.
+      level: percentile <= 10 ? "High" : "Med",
+      note: `${formatMoney(rate)} per deliverable is less than ${100 - percentile}% of ${comparables} comparable deals paid ` +
+        `(${benchmark.basis.join(", ")}); the median is ${formatMoney(median)}.`,
+      source: "benchmark",
+    },
+  ];
+  const total = count > 1 ? ` (${formatMoney({ ...counter, amount: counter.amount * count })} for ${count} deliverables)` : "";
+  const counters = [...findings.counters, `Ask for ${formatMoney(counter)} per deliverable${total}, in line with comparable deals.`];
+
+  const citations: Citation[] = [...findings.citations];
+  for (const c of findings.citations.filter((c) => c.target === "snapshot.rate")) {
+    citations.push({ ...c, target: `risks.${risks.length - 1}` }, { ...c, target: `counters.${counters.length - 1}` });
+  }
+  return { ...findings, risks, counters, citations: citations.sort((a, b) => a.start - b.start) };
+}
@@ -0,0 +1,44 @@
+// -----------------------------
+// Benchmark deal pool
+// -----------------------------
+// Every saved review of an English contract with a usable rate counts as a past
+// deal (the newest review of each upload), alongside the deals imported from CSV.
+
+import type { RateBenchmark, StructuredTerms } from "@/lib/review/schema";
+import { listImportedDeals } from "@/lib/store/benchmarks";
+import { listReviewDeals, type ReviewDeal } from "@/lib/store/reviews";
+import { compareRate, dealProfile } from "./compare";
+import type { BenchmarkDeal } from "./schema";
+
+/** Deals from saved reviews; `excludeHash` leaves out the contract being benchmarked. */
+export function reviewDeals(reviews: ReviewDeal[], excludeHash?: string): BenchmarkDeal[] {
+  const latest = new Map<string, ReviewDeal>();
+  for (const r of reviews) {
+    if (r.hash === excludeHash) continue;
+    const seen = latest.get(r.hash);
+    if (!seen || r.createdAt > seen.createdAt) latest.set(r.hash, r);
+  }
+  return [...latest.values()].flatMap((r) => {
+    if (!r.deal) return [];
+    return [{
+      ...r.deal,
+      id: `review-${r.id}`,
+      source: "review" as const,
+      reviewId: r.id,
+      label: r.label,
+      date: r.createdAt.slice(0, 10),
+    }];
+  });
+}
+
+export async function loadBenchmarkDeals(opts: { excludeHash?: string } = {}): Promise<BenchmarkDeal[]> {
+  const [reviews, imported] = await Promise.all([listReviewDeals(), listImportedDeals()]);
+  return [...reviewDeals(reviews, opts.excludeHash), ...imported];
+}
+
+/** The contract's rate against the pool; undefined when it has no usable rate or too few comparable deals. */
+export async function benchmarkRate(terms: StructuredTerms, opts: { excludeHash?: string } = {}): Promise<RateBenchmark | undefined> {
+  const profile = dealProfile(terms);
+  if (!profile) return undefined;
+  return compareRate(profile, await loadBenchmarkDeals(opts)) ?? undefined;
+}
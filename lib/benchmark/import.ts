@@ -0,0 +1,130 @@
+// -----------------------------
+// CSV import of historical deals
+// -----------------------------
+// One deal per row, with a header row. Column names are case-insensitive and
+// ignore spaces and underscores:
+//
+//   rate          fee per deliverable ("$650", "650")          ┐ one of
+//   fee           total fee, split over `deliverables`         ┘ the two
+//   currency      ISO code; default from the amount's symbol, else USD
+//   deliverables  number of posts/videos (default 1)
+//   platform      "Instagram", or several as "Instagram; TikTok"
+//   format        "Reel", "Video", ... (same separators)
+//   usage         months ("12", "12 months") or "perpetual"
+//   exclusivity   yes/no
+//   date          YYYY-MM-DD
+//   brand         label shown in the list
+//
+// Rows that can't be read are reported by line number; the rest are imported.
+
+import { moneyAmounts, parseNumber } from "@/lib/review/terms";
+import { parseCsv } from "@/lib/csv";
+import { BenchmarkDealSchema, type BenchmarkDeal } from "./schema";
+
+export class DealImportError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "DealImportError";
+  }
+}
+
+export type ImportRowError = { line: number; error: string };
+
+export type DealImport = {
+  deals: Omit<BenchmarkDeal, "id" | "source">[];
+  errors: ImportRowError[];
+};
+
+const COLUMNS = {
+  rate: ["rate", "rateperdeliverable", "perdeliverable"],
+  fee: ["fee", "total", "totalfee"],
+  currency: ["currency"],
+  deliverables: ["deliverables", "count", "deliverablecount"],
+  platform: ["platform", "platforms"],
+  format: ["format", "formats"],
+  usage: ["usage", "usagemonths", "usageduration"],
+  exclusivity: ["exclusivity", "exclusive"],
+  date: ["date", "signed", "dealdate"],
+  brand: ["brand", "label", "name"],
+} as const;
+
+type Column = keyof typeof COLUMNS;
+
+const list = (v: string) => v.split(/[;/|]/).map((s) => s.trim()).filter(Boolean);
+
+// "$1,200" and "1200" both read; a bare number takes the row's currency.
+function amount(value: string, currency: string | undefined): BenchmarkDeal["rate"] | string {
+  const found = moneyAmounts(value)[0]?.value;
+  if (found) return currency && found.currency !== currency ? `amount is in ${found.currency} but currency says ${currency}` : found;
+  const n = Number(value.replace(/[,\s]/g, ""));
+  if (!value.trim() || !Number.isFinite(n) || n < 0) return `"${value}" isn't an amount`;
+  return { amount: n, currency: currency ?? "USD" };
+}
+
+function usage(value: string): Pick<BenchmarkDeal, "usageMonths" | "perpetual"> | string {
+  const v = value.trim().toLowerCase();
+  if (!v) return { perpetual: false };
+  if (/perpetu|forever|unlimited/.test(v)) return { perpetual: true };
+  const n = parseNumber(v.replace(/\s*months?$/, ""));
+  return n === null ? `usage "${value}" isn't a number of months` : { usageMonths: n, perpetual: false };
+}
+
+function yesNo(value: string): boolean | string {
+  const v = value.trim().toLowerCase();
+  if (["", "no", "n", "false", "0", "none"].includes(v)) return false;
+  if (["yes", "y", "true", "1"].includes(v)) return true;
+  return `exclusivity "${value}" isn't yes or no`;
+}
+
+function readRow(get: (c: Column) => string): Omit<BenchmarkDeal, "id" | "source"> | string {
+  const currency = get("currency").trim().toUpperCase() || undefined;
+  const count = get("deliverables").trim() ? parseNumber(get("deliverables").trim()) : 1;
+  if (!count || count < 1) return `deliverables "${get("deliverables")}" isn't a positive number`;
+
+  let rate: BenchmarkDeal["rate"] | string;
+  if (get("rate").trim()) rate = amount(get("rate"), currency);
+  else if (get("fee").trim()) {
+    const fee = amount(get("fee"), currency);
+    rate = typeof fee === "string" ? fee : { ...fee, amount: Math.round((fee.amount / count) * 100) / 100 };
+  } else return "no rate or fee";
+  if (typeof rate === "string") return rate;
+
+  const rights = usage(get("usage"));
+  if (typeof rights === "string") return rights;
+  const exclusivity = yesNo(get("exclusivity"));
+  if (typeof exclusivity === "string") return exclusivity;
+
+  const parsed = BenchmarkDealSchema.omit({ id: true, source: true }).safeParse({
+    label: get("brand").trim() || undefined,
+    rate,
+    deliverables: count,
+    platforms: list(get("platform")),
+    formats: list(get("format")),
+    ...rights,
+    exclusivity,
+    date: get("date").trim() || undefined,
+  });
+  if (!parsed.success) return parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+  return parsed.data;
+}
+
+/** Throws DealImportError when the file has no rows or no rate/fee column. */
+export function parseDealsCsv(text: string): DealImport {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !rows.length) throw new DealImportError("The CSV has no deals. Add a header row and one row per deal.");
+  const names = header.map((h) => h.trim().toLowerCase().replace(/[\s_-]+/g, ""));
+  const index = Object.fromEntries(
+    (Object.keys(COLUMNS) as Column[]).map((c) => [c, names.findIndex((n) => (COLUMNS[c] as readonly string[]).includes(n))])
+  ) as Record<Column, number>;
+  if (index.rate === -1 && index.fee === -1) throw new DealImportError('The CSV needs a "rate" (per deliverable) or "fee" (total) column.');
+
+  const deals: DealImport["deals"] = [];
+  const errors: ImportRowError[] = [];
+  rows.forEach((row, i) => {
+    const out = readRow((c) => (index[c] === -1 ? "" : row[index[c]] ?? ""));
+    // +2: 1-based, after the header (assumes no line breaks inside fields, as spreadsheets export).
+    if (typeof out === "string") errors.push({ line: i + 2, error: out });
+    else deals.push(out);
+  });
+  return { deals, errors };
+}
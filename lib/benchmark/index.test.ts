@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { normalizeSnapshot, type ReviewFindings } from "@/lib/review/schema";
+import type { ReviewDeal } from "@/lib/store/reviews";
+import {
+  applyRateBenchmark,
+  compareRate,
+  dealProfile,
+  DealImportError,
+  parseDealsCsv,
+  reviewDeals,
+  type BenchmarkDeal,
+  type DealProfile,
+} from "./index";
+
+let nextId = 0;
+const deal = (amount: number, extra: Partial<BenchmarkDeal> = {}): BenchmarkDeal => ({
+  id: `d${nextId++}`,
+  source: "import",
+  rate: { amount, currency: "USD" },
+  deliverables: 1,
+  platforms: ["Instagram"],
+  formats: ["Reel"],
+  perpetual: false,
+  exclusivity: false,
+  ...extra,
+});
+
+const offer: DealProfile = {
+  rate: { amount: 300, currency: "USD" },
+  deliverables: 2,
+  platforms: ["Instagram"],
+  formats: ["Reel"],
+  usageMonths: 6,
+  perpetual: false,
+  exclusivity: false,
+};
+
+describe("compareRate", () => {
+  const instagram = [400, 500, 600, 700, 800].map((a) => deal(a));
+
+  it("places the rate among comparable deals and counters with the median", () => {
+    const b = compareRate(offer, instagram, 5)!;
+    expect(b).toMatchObject({ comparables: 5, percentile: 0, p25: 500, p50: 600, p75: 700 });
+    expect(b.basis).toEqual(["USD", "Instagram", "usage up to 12 months", "no exclusivity"]);
+    expect(b.counter).toEqual({ amount: 600, currency: "USD" });
+  });
+
+  it("has no counter for rates at or above the 25th percentile", () => {
+    expect(compareRate({ ...offer, rate: { amount: 650, currency: "USD" } }, instagram, 5)).toMatchObject({ percentile: 60, counter: undefined });
+  });
+
+  it("widens the comparison until there are enough deals", () => {
+    const mixed = [...instagram.slice(0, 3), deal(900, { exclusivity: true }), deal(1000, { platforms: ["TikTok"] })];
+    expect(compareRate(offer, mixed, 4)!.basis).toEqual(["USD", "Instagram"]);
+    expect(compareRate(offer, mixed, 5)!.basis).toEqual(["USD"]);
+  });
+
+  it("never mixes currencies", () => {
+    const euros = instagram.map((d) => ({ ...d, rate: { ...d.rate, currency: "EUR" } }));
+    expect(compareRate(offer, euros, 5)).toBeNull();
+  });
+});
+
+describe("applyRateBenchmark", () => {
+  const findings: ReviewFindings = {
+    snapshot: normalizeSnapshot({ rate: "$600" }),
+    risks: [],
+    counters: [],
+    citations: [{ target: "snapshot.rate", quote: "$600 for two Reels", start: 10, end: 28 }],
+  };
+
+  it("adds a cited risk and counter for below-market rates", () => {
+    const b = compareRate(offer, [400, 500, 600, 700, 800].map((a) => deal(a)), 5);
+    const out = applyRateBenchmark(findings, b);
+    expect(out.risks).toEqual([expect.objectContaining({ label: "Rate below market", level: "High", source: "benchmark" })]);
+    expect(out.counters[0]).toBe("Ask for $600 per deliverable ($1,200 for 2 deliverables), in line with comparable deals.");
+    expect(out.citations.map((c) => c.target)).toEqual(["snapshot.rate", "risks.0", "counters.0"]);
+  });
+
+  it("leaves market-rate deals alone", () => {
+    expect(applyRateBenchmark(findings, undefined)).toBe(findings);
+  });
+});
+
+describe("dealProfile", () => {
+  it("adds up deliverables and collects platforms", () => {
+    const profile = dealProfile({
+      payment: { perDeliverable: { amount: 250, currency: "USD" }, schedule: [] },
+      term: {},
+      deliverables: [{ platform: "TikTok", format: "Video", count: 3 }, { platform: "Instagram", format: "Story", count: 2 }],
+      usage: { media: [], perpetual: true, exclusivity: { category: "snacks" } },
+    });
+    expect(profile).toMatchObject({ deliverables: 5, platforms: ["TikTok", "Instagram"], perpetual: true, exclusivity: true });
+  });
+});
+
+describe("reviewDeals", () => {
+  const terms = (amount: number) => ({
+    payment: { perDeliverable: { amount, currency: "USD" }, schedule: [] },
+    term: {},
+    deliverables: [],
+    usage: { media: [], perpetual: false },
+  });
+  const review = (id: string, hash: string, createdAt: string, amount: number): ReviewDeal => ({
+    id,
+    hash,
+    createdAt,
+    label: "Brand / Creator",
+    deal: dealProfile(terms(amount)),
+  });
+
+  it("keeps the newest review of each upload and skips the one being benchmarked", () => {
+    const deals = reviewDeals([
+      review("a", "h1", "2025-01-01T00:00:00Z", 100),
+      review("b", "h1", "2025-02-01T00:00:00Z", 200),
+      review("c", "h2", "2025-03-01T00:00:00Z", 300),
+    ], "h2");
+    expect(deals.map((d) => [d.reviewId, d.rate.amount, d.date])).toEqual([["b", 200, "2025-02-01"]]);
+  });
+});
+
+describe("parseDealsCsv", () => {
+  it("reads rates, fees split over deliverables, and lists", () => {
+    const csv = [
+      "Brand,Fee,Currency,Deliverables,Platform,Usage,Exclusivity,Date",
+      'Acme,"$1,200",,2,Instagram; TikTok,12 months,no,2025-03-01',
+      "Globex,900,EUR,3,YouTube,perpetual,yes,",
+    ].join("\n");
+    const { deals, errors } = parseDealsCsv(csv);
+    expect(errors).toEqual([]);
+    expect(deals[0]).toMatchObject({ label: "Acme", rate: { amount: 600, currency: "USD" }, platforms: ["Instagram", "TikTok"], usageMonths: 12, exclusivity: false });
+    expect(deals[1]).toMatchObject({ rate: { amount: 300, currency: "EUR" }, perpetual: true, exclusivity: true });
+  });
+
+  it("reports bad rows by line and imports the rest", () => {
+    const { deals, errors } = parseDealsCsv("rate,exclusivity\n500,no\nlots,no\n400,maybe\n");
+    expect(deals).toHaveLength(1);
+    expect(errors).toEqual([
+      { line: 3, error: '"lots" isn\'t an amount' },
+      { line: 4, error: 'exclusivity "maybe" isn\'t yes or no' },
+    ]);
+  });
+
+  it("needs a rate or fee column", () => {
+    expect(() => parseDealsCsv("brand,platform\nAcme,Instagram\n")).toThrow(DealImportError);
+  });
+});
@@ -0,0 +1,4 @@
+export { applyRateBenchmark, compareRate, dealProfile, minComparables } from "./compare";
+export { benchmarkRate, loadBenchmarkDeals, reviewDeals } from "./deals";
+export { DealImportError, parseDealsCsv, type DealImport, type ImportRowError } from "./import";
+export { BenchmarkDealSchema, DEAL_SOURCES, type BenchmarkDeal, type DealProfile, type DealSource } from "./schema";
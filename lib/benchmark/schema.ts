@@ -0,0 +1,34 @@
+// -----------------------------
+// Benchmark deal schema
+// -----------------------------
+// Past deals the rate benchmark compares against: saved reviews plus deals
+// imported from CSV. Rates are per deliverable, so deals of any size compare.
+
+import { z } from "zod";
+import { MoneySchema } from "@/lib/review/schema";
+
+export const DEAL_SOURCES = ["review", "import"] as const;
+
+/** One past deal: what it paid per deliverable and what the brand got for it. */
+export const BenchmarkDealSchema = z.object({
+  id: z.string().min(1),
+  source: z.enum(DEAL_SOURCES),
+  // Set for deals taken from a saved review.
+  reviewId: z.string().optional(),
+  // Brand, campaign or file name, for people reading the list.
+  label: z.string().optional(),
+  rate: MoneySchema,
+  deliverables: z.number().int().min(1),
+  platforms: z.array(z.string().min(1)).default([]),
+  formats: z.array(z.string().min(1)).default([]),
+  // Usage window in months; perpetual is flagged separately, unknown is omitted.
+  usageMonths: z.number().min(0).optional(),
+  perpetual: z.boolean().default(false),
+  exclusivity: z.boolean().default(false),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export type DealSource = (typeof DEAL_SOURCES)[number];
+export type BenchmarkDeal = z.output<typeof BenchmarkDealSchema>;
+/** The parts of a deal that decide what it's comparable with. */
+export type DealProfile = Pick<BenchmarkDeal, "rate" | "deliverables" | "platforms" | "formats" | "usageMonths" | "perpetual" | "exclusivity">;
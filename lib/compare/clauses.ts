@@ -0,0 +1,120 @@
+// -----------------------------
+// Clause alignment between two versions
+// -----------------------------
+// Each version is split on headings (falling back to paragraphs for contracts
+// without any), then clauses are paired in document order by a mix of heading
+// and wording similarity. Unpaired clauses are reported as added or removed.
+
+import { splitIntoSections, type Chunk } from "@/lib/review/chunking";
+import { diffWords, MAX_DIFF_CELLS, type DiffOp } from "@/lib/redline/diff";
+
+export type Clause = Chunk & {
+  // First line of the clause, e.g. "7. Usage Rights".
+  heading: string;
+};
+
+export type ClauseStatus = "unchanged" | "modified" | "added" | "removed";
+
+export type ClauseChange = {
+  status: ClauseStatus;
+  heading: string;
+  // [start, end) offsets into each version's text; missing on the side the clause isn't in.
+  before?: { start: number; end: number };
+  after?: { start: number; end: number };
+  similarity: number;
+  // Word diff for modified clauses; omitted when the clause is too long to diff cheaply.
+  diff?: DiffOp[];
+};
+
+// Below this score two clauses are treated as unrelated.
+const MATCH_THRESHOLD = 0.3;
+
+function paragraphs(text: string): Chunk[] {
+  const out: Chunk[] = [];
+  const re = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+  for (const m of text.matchAll(re)) out.push({ text: m[0], start: m.index!, end: m.index! + m[0].length });
+  return out;
+}
+
+export function splitIntoClauses(text: string): Clause[] {
+  let chunks = splitIntoSections(text);
+  if (chunks.length < 3) chunks = paragraphs(text);
+  return chunks.map((c) => ({ ...c, heading: c.text.trim().split("\n")[0].trim().slice(0, 120) }));
+}
+
+// "7. Usage Rights" and "Section 8 – Usage rights" should pair up after renumbering.
+function headingKey(heading: string): string {
+  return heading
+    .replace(/^\s*(?:(?:article|section)\s+)?(?:\d{1,2}(?:\.\d{1,2})*[.)]?|\(?[ivxlc]{1,5}[.)])\s+/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9$%]{2,}/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size && !b.size) return 1;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function normalized(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Pairs clauses in order, maximizing total similarity (an LCS over clauses). */
+export function alignClauses(beforeText: string, afterText: string): ClauseChange[] {
+  const a = splitIntoClauses(beforeText);
+  const b = splitIntoClauses(afterText);
+  const aWords = a.map((c) => words(c.text));
+  const bWords = b.map((c) => words(c.text));
+  const aKeys = a.map((c) => headingKey(c.heading));
+  const bKeys = b.map((c) => headingKey(c.heading));
+
+  const sim = a.map((_, i) =>
+    b.map((_, j) => {
+      const body = jaccard(aWords[i], bWords[j]);
+      return aKeys[i] && aKeys[i] === bKeys[j] ? 0.5 + body / 2 : body;
+    })
+  );
+
+  const best: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const pair = sim[i][j] >= MATCH_THRESHOLD ? sim[i][j] + best[i + 1][j + 1] : -1;
+      best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], pair);
+    }
+  }
+
+  const changes: ClauseChange[] = [];
+  const removed = (c: Clause) => changes.push({ status: "removed", heading: c.heading, before: { start: c.start, end: c.end }, similarity: 0 });
+  const added = (c: Clause) => changes.push({ status: "added", heading: c.heading, after: { start: c.start, end: c.end }, similarity: 0 });
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (sim[i][j] >= MATCH_THRESHOLD && best[i][j] === sim[i][j] + best[i + 1][j + 1]) {
+      const same = normalized(a[i].text) === normalized(b[j].text);
+      const cells = a[i].text.length * b[j].text.length / 36; // ~6 chars per token
+      changes.push({
+        status: same ? "unchanged" : "modified",
+        heading: b[j].heading,
+        before: { start: a[i].start, end: a[i].end },
+        after: { start: b[j].start, end: b[j].end },
+        similarity: Math.round(sim[i][j] * 100) / 100,
+        diff: same || cells > MAX_DIFF_CELLS ? undefined : diffWords(a[i].text, b[j].text),
+      });
+      i++; j++;
+    } else if (best[i + 1][j] >= best[i][j + 1]) {
+      removed(a[i++]);
+    } else {
+      added(b[j++]);
+    }
+  }
+  while (i < a.length) removed(a[i++]);
+  while (j < b.length) added(b[j++]);
+  return changes;
+}
@@ -0,0 +1,111 @@
+// -----------------------------
+// Snapshot, risk and counter changes between versions
+// -----------------------------
+
+import { dedupeKey } from "@/lib/review/merge";
+import { citationsFor } from "@/lib/review/citations";
+import { diffWords, type DiffOp } from "@/lib/redline/diff";
+import { RISK_LEVELS, SNAPSHOT_FIELDS, SNAPSHOT_LABELS, type ReviewFindings, type Risk, type RiskLevel, type Snapshot, type SnapshotField } from "@/lib/review/schema";
+import type { ClauseChange } from "./clauses";
+
+export type FieldChange = {
+  field: SnapshotField;
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+  diff?: DiffOp[];
+};
+
+export type RiskChangeStatus = "added" | "resolved" | "raised" | "lowered" | "unchanged";
+
+export type RiskChange = {
+  status: RiskChangeStatus;
+  label: string;
+  before?: RiskLevel;
+  after?: RiskLevel;
+  note?: string;
+};
+
+// "changed": a clause the counter cites was edited or removed in the new draft.
+export type CounterStatus = "changed" | "unchanged" | "uncited";
+
+export type CounterCheck = {
+  counter: string;
+  status: CounterStatus;
+  // Indexes into the clause changes that hold the counter's citations.
+  clauses: number[];
+};
+
+export function compareSnapshots(before: Snapshot, after: Snapshot): FieldChange[] {
+  return SNAPSHOT_FIELDS.map((field) => {
+    const b = (before[field] ?? "").trim();
+    const a = (after[field] ?? "").trim();
+    const changed = dedupeKey(b) !== dedupeKey(a);
+    return { field, label: SNAPSHOT_LABELS[field], before: b, after: a, changed, diff: changed && b && a ? diffWords(b, a) : undefined };
+  });
+}
+
+function labelWords(label: string): Set<string> {
+  return new Set(dedupeKey(label).split(" ").filter((w) => w.length > 2));
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / Math.max(1, Math.min(a.size, b.size));
+}
+
+/**
+ * Pairs risks by label. Models rarely phrase a label the same way twice, so
+ * after exact matches, labels sharing most of their words are paired too.
+ */
+export function compareRisks(before: Risk[], after: Risk[]): RiskChange[] {
+  const pairs = new Map<number, number>();
+  const taken = new Set<number>();
+  before.forEach((r, i) => {
+    const j = after.findIndex((s, k) => !taken.has(k) && dedupeKey(s.label) === dedupeKey(r.label));
+    if (j !== -1) { pairs.set(i, j); taken.add(j); }
+  });
+  before.forEach((r, i) => {
+    if (pairs.has(i)) return;
+    const words = labelWords(r.label);
+    let bestJ = -1;
+    let bestScore = 0.5;
+    after.forEach((s, k) => {
+      if (taken.has(k)) return;
+      const score = overlap(words, labelWords(s.label));
+      if (score > bestScore) { bestJ = k; bestScore = score; }
+    });
+    if (bestJ !== -1) { pairs.set(i, bestJ); taken.add(bestJ); }
+  });
+
+  const changes: RiskChange[] = before.map((r, i) => {
+    const j = pairs.get(i);
+    if (j === undefined) return { status: "resolved", label: r.label, before: r.level, note: r.note };
+    const s = after[j];
+    const delta = RISK_LEVELS.indexOf(s.level) - RISK_LEVELS.indexOf(r.level);
+    return { status: delta > 0 ? "raised" : delta < 0 ? "lowered" : "unchanged", label: s.label, before: r.level, after: s.level, note: s.note ?? r.note };
+  });
+  after.forEach((s, k) => {
+    if (!taken.has(k)) changes.push({ status: "added", label: s.label, after: s.level, note: s.note });
+  });
+  return changes;
+}
+
+/** Whether the clauses each earlier counter pointed at were touched in the new draft. */
+export function checkCounters(before: ReviewFindings, clauses: ClauseChange[]): CounterCheck[] {
+  return before.counters.map((counter, i) => {
+    const hits = new Set<number>();
+    for (const c of citationsFor(before.citations, `counters.${i}`)) {
+      const k = clauses.findIndex((cl) => cl.before && c.start >= cl.before.start && c.start < cl.before.end);
+      if (k !== -1) hits.add(k);
+    }
+    const indexes = [...hits].sort((x, y) => x - y);
+    const status: CounterStatus =
+      !indexes.length ? "uncited" :
+      indexes.some((k) => clauses[k].status !== "unchanged") ? "changed" :
+      "unchanged";
+    return { counter, status, clauses: indexes };
+  });
+}
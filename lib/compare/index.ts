@@ -0,0 +1,43 @@
+import type { ReviewResult } from "@/lib/review/schema";
+import { alignClauses, type ClauseChange } from "./clauses";
+import { checkCounters, compareRisks, compareSnapshots, type CounterCheck, type FieldChange, type RiskChange } from "./findings";
+
+export { alignClauses, splitIntoClauses, type Clause, type ClauseChange, type ClauseStatus } from "./clauses";
+export { checkCounters, compareRisks, compareSnapshots, type CounterCheck, type CounterStatus, type FieldChange, type RiskChange, type RiskChangeStatus } from "./findings";
+
+export type Comparison = {
+  clauses: ClauseChange[];
+  snapshot: FieldChange[];
+  risks: RiskChange[];
+  counters: CounterCheck[];
+  summary: {
+    clausesModified: number;
+    clausesAdded: number;
+    clausesRemoved: number;
+    risksAdded: number;
+    risksResolved: number;
+    risksChanged: number;
+  };
+};
+
+/** Diffs two reviewed versions of a contract; offsets refer to each result's rawText. */
+export function compareReviews(before: ReviewResult, after: ReviewResult): Comparison {
+  const clauses = alignClauses(before.rawText ?? "", after.rawText ?? "");
+  const risks = compareRisks(before.risks, after.risks);
+  const count = <T extends { status: string }>(items: T[], ...statuses: T["status"][]) =>
+    items.filter((x) => statuses.includes(x.status)).length;
+  return {
+    clauses,
+    snapshot: compareSnapshots(before.snapshot, after.snapshot),
+    risks,
+    counters: checkCounters(before, clauses),
+    summary: {
+      clausesModified: count(clauses, "modified"),
+      clausesAdded: count(clauses, "added"),
+      clausesRemoved: count(clauses, "removed"),
+      risksAdded: count(risks, "added"),
+      risksResolved: count(risks, "resolved"),
+      risksChanged: count(risks, "raised", "lowered"),
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// -----------------------------
+// CSV rendering and parsing
+// -----------------------------
+
+// Quote every field that needs it (RFC 4180); a leading =, +, - or @ is defused so
+// spreadsheets don't evaluate contract text as a formula.
+function field(value = ""): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export type CsvColumns<T> = [string, (row: T) => string | undefined][];
+
+export function renderCsvTable<T>(columns: CsvColumns<T>, rows: T[]): string {
+  const lines = [columns.map(([name]) => name), ...rows.map((r) => columns.map(([, get]) => get(r)))];
+  return lines.map((l) => l.map(field).join(",")).join("\r\n") + "\r\n";
+}
+
+/** RFC 4180 rows: quoted fields may hold commas, quotes ("") and line breaks. Blank lines are skipped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") { row.push(cell); cell = ""; }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.some((f) => f.trim())) rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += c;
+  }
+  row.push(cell);
+  if (row.some((f) => f.trim())) rows.push(row);
+  return rows;
+}
@@ -0,0 +1,50 @@
+// -----------------------------
+// Golden corpus
+// -----------------------------
+// One eval/corpus/<id>.json per fixture, naming the PDF/DOCX next to it and
+// what a correct review of it contains.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { RISK_LEVELS, SNAPSHOT_FIELDS } from "@/lib/review/schema";
+
+export const CORPUS_DIR = path.join(process.cwd(), "eval", "corpus");
+
+export const ExpectedRiskSchema = z.object({
+  // Human-readable name for reports.
+  label: z.string().min(1),
+  // Case-insensitive regex; a review risk whose label or note matches counts as found.
+  match: z.string().min(1),
+  level: z.enum(RISK_LEVELS).optional(),
+});
+
+export const CorpusCaseSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  file: z.string().min(1),
+  description: z.string().optional(),
+  // Per snapshot field, phrases the extracted value must contain (ignoring case and
+  // whitespace). [] means the field should be empty; unlisted fields aren't scored.
+  snapshot: z.record(z.enum(SNAPSHOT_FIELDS as [string, ...string[]]), z.array(z.string())).default({}),
+  risks: z.array(ExpectedRiskSchema).default([]),
+});
+
+export type ExpectedRisk = z.output<typeof ExpectedRiskSchema>;
+export type CorpusCase = z.output<typeof CorpusCaseSchema>;
+
+/** Every case in `dir`, sorted by id. Throws on a malformed expectation file. */
+export async function loadCorpus(dir = CORPUS_DIR): Promise<CorpusCase[]> {
+  const names = (await fs.readdir(dir)).filter((n) => n.endsWith(".json")).sort();
+  return Promise.all(
+    names.map(async (name) => {
+      const parsed = CorpusCaseSchema.safeParse(JSON.parse(await fs.readFile(path.join(dir, name), "utf8")));
+      if (!parsed.success) throw new Error(`${name}: ${parsed.error.issues.map((i) => `${i.path.join(".")} ${i.message}`).join("; ")}`);
+      if (`${parsed.data.id}.json` !== name) throw new Error(`${name}: id "${parsed.data.id}" doesn't match the file name`);
+      return parsed.data;
+    })
+  );
+}
+
+export async function readFixture(c: CorpusCase, dir = CORPUS_DIR): Promise<Buffer> {
+  return fs.readFile(path.join(dir, c.file));
+}
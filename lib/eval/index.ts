@@ -0,0 +1,7 @@
+export { CORPUS_DIR, CorpusCaseSchema, loadCorpus, readFixture, type CorpusCase, type ExpectedRisk } from "./corpus";
+export { createRecordingProvider, createReplayProvider, MissingRecordingError } from "./recorded";
+export { runEval, type EvalOptions } from "./run";
+export {
+  findRegressions, formatReport, metricsOf, scoreCase, summarize,
+  type CaseScore, type EvalMetrics, type EvalReport,
+} from "./score";
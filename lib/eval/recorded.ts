@@ -0,0 +1,68 @@
+// -----------------------------
+// Recorded model answers
+// -----------------------------
+// A live provider's answers saved to JSON and replayed in CI, so evals of a
+// real model run offline and deterministically. Answers are keyed by a hash of
+// the whole request: change a prompt and the recording has to be refreshed.
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import type { CompletionRequest, LLMProvider, ProviderName } from "@/lib/llm";
+
+type RecordingFile = {
+  provider: ProviderName;
+  model: string;
+  // Request hash → raw JSON answer.
+  answers: Record<string, string>;
+};
+
+export class MissingRecordingError extends Error {}
+
+function requestKey(req: CompletionRequest): string {
+  return createHash("sha256").update(JSON.stringify([req.task, req.system, req.user])).digest("hex").slice(0, 32);
+}
+
+async function readRecording(file: string): Promise<RecordingFile | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as RecordingFile;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** Replays `file`; a request that wasn't recorded throws MissingRecordingError. */
+export async function createReplayProvider(file: string): Promise<LLMProvider> {
+  const recording = await readRecording(file);
+  if (!recording) throw new MissingRecordingError(`No recording at ${file}. Run the eval against a live model with --record first.`);
+  return {
+    name: recording.provider,
+    model: recording.model,
+    async completeJSON(req) {
+      const answer = recording.answers[requestKey(req)];
+      if (answer === undefined) {
+        throw new MissingRecordingError(`No recorded answer for this ${req.task} request; the prompt or corpus changed. Re-record with --record.`);
+      }
+      return answer;
+    },
+  };
+}
+
+/** Passes requests to `live` and keeps every answer; `save()` writes them to `file`. */
+export function createRecordingProvider(live: LLMProvider, file: string): LLMProvider & { save(): Promise<void> } {
+  const answers: Record<string, string> = {};
+  return {
+    name: live.name,
+    model: live.model,
+    async completeJSON(req) {
+      const answer = await live.completeJSON(req);
+      answers[requestKey(req)] = answer;
+      return answer;
+    },
+    async save() {
+      const sorted = Object.fromEntries(Object.entries(answers).sort(([a], [b]) => a.localeCompare(b)));
+      const body: RecordingFile = { provider: live.name, model: live.model, answers: sorted };
+      await fs.writeFile(file, JSON.stringify(body, null, 2) + "\n");
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// -----------------------------
+// Eval runner
+// -----------------------------
+// Each fixture goes through the same pipeline as an upload (extraction,
+// redaction, chunking, analysis, playbook-free), without the history store.
+
+import type { LLMProvider } from "@/lib/llm";
+import { reviewDocument } from "@/lib/review/pipeline";
+import type { ReviewResult } from "@/lib/review/schema";
+import { readFixture, type CorpusCase } from "./corpus";
+import { scoreCase, summarize, type CaseScore, type EvalReport } from "./score";
+
+export type EvalOptions = {
+  // Called after each case, for progress output.
+  onCase?: (score: CaseScore, result: ReviewResult) => void;
+};
+
+export async function runEval(provider: LLMProvider, cases: CorpusCase[], opts: EvalOptions = {}): Promise<EvalReport> {
+  const scores: CaseScore[] = [];
+  // One at a time: recordings and rate limits both prefer a steady, ordered stream of calls.
+  for (const c of cases) {
+    const result = await reviewDocument({ buffer: await readFixture(c), filename: c.file }, provider, { force: true, persist: false });
+    const score = scoreCase(c, result);
+    scores.push(score);
+    opts.onCase?.(score, result);
+  }
+  return summarize(`${provider.name}/${provider.model}`, scores);
+}
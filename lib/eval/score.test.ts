@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusCase } from "./corpus";
+import { findRegressions, scoreCase, summarize } from "./score";
+
+const CASE: CorpusCase = {
+  id: "sample",
+  file: "sample.pdf",
+  snapshot: { parties: ["Glow Co", "Ana"], rate: ["$5,000"], usage: [] },
+  risks: [
+    { label: "Perpetual usage", match: "perpetu", level: "High" },
+    { label: "Exclusivity", match: "exclusiv" },
+  ],
+};
+
+const snapshot = { parties: "Glow Co and Ana Lima", dates: "", term: "", rate: "$5000 flat", deliverables: "", usage: "", billing: "" };
+
+describe("scoreCase", () => {
+  it("scores fields by the share of expected phrases found", () => {
+    const score = scoreCase(CASE, { snapshot, risks: [] });
+    expect(score.fields).toEqual({ parties: 1, rate: 0, usage: 1 });
+  });
+
+  it("matches each expected risk to at most one review risk", () => {
+    const score = scoreCase(CASE, {
+      snapshot,
+      risks: [
+        { label: "Usage in perpetuity", level: "Med" },
+        { label: "Perpetual whitelisting", level: "High" },
+        { label: "Late payment", level: "Low" },
+      ],
+    });
+    expect(score.risks).toMatchObject({ expected: 2, found: 1, levelChecked: 1, levelMatches: 0, missed: ["Exclusivity"] });
+    expect(score.risks.unexpected).toEqual(["Perpetual whitelisting", "Late payment"]);
+  });
+});
+
+describe("findRegressions", () => {
+  const report = summarize("test", [scoreCase(CASE, { snapshot, risks: [{ label: "Perpetual usage", level: "High" }] })]);
+
+  it("passes against itself and within tolerance", () => {
+    expect(findRegressions(report, report)).toEqual([]);
+    expect(findRegressions(report, { ...report, overall: report.overall + 0.005 })).toEqual([]);
+  });
+
+  it("reports every metric that dropped", () => {
+    const baseline = { ...report, fields: { ...report.fields, rate: 1 }, riskRecall: 1 };
+    expect(findRegressions(report, baseline)).toEqual(["snapshot.rate: 1 → 0", "riskRecall: 1 → 0.5"]);
+  });
+});
@@ -0,0 +1,141 @@
+// -----------------------------
+// Eval scoring
+// -----------------------------
+// Extraction accuracy per snapshot field (share of expected phrases found) and
+// risk recall (share of expected risks the review flagged), averaged over the
+// corpus. Baselines are compared metric by metric so a drop in one field
+// isn't hidden by a gain in another.
+
+import { SNAPSHOT_FIELDS, type ReviewResult, type SnapshotField } from "@/lib/review/schema";
+import type { CorpusCase } from "./corpus";
+
+export type CaseScore = {
+  id: string;
+  // 0..1 per scored field.
+  fields: Partial<Record<SnapshotField, number>>;
+  risks: {
+    expected: number;
+    found: number;
+    // Found risks whose level matched, out of those with an expected level.
+    levelMatches: number;
+    levelChecked: number;
+    missed: string[];
+    // Review risks that matched no expectation; reported, not scored.
+    unexpected: string[];
+  };
+};
+
+export type EvalMetrics = {
+  fields: Partial<Record<SnapshotField, number>>;
+  riskRecall: number;
+  riskLevelAccuracy: number;
+  // Mean of every field score and risk recall.
+  overall: number;
+};
+
+export type EvalReport = EvalMetrics & {
+  model: string;
+  cases: CaseScore[];
+};
+
+const norm = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim();
+
+function fieldScore(actual: string | null | undefined, expected: string[]): number {
+  const value = norm(actual ?? "");
+  if (!expected.length) return value ? 0 : 1;
+  return expected.filter((p) => value.includes(norm(p))).length / expected.length;
+}
+
+export function scoreCase(c: CorpusCase, result: Pick<ReviewResult, "snapshot" | "risks">): CaseScore {
+  const fields: CaseScore["fields"] = {};
+  for (const [field, expected] of Object.entries(c.snapshot) as [SnapshotField, string[]][]) {
+    fields[field] = fieldScore(result.snapshot[field], expected);
+  }
+
+  const claimed = new Set<number>();
+  let found = 0;
+  let levelMatches = 0;
+  let levelChecked = 0;
+  const missed: string[] = [];
+  for (const e of c.risks) {
+    const re = new RegExp(e.match, "i");
+    const i = result.risks.findIndex((r, k) => !claimed.has(k) && re.test(`${r.label} ${r.note ?? ""}`));
+    if (i === -1) {
+      missed.push(e.label);
+      continue;
+    }
+    claimed.add(i);
+    found++;
+    if (e.level) {
+      levelChecked++;
+      if (result.risks[i].level === e.level) levelMatches++;
+    }
+  }
+  const unexpected = result.risks.filter((_, k) => !claimed.has(k)).map((r) => r.label);
+
+  return { id: c.id, fields, risks: { expected: c.risks.length, found, levelMatches, levelChecked, missed, unexpected } };
+}
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 1);
+const round = (x: number) => Math.round(x * 1000) / 1000;
+
+export function summarize(model: string, cases: CaseScore[]): EvalReport {
+  const fields: EvalMetrics["fields"] = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    const scores = cases.flatMap((c) => (c.fields[field] === undefined ? [] : [c.fields[field]!]));
+    if (scores.length) fields[field] = round(mean(scores));
+  }
+  const expected = cases.reduce((n, c) => n + c.risks.expected, 0);
+  const found = cases.reduce((n, c) => n + c.risks.found, 0);
+  const checked = cases.reduce((n, c) => n + c.risks.levelChecked, 0);
+  const matches = cases.reduce((n, c) => n + c.risks.levelMatches, 0);
+  const riskRecall = round(expected ? found / expected : 1);
+  return {
+    model,
+    fields,
+    riskRecall,
+    riskLevelAccuracy: round(checked ? matches / checked : 1),
+    overall: round(mean([...Object.values(fields), riskRecall])),
+    cases,
+  };
+}
+
+/** Metrics that dropped more than `tolerance` below the baseline, as readable lines. */
+export function findRegressions(report: EvalMetrics, baseline: EvalMetrics, tolerance = 0.01): string[] {
+  const out: string[] = [];
+  const check = (name: string, now: number | undefined, before: number | undefined) => {
+    if (before === undefined) return;
+    if (now === undefined || now < before - tolerance) out.push(`${name}: ${before} → ${now ?? "not scored"}`);
+  };
+  for (const field of SNAPSHOT_FIELDS) check(`snapshot.${field}`, report.fields[field], baseline.fields[field]);
+  check("riskRecall", report.riskRecall, baseline.riskRecall);
+  check("riskLevelAccuracy", report.riskLevelAccuracy, baseline.riskLevelAccuracy);
+  check("overall", report.overall, baseline.overall);
+  return out;
+}
+
+export function metricsOf(report: EvalReport): EvalMetrics {
+  const { fields, riskRecall, riskLevelAccuracy, overall } = report;
+  return { fields, riskRecall, riskLevelAccuracy, overall };
+}
+
+const pct = (x: number) => `${Math.round(x * 100)}%`.padStart(5);
+
+/** Plain-text table for the terminal. */
+export function formatReport(report: EvalReport): string {
+  const lines = [`Model: ${report.model}`, "", "Field                   Accuracy"];
+  for (const [field, score] of Object.entries(report.fields)) lines.push(`  ${field.padEnd(22)}${pct(score)}`);
+  lines.push(`  ${"risk recall".padEnd(22)}${pct(report.riskRecall)}`);
+  lines.push(`  ${"risk level accuracy".padEnd(22)}${pct(report.riskLevelAccuracy)}`);
+  lines.push(`  ${"overall".padEnd(22)}${pct(report.overall)}`, "");
+  for (const c of report.cases) {
+    const weak = Object.entries(c.fields).filter(([, s]) => s < 1).map(([f, s]) => `${f} ${pct(s).trim()}`);
+    const notes = [
+      ...(weak.length ? [`fields: ${weak.join(", ")}`] : []),
+      ...(c.risks.missed.length ? [`missed risks: ${c.risks.missed.join(", ")}`] : []),
+      ...(c.risks.unexpected.length ? [`extra risks: ${c.risks.unexpected.join(", ")}`] : []),
+    ];
+    lines.push(`${notes.length ? "✗" : "✓"} ${c.id}${notes.length ? `\n    ${notes.join("\n    ")}` : ""}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { decodeText, detectFormat } from "./detect";
+
+describe("detectFormat", () => {
+  it("finds a PDF header behind leading junk", () => {
+    expect(detectFormat(Buffer.from("\n\n%PDF-1.7\n..."), "contract.docx")).toBe("pdf");
+  });
+
+  it("tells legacy Word and OOXML Word apart from other containers", () => {
+    const ole = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0]);
+    expect(detectFormat(ole)).toBe("doc");
+    const zip = (entry: string) => Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from(entry)]);
+    expect(detectFormat(zip("[Content_Types].xml word/document.xml"))).toBe("docx");
+    expect(detectFormat(zip("xl/workbook.xml"))).toBeNull();
+  });
+
+  it("recognizes RTF saved under another extension", () => {
+    expect(detectFormat(Buffer.from("  {\\rtf1\\ansi Hello}"), "contract.doc")).toBe("rtf");
+  });
+
+  it("sorts text into HTML and plain text", () => {
+    expect(detectFormat(Buffer.from("<!DOCTYPE html><p>Hi</p>"))).toBe("html");
+    expect(detectFormat(Buffer.from("Plain terms"), "terms.htm")).toBe("html");
+    expect(detectFormat(Buffer.from("Plain terms, no markup."))).toBe("text");
+    expect(detectFormat(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toBe("text");
+  });
+
+  it("rejects binary data", () => {
+    expect(detectFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]))).toBeNull();
+  });
+});
+
+describe("decodeText", () => {
+  it("honors byte-order marks", () => {
+    expect(decodeText(Buffer.from([0xff, 0xfe, 0x48, 0x00, 0x69, 0x00]))).toBe("Hi");
+    expect(decodeText(Buffer.from([0xef, 0xbb, 0xbf, 0x48, 0x69]))).toBe("Hi");
+  });
+});
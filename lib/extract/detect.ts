@@ -0,0 +1,51 @@
+// -----------------------------
+// Format detection from content
+// -----------------------------
+// File names and browser MIME types lie (RTF saved as .doc, PDFs named .docx),
+// so we look at the bytes and only use the name as a tie-breaker for plain text.
+
+import type { DocumentFormat } from "@/lib/review/schema";
+
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const SNIFF_BYTES = 4096;
+
+function startsWith(buf: Buffer, magic: Buffer) {
+  return buf.length >= magic.length && buf.subarray(0, magic.length).equals(magic);
+}
+
+/** Decodes text honoring UTF-8/UTF-16 byte-order marks. */
+export function decodeText(buf: Buffer): string {
+  if (buf[0] === 0xff && buf[1] === 0xfe) return new TextDecoder("utf-16le").decode(buf.subarray(2));
+  if (buf[0] === 0xfe && buf[1] === 0xff) return new TextDecoder("utf-16be").decode(buf.subarray(2));
+  return new TextDecoder("utf-8").decode(buf).replace(/^﻿/, "");
+}
+
+function looksLikeText(head: Buffer): boolean {
+  if (head[0] === 0xff && head[1] === 0xfe) return true;
+  if (head[0] === 0xfe && head[1] === 0xff) return true;
+  if (head.includes(0)) return false;
+  const sample = new TextDecoder("utf-8").decode(head);
+  const bad = (sample.match(/�/g) || []).length;
+  // Allow a stray replacement char (e.g. a cut multi-byte sequence at the sniff boundary).
+  return bad <= Math.max(1, sample.length / 200);
+}
+
+export function isHtml(text: string): boolean {
+  return /^\s*(?:<!doctype html|<html|<head|<body)/i.test(text) || /<(?:p|div|br|table)\b[^>]*>/i.test(text.slice(0, SNIFF_BYTES));
+}
+
+export function detectFormat(buf: Buffer, filename?: string): DocumentFormat | null {
+  const head = buf.subarray(0, SNIFF_BYTES);
+  // %PDF- may be preceded by junk bytes; readers accept it within the first KB.
+  if (head.subarray(0, 1024).includes("%PDF-")) return "pdf";
+  if (startsWith(head, OLE_MAGIC)) return "doc";
+  if (startsWith(head, ZIP_MAGIC)) {
+    // Zip entry names are stored uncompressed, so OOXML Word files mention word/ early on.
+    return buf.includes("word/document") || (buf.includes("[Content_Types].xml") && buf.includes("word/")) ? "docx" : null;
+  }
+  if (head.subarray(0, 16).toString("latin1").trimStart().startsWith("{\\rtf")) return "rtf";
+  if (!looksLikeText(head)) return null;
+  if (/\.html?$/i.test(filename || "") || isHtml(decodeText(head))) return "html";
+  return "text";
+}
@@ -0,0 +1,91 @@
+// -----------------------------
+// Document text extraction
+// -----------------------------
+
+import * as mammoth from "mammoth";
+import WordExtractor from "word-extractor";
+import { convert as htmlToText } from "html-to-text";
+import { ACCEPTED_EXTENSIONS, type DocumentFormat, type Extraction } from "@/lib/review/schema";
+import { decodeText, detectFormat, isHtml } from "./detect";
+import { extractPdf } from "./pdf";
+import { rtfToText } from "./rtf";
+
+export { detectFormat } from "./detect";
+
+/** Carries a user-facing message; the route maps it to a 4xx response. */
+export class ExtractionError extends Error {
+  constructor(message: string, readonly status = 422) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+export type ExtractedDocument = {
+  text: string;
+  extraction: Extraction;
+};
+
+const FAILURE_MESSAGES: Record<DocumentFormat, string> = {
+  pdf: "Unable to parse PDF. If it's password-protected, export an unlocked copy and re-upload.",
+  docx: "Unable to read Word file. Try saving as DOCX or PDF and re-upload.",
+  doc: "Unable to read this older Word (.doc) file. Try saving as DOCX or PDF and re-upload.",
+  rtf: "Unable to read RTF file. Try saving as DOCX or PDF and re-upload.",
+  html: "Unable to read HTML file. Try pasting the contract text instead.",
+  text: "Unable to read text file. Make sure it's saved as UTF-8.",
+};
+
+function htmlBodyText(html: string): string {
+  return htmlToText(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: "a", options: { ignoreHref: true } },
+      { selector: "img", format: "skip" },
+    ],
+  });
+}
+
+async function extractByFormat(format: DocumentFormat, buffer: Buffer): Promise<ExtractedDocument> {
+  const plain = (text: string): ExtractedDocument => ({ text, extraction: { format, source: "upload", method: "text", pages: [] } });
+  switch (format) {
+    case "pdf": {
+      const { text, method, pages } = await extractPdf(buffer);
+      return { text, extraction: { format, source: "upload", method, pages } };
+    }
+    case "docx": {
+      const { value } = await mammoth.extractRawText({ buffer });
+      return plain(value || "");
+    }
+    case "doc": {
+      const doc = await new WordExtractor().extract(buffer);
+      return plain([doc.getBody(), doc.getFootnotes(), doc.getEndnotes()].filter((s) => s.trim()).join("\n\n"));
+    }
+    case "rtf":
+      return plain(rtfToText(buffer.toString("latin1")));
+    case "html":
+      return plain(htmlBodyText(decodeText(buffer)));
+    case "text":
+      return plain(decodeText(buffer));
+  }
+}
+
+export async function extractFromFile(buffer: Buffer, filename?: string): Promise<ExtractedDocument> {
+  const format = detectFormat(buffer, filename);
+  if (!format) {
+    throw new ExtractionError(`Unsupported file type. Please upload one of: ${ACCEPTED_EXTENSIONS.join(", ")}.`, 415);
+  }
+  try {
+    return await extractByFormat(format, buffer);
+  } catch (err) {
+    console.error(`extract ${format} failed`, err);
+    throw new ExtractionError(FAILURE_MESSAGES[format]);
+  }
+}
+
+/** Pasted contract or email text; HTML from rich-text clipboards is flattened. */
+export function extractFromPaste(input: string): ExtractedDocument {
+  const html = isHtml(input);
+  return {
+    text: html ? htmlBodyText(input) : input,
+    extraction: { format: html ? "html" : "text", source: "paste", method: "text", pages: [] },
+  };
+}
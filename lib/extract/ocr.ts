@@ -0,0 +1,39 @@
+// -----------------------------
+// Local OCR (tesseract.js with bundled English data)
+// -----------------------------
+// Nothing is downloaded at runtime: traineddata comes from @tesseract.js-data/eng.
+
+import { createRequire } from "module";
+
+export type OcrPage = {
+  text: string;
+  // 0–1, tesseract's mean word confidence.
+  confidence: number;
+};
+
+const require = createRequire(import.meta.url);
+
+function bundledLangPath(): string {
+  return process.env.OCR_LANG_PATH || (require("@tesseract.js-data/eng") as { langPath: string }).langPath;
+}
+
+/** Runs OCR over PNG page images, one worker for the whole batch. */
+export async function ocrImages(images: Buffer[]): Promise<OcrPage[]> {
+  if (!images.length) return [];
+  const { createWorker } = await import("tesseract.js");
+  const worker = await createWorker("eng", undefined, {
+    langPath: bundledLangPath(),
+    gzip: true,
+    cacheMethod: "none",
+  });
+  try {
+    const out: OcrPage[] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image);
+      out.push({ text: data.text || "", confidence: Math.round(data.confidence) / 100 });
+    }
+    return out;
+  } finally {
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,9 @@
+// pdf-parse's implementation module, typed as it actually behaves: @types/pdf-parse
+// only admits a Buffer, but the bundled pdf.js takes any Uint8Array, and needs a
+// plain one (see extractPageTexts).
+declare module "pdf-parse/lib/pdf-parse.js" {
+  import type PdfParse from "pdf-parse";
+
+  function pdfParse(data: Uint8Array, options?: PdfParse.Options): Promise<PdfParse.Result>;
+  export = pdfParse;
+}
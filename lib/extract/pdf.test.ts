@@ -0,0 +1,91 @@
+import { deflateSync } from "zlib";
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it, vi } from "vitest";
+import { extractPdf } from "./pdf";
+
+// The OCR fallback rasterizes pages with the native `canvas` module, which not every machine can build.
+const canvasError = await import("canvas").then(
+  () => null,
+  (err: Error) => err.message.split("\n")[0]
+);
+if (canvasError) console.warn(`Skipping the PDF OCR test: the canvas module can't load here (${canvasError}).`);
+
+// A 5×7 bitmap font, just the letters the scanned page uses; tesseract reads these reliably.
+const GLYPHS: Record<string, string[]> = {
+  D: ["11110", "10001", "10001", "10001", "10001", "10001", "11110"],
+  A: ["01110", "10001", "10001", "11111", "10001", "10001", "10001"],
+  T: ["11111", "00100", "00100", "00100", "00100", "00100", "00100"],
+  Y: ["10001", "10001", "01010", "00100", "00100", "00100", "00100"],
+  S: ["01111", "10000", "10000", "01110", "00001", "00001", "11110"],
+  " ": ["00000", "00000", "00000", "00000", "00000", "00000", "00000"],
+};
+
+function crc32(buf: Buffer): number {
+  let c = ~0;
+  for (const b of buf) {
+    c ^= b;
+    for (let k = 0; k < 8; k++) c = (c >>> 1) ^ (0xedb88320 & -(c & 1));
+  }
+  return ~c >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const out = Buffer.alloc(body.length + 8);
+  out.writeUInt32BE(data.length, 0);
+  body.copy(out, 4);
+  out.writeUInt32BE(crc32(body), body.length + 4);
+  return out;
+}
+
+// Black-on-white grayscale PNG of `text`, so the page has an image and no text layer.
+function textPng(text: string, scale = 4, margin = 40): Buffer {
+  const width = margin * 2 + text.length * 6 * scale;
+  const height = margin * 2 + 7 * scale;
+  const rows: Buffer[] = [];
+  for (let y = 0; y < height; y++) {
+    const row = Buffer.alloc(width + 1, 255);
+    row[0] = 0; // no filter
+    const gy = Math.floor((y - margin) / scale);
+    for (let x = margin; gy >= 0 && gy < 7 && x < width - margin; x++) {
+      const cx = Math.floor((x - margin) / scale);
+      if (GLYPHS[text[Math.floor(cx / 6)]]?.[gy][cx % 6] === "1") row[x + 1] = 0;
+    }
+    rows.push(row);
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth; color type 0 (grayscale) and the rest stay 0
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(Buffer.concat(rows))),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+async function scannedPdf(text: string): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const image = await doc.embedPng(textPng(text));
+  const page = doc.addPage([image.width, image.height]);
+  page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+  return Buffer.from(await doc.save());
+}
+
+describe("extractPdf", () => {
+  it.skipIf(canvasError)("OCRs pages without a text layer", async () => {
+    const out = await extractPdf(await scannedPdf("DATA DAYS"));
+    expect(out.method).toBe("ocr");
+    expect(out.pages[0]).toMatchObject({ page: 1, method: "ocr" });
+    expect(out.text).toMatch(/DAYS/);
+  });
+
+  it.runIf(canvasError)("keeps the text layer when OCR can't run", async () => {
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    const out = await extractPdf(await scannedPdf("DATA DAYS"));
+    expect(out).toMatchObject({ method: "text", pages: [{ page: 1, method: "text", chars: 0 }] });
+    expect(logged).toHaveBeenCalledWith("OCR fallback failed", expect.anything());
+    logged.mockRestore();
+  });
+});
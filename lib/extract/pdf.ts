@@ -0,0 +1,108 @@
+// -----------------------------
+// PDF extraction with OCR fallback
+// -----------------------------
+// pdf-parse gives us the text layer page by page. Pages whose text layer is
+// nearly empty (scans, signed image pages) are rasterized and OCR'd.
+
+import pdfParse from "pdf-parse/lib/pdf-parse.js";
+import { ocrImages } from "./ocr";
+
+export type PageMethod = "text" | "ocr";
+
+export type PageReport = {
+  page: number; // 1-based
+  method: PageMethod;
+  confidence: number; // 0–1; 1 for a native text layer
+  chars: number;
+};
+
+export type PdfExtraction = {
+  text: string;
+  method: PageMethod | "mixed";
+  pages: PageReport[];
+};
+
+// Pages with fewer non-whitespace characters than this are treated as scanned.
+const MIN_CHARS_PER_PAGE = Number(process.env.OCR_MIN_CHARS_PER_PAGE) || 80;
+const MAX_OCR_PAGES = Number(process.env.OCR_MAX_PAGES) || 30;
+const RENDER_SCALE = 2; // ~144 DPI, enough for body text
+
+type TextItem = { str: string; transform: number[] };
+type PageData = { getTextContent(opts: object): Promise<{ items: TextItem[] }> };
+
+// Same line-joining as pdf-parse's default renderer, but captured per page.
+async function extractPageTexts(buffer: Buffer): Promise<string[]> {
+  const pages: string[] = [];
+  // The pdf.js bundled with pdf-parse misreads Node Buffers (Buffer#slice returns a
+  // view where it expects a copy, so streams decode from the wrong bytes); a plain
+  // Uint8Array copy parses reliably.
+  await pdfParse(new Uint8Array(buffer), {
+    pagerender: async (pageData: PageData) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = "";
+      for (const item of content.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+      pages.push(text);
+      return text;
+    },
+  });
+  return pages;
+}
+
+async function rasterizePages(buffer: Buffer, pageNumbers: number[]): Promise<Buffer[]> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const { createCanvas } = await import("canvas");
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, disableFontFace: true }).promise;
+  try {
+    const images: Buffer[] = [];
+    for (const n of pageNumbers) {
+      const page = await doc.getPage(n);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const ctx = canvas.getContext("2d");
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx as unknown as CanvasRenderingContext2D, viewport }).promise;
+      images.push(canvas.toBuffer("image/png"));
+      page.cleanup();
+    }
+    return images;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+const density = (s: string) => s.replace(/\s+/g, "").length;
+
+export async function extractPdf(buffer: Buffer): Promise<PdfExtraction> {
+  const texts = await extractPageTexts(buffer);
+  const pages: PageReport[] = texts.map((t, i) => ({ page: i + 1, method: "text", confidence: 1, chars: density(t) }));
+
+  const sparse = pages.filter((p) => p.chars < MIN_CHARS_PER_PAGE).slice(0, MAX_OCR_PAGES).map((p) => p.page);
+  if (sparse.length) {
+    try {
+      const results = await ocrImages(await rasterizePages(buffer, sparse));
+      results.forEach((r, i) => {
+        const n = sparse[i];
+        // Keep the text layer if OCR found even less (e.g. a blank signature page).
+        if (density(r.text) <= pages[n - 1].chars) return;
+        texts[n - 1] = r.text;
+        pages[n - 1] = { page: n, method: "ocr", confidence: r.confidence, chars: density(r.text) };
+      });
+    } catch (err) {
+      // OCR is best-effort: missing native canvas or a bad page shouldn't fail text-layer PDFs.
+      console.error("OCR fallback failed", err);
+    }
+  }
+
+  const methods = new Set(pages.map((p) => p.method));
+  return {
+    text: texts.join("\n\n"),
+    method: methods.size > 1 ? "mixed" : methods.has("ocr") ? "ocr" : "text",
+    pages,
+  };
+}
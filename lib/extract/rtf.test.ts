@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { rtfToText } from "./rtf";
+
+describe("rtfToText", () => {
+  it("keeps body text and drops the font table", () => {
+    const rtf = String.raw`{\rtf1\ansi{\fonttbl{\f0 Arial;}}\f0 Term: 12 months.\par Rate: $500.}`;
+    expect(rtfToText(rtf)).toBe("Term: 12 months.\nRate: $500.");
+  });
+
+  it("decodes cp1252 quotes, dashes and the euro sign", () => {
+    const rtf = String.raw`{\rtf1\ansi \'93Creator\'94 \'96 Brand\'92s fee \'97 \'80500 caf\'e9}`;
+    expect(rtfToText(rtf)).toBe("“Creator” – Brand’s fee — €500 café");
+  });
+
+  it("reads \\u escapes and swallows their fallback characters", () => {
+    const rtf = String.raw`{\rtf1\ansi\uc1 Fee \u8364?250, caf\u233?, \uc2 na\u239\'3f\'3fve}`;
+    expect(rtfToText(rtf)).toBe("Fee €250, café, naïve");
+  });
+
+  it("skips ignorable destinations", () => {
+    expect(rtfToText(String.raw`{\rtf1 Body{\*\generator Word;} text}`)).toBe("Body text");
+  });
+});
@@ -0,0 +1,97 @@
+// -----------------------------
+// RTF to plain text
+// -----------------------------
+// A small tokenizer that keeps body text and drops font tables, pictures,
+// field instructions and other non-text destinations.
+
+const SKIP_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "listtable", "listoverridetable", "revtbl", "rsidtbl",
+  "info", "pict", "object", "fldinst", "datastore", "themedata", "colorschememapping",
+  "latentstyles", "generator", "xmlnstbl", "mmathPr", "header", "headerl", "headerr", "headerf",
+  "footer", "footerl", "footerr", "footerf", "bkmkstart", "bkmkend", "nonshppict",
+]);
+
+const SYMBOLS: Record<string, string> = {
+  par: "\n", line: "\n", sect: "\n\n", page: "\n\n", row: "\n",
+  tab: "\t", cell: "\t",
+  emdash: "—", endash: "–", bullet: "•",
+  lquote: "‘", rquote: "’", ldblquote: "“", rdblquote: "”",
+  emspace: " ", enspace: " ", qmspace: " ",
+};
+
+type GroupState = { skip: boolean; uc: number };
+
+// WHATWG's windows-1252 decoder maps 0x80–0x9F to C1 controls on Node, so the
+// range where cp1252 differs from Latin-1 (quotes, dashes, €) is spelled out here.
+// Unassigned bytes (0x81, 0x8D, 0x8F, 0x90, 0x9D) come out empty.
+const CP1252_HIGH = [
+  "€", "", "‚", "ƒ", "„", "…", "†", "‡", "ˆ", "‰", "Š", "‹", "Œ", "", "Ž", "",
+  "", "‘", "’", "“", "”", "•", "–", "—", "˜", "™", "š", "›", "œ", "", "ž", "Ÿ",
+];
+
+function cp1252(byte: number): string {
+  return byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+}
+
+export function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, uc: 1 };
+  let out = "";
+  // Fallback characters still to swallow after a \uN escape.
+  let pending = 0;
+
+  const emit = (s: string) => {
+    if (state.skip) return;
+    if (pending > 0) { pending--; return; }
+    out += s;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const ch = rtf[i];
+    if (ch === "{") { stack.push(state); state = { ...state }; continue; }
+    if (ch === "}") { state = stack.pop() ?? state; pending = 0; continue; }
+    if (ch === "\r" || ch === "\n") continue;
+    if (ch !== "\\") { emit(ch); continue; }
+
+    const next = rtf[i + 1];
+    if (next === undefined) break;
+
+    if (/[a-zA-Z]/.test(next)) {
+      const m = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+      if (!m) continue;
+      i += m[0].length;
+      const word = m[1];
+      const param = m[2] === undefined ? undefined : Number(m[2]);
+      if (SKIP_DESTINATIONS.has(word)) { state.skip = true; continue; }
+      if (word === "uc" && param !== undefined) { state.uc = param; continue; }
+      if (word === "u" && param !== undefined) {
+        emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+        pending = state.uc;
+        continue;
+      }
+      if (SYMBOLS[word]) emit(SYMBOLS[word]);
+      continue;
+    }
+
+    i++;
+    switch (next) {
+      case "*": state.skip = true; break; // ignorable destination we don't understand
+      case "'": {
+        const byte = parseInt(rtf.slice(i + 1, i + 3), 16);
+        i += 2;
+        if (!Number.isNaN(byte)) emit(cp1252(byte));
+        break;
+      }
+      case "~": emit(" "); break;
+      case "_": emit("-"); break;
+      case "-": break;
+      case "\n": case "\r": emit("\n"); break;
+      default: emit(next); // \\ \{ \}
+    }
+  }
+
+  return out
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { corsHeaders } from "./http";
+
+const from = (origin: string) => new Request("http://localhost:3000/api/reviews", { headers: { origin, host: "localhost:3000" } });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("corsHeaders", () => {
+  it("allows credentials for listed origins", () => {
+    vi.stubEnv("ALLOWED_ORIGINS", "https://app.example.com");
+    expect(corsHeaders(from("https://app.example.com"))).toMatchObject({
+      "Access-Control-Allow-Origin": "https://app.example.com",
+      "Access-Control-Allow-Credentials": "true",
+    });
+  });
+
+  it("lets any origin in with * but never with credentials", () => {
+    vi.stubEnv("ALLOWED_ORIGINS", "*");
+    const headers = corsHeaders(from("https://evil.example"));
+    expect(headers["Access-Control-Allow-Origin"]).toBe("https://evil.example");
+    expect(headers["Access-Control-Allow-Credentials"]).toBeUndefined();
+  });
+
+  it("echoes nothing for origins that aren't allowed", () => {
+    vi.stubEnv("ALLOWED_ORIGINS", "https://app.example.com");
+    expect(corsHeaders(from("https://evil.example"))["Access-Control-Allow-Origin"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+// -----------------------------
+// Shared API response helpers
+// -----------------------------
+
+import { NextResponse } from "next/server";
+
+// Browser origins allowed to call the API, from ALLOWED_ORIGINS (comma-separated,
+// e.g. "https://app.example.com,http://localhost:3000"; "*" allows any).
+// Same-origin requests and requests without an Origin (curl, servers) always pass.
+export function allowedOrigins(): string[] {
+  return (process.env.ALLOWED_ORIGINS ?? "").split(",").map((o) => o.trim().replace(/\/+$/, "")).filter(Boolean);
+}
+
+export function isOriginAllowed(req: Request): boolean {
+  const origin = req.headers.get("origin");
+  if (!origin) return true;
+  try {
+    if (new URL(origin).host === (req.headers.get("host") ?? new URL(req.url).host)) return true;
+  } catch {
+    return false;
+  }
+  const allowed = allowedOrigins();
+  return allowed.includes("*") || allowed.includes(origin);
+}
+
+// Same-origin or named in ALLOWED_ORIGINS, as opposed to let in by "*".
+function isOriginListed(req: Request, origin: string): boolean {
+  if (allowedOrigins().includes(origin)) return true;
+  try {
+    return new URL(origin).host === (req.headers.get("host") ?? new URL(req.url).host);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * CORS headers for a response to `req`; the origin is echoed only when it's allowed, and
+ * credentials only for listed origins, so "*" never lets another site use a session cookie.
+ */
+export function corsHeaders(req?: Request): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-API-Key, X-API-Version",
+    "Access-Control-Expose-Headers": "Content-Disposition, Retry-After, Location, X-API-Version",
+    Vary: "Origin",
+  };
+  const origin = req?.headers.get("origin");
+  if (req && origin && isOriginAllowed(req)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+    if (isOriginListed(req, origin)) headers["Access-Control-Allow-Credentials"] = "true";
+  }
+  return headers;
+}
+
+export function corsJson(body: unknown, status = 200, req?: Request, extra: Record<string, string> = {}) {
+  return new NextResponse(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(req),
+      ...extra,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+// ✅ Preflight handler (OPTIONS)
+export function corsPreflight(req?: Request) {
+  if (req && !isOriginAllowed(req)) return new NextResponse(null, { status: 403, headers: { Vary: "Origin" } });
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders(req),
+  });
+}
+
+/**
+ * Server-Sent Events response. `run` gets `send(event, data)` and a signal that
+ * aborts when the client disconnects; the stream closes when `run` settles.
+ */
+export function corsEventStream(
+  run: (send: (event: string, data: unknown) => void, signal: AbortSignal) => Promise<void>,
+  req?: Request
+) {
+  const abort = new AbortController();
+  req?.signal.addEventListener("abort", () => abort.abort(), { once: true });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        await run(send, abort.signal);
+      } finally {
+        // Already closed if the client cancelled.
+        try { controller.close(); } catch {}
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      ...corsHeaders(req),
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      // Keep proxies (nginx) from buffering the whole stream.
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,42 @@
+// -----------------------------
+// Contract language detection
+// -----------------------------
+// Counts common function words per language. Contracts are long and full of
+// them, so this is reliable without a model or a language-id dependency; the
+// lists avoid words two languages share ("de", "que", "la") where they'd blur
+// Spanish, Portuguese, French and Italian.
+
+import type { Language, LanguageDetection } from "@/lib/review/schema";
+
+const STOPWORDS: Record<Language, string[]> = {
+  en: ["the", "and", "of", "to", "is", "will", "shall", "be", "for", "with", "by", "any", "this", "that", "or", "on", "all", "such", "from", "agreement", "which", "are", "may", "not", "party"],
+  es: ["el", "los", "las", "del", "y", "por", "con", "una", "es", "será", "usted", "también", "al", "sus", "este", "esta", "como", "pero", "contrato", "según", "cualquier", "cada", "deberá", "podrá", "mediante"],
+  pt: ["não", "são", "uma", "do", "da", "dos", "das", "em", "pelos", "na", "pelo", "pela", "ao", "com", "você", "será", "também", "à", "nos", "contrato", "qualquer", "cada", "deverá", "poderá", "mediante"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "mit", "von", "zu", "den", "dem", "des", "ein", "eine", "für", "auf", "im", "sich", "werden", "wird", "oder", "bei", "vertrag", "jede", "nach"],
+  fr: ["le", "les", "et", "des", "du", "est", "pour", "dans", "par", "sur", "ne", "pas", "qui", "sera", "vous", "au", "aux", "ses", "cette", "contrat", "tout", "chaque", "doit", "peut", "être"],
+  it: ["il", "gli", "della", "delle", "dei", "che", "per", "una", "con", "non", "sono", "sarà", "alla", "nel", "nella", "questo", "questa", "contratto", "ogni", "qualsiasi", "dovrà", "potrà", "anche", "degli", "ed"],
+};
+
+const LOOKUP = new Map<string, Language[]>();
+for (const [code, words] of Object.entries(STOPWORDS) as [Language, string[]][]) {
+  for (const w of words) LOOKUP.set(w, [...(LOOKUP.get(w) ?? []), code]);
+}
+
+// Enough for a paragraph; more doesn't change the answer.
+const SAMPLE_CHARS = 20_000;
+
+/** English when there's nothing to go on (empty or numbers-only text). */
+export function detectLanguage(text: string): LanguageDetection {
+  const counts = new Map<Language, number>();
+  let total = 0;
+  for (const word of text.slice(0, SAMPLE_CHARS).toLowerCase().match(/\p{L}+/gu) ?? []) {
+    const langs = LOOKUP.get(word);
+    if (!langs) continue;
+    total++;
+    for (const code of langs) counts.set(code, (counts.get(code) ?? 0) + 1);
+  }
+  const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+  if (!ranked.length) return { code: "en", confidence: 0 };
+  const [code, hits] = ranked[0];
+  return { code, confidence: Math.round((hits / total) * 100) / 100 };
+}
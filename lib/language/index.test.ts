@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { getProvider, type CompletionRequest, type LLMProvider } from "@/lib/llm";
+import { redact } from "@/lib/redact";
+import { reviewDocument } from "@/lib/review/pipeline";
+import { languageFromTag, normalizeSnapshot } from "@/lib/review/schema";
+import { detectLanguage, translateFindings } from "./index";
+
+const SAMPLES = {
+  en: "The Creator shall deliver two videos to the Brand. Payment will be made within 30 days of the invoice, and usage rights end after six months.",
+  es: "El Creador entregará dos videos a la Marca. El pago se realizará dentro de los 30 días siguientes a la factura y los derechos de uso terminan a los seis meses.",
+  pt: "O Criador deverá entregar dois vídeos à Marca. O pagamento será feito em até 30 dias após a fatura, e os direitos de uso não são perpétuos.",
+  de: "Der Creator liefert zwei Videos an die Marke. Die Zahlung erfolgt innerhalb von 30 Tagen nach Rechnungsstellung, und die Nutzungsrechte enden nach sechs Monaten.",
+  fr: "Le Créateur doit livrer deux vidéos à la Marque. Le paiement est effectué dans les 30 jours suivant la facture et les droits d'utilisation ne sont pas perpétuels.",
+  it: "Il Creatore consegnerà due video al Marchio. Il pagamento sarà effettuato entro 30 giorni dalla fattura e i diritti di utilizzo non sono perpetui.",
+};
+
+describe("detectLanguage", () => {
+  it.each(Object.entries(SAMPLES))("recognizes %s", (code, text) => {
+    const detected = detectLanguage(text);
+    expect(detected.code).toBe(code);
+    expect(detected.confidence).toBeGreaterThan(0.5);
+  });
+
+  it("falls back to English with no confidence when there's nothing to go on", () => {
+    expect(detectLanguage("$5,000 — 2025-01-01")).toEqual({ code: "en", confidence: 0 });
+  });
+});
+
+describe("languageFromTag", () => {
+  it("reads the primary subtag", () => {
+    expect(languageFromTag("pt-BR")).toBe("pt");
+    expect(languageFromTag("DE")).toBe("de");
+    expect(languageFromTag("ja")).toBeNull();
+    expect(languageFromTag("")).toBeNull();
+  });
+});
+
+describe("translateFindings", () => {
+  const findings = {
+    snapshot: normalizeSnapshot({ parties: "Marca y creador@example.com" }),
+    risks: [{ label: "Uso perpetuo", level: "High" as const, note: "Sin límite" }],
+    counters: ["Limitar el uso a 12 meses"],
+  };
+
+  it("masks redacted values on the way out and restores them", async () => {
+    const seen: CompletionRequest[] = [];
+    const provider: LLMProvider = {
+      name: "openai",
+      model: "test",
+      completeJSON: async (req) => {
+        seen.push(req);
+        const input = JSON.parse(req.user.slice(req.user.indexOf("{")));
+        return JSON.stringify({
+          snapshot: { ...input.snapshot, parties: input.snapshot.parties.replace("Marca y", "Brand and") },
+          risks: [{ label: "Perpetual usage", note: "No limit" }],
+          counters: ["Limit usage to 12 months"],
+        });
+      },
+    };
+    const redaction = redact("Contacto: creador@example.com");
+    const out = await translateFindings(provider, findings, "es", "en", { redaction });
+    expect(seen[0].user).not.toContain("creador@example.com");
+    expect(seen[0].system).toContain("from Spanish into English");
+    expect(out).toMatchObject({
+      language: "en",
+      snapshot: { parties: "Brand and creador@example.com" },
+      risks: [{ label: "Perpetual usage", note: "No limit" }],
+      counters: ["Limit usage to 12 months"],
+    });
+  });
+
+  it("rejects answers that don't line up with the review", async () => {
+    const provider: LLMProvider = {
+      name: "openai",
+      model: "test",
+      completeJSON: async () => JSON.stringify({ snapshot: {}, risks: [], counters: [] }),
+    };
+    await expect(translateFindings(provider, findings, "es", "en")).rejects.toThrow(/dropped or added/);
+  });
+});
+
+describe("reviews of non-English contracts", () => {
+  const text = "El Creador cede a la Marca el uso del contenido a perpetuidad. La Marca pagará cada factura a 90 días.";
+
+  it("detect the language and translate into the requested one", async () => {
+    const result = await reviewDocument({ text }, getProvider("mock"), { force: true, persist: false, outputLanguage: "en" });
+    expect(result.language?.code).toBe("es");
+    expect(result.translation?.language).toBe("en");
+    expect(result.translation?.risks).toHaveLength(result.risks.length);
+    // The English clause detectors don't run on Spanish text.
+    expect(result.risks.every((r) => r.source === "model")).toBe(true);
+  });
+
+  it("skip the translation when the contract is already in the requested language", async () => {
+    const result = await reviewDocument({ text }, getProvider("mock"), { force: true, persist: false, outputLanguage: "es" });
+    expect(result.translation).toBeUndefined();
+  });
+});
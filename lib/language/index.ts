@@ -0,0 +1,2 @@
+export { detectLanguage } from "./detect";
+export { translateFindings, translationSystemPrompt, type TranslateOptions } from "./translate";
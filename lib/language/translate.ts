@@ -0,0 +1,68 @@
+// -----------------------------
+// Review translation
+// -----------------------------
+// Reviews are written in the contract's language so labels and notes read
+// naturally next to the quoted clauses. This translates the snapshot, risks
+// and counters into the language the reader asked for; quotes, citations and
+// everything else stay as they are.
+
+import type { LLMProvider } from "@/lib/llm";
+import type { Redaction } from "@/lib/redact";
+import { describeSchema, LANGUAGE_NAMES, ModelTranslationSchema, type Language, type ModelTranslation, type ReviewFindings, type Translation } from "@/lib/review/schema";
+
+export function translationSystemPrompt(from: Language, to: Language): string {
+  return `You translate a contract review from ${LANGUAGE_NAMES[from]} into ${LANGUAGE_NAMES[to]}. Return STRICT JSON only:
+${describeSchema(ModelTranslationSchema)}
+Keep every array in the same order and with the same length as the input. Leave empty fields empty.
+Keep names, brands, platforms, amounts, currencies, dates and placeholders like [EMAIL_1] exactly as they are.`;
+}
+
+export type TranslateOptions = {
+  // The contract's redaction; values are masked on the way out and restored on the way back.
+  redaction?: Redaction;
+  signal?: AbortSignal;
+};
+
+/** Throws when the model's answer can't be parsed or doesn't line up with the review. */
+export async function translateFindings(
+  provider: LLMProvider,
+  findings: Pick<ReviewFindings, "snapshot" | "risks" | "counters">,
+  from: Language,
+  to: Language,
+  opts: TranslateOptions = {}
+): Promise<Translation> {
+  const mask = opts.redaction?.mask ?? ((s: string) => s);
+  const restore = opts.redaction?.restore ?? ((s: string) => s);
+  const input: ModelTranslation = {
+    snapshot: Object.fromEntries(
+      Object.entries(findings.snapshot).map(([k, v]) => [k, typeof v === "string" ? mask(v) : v])
+    ) as ModelTranslation["snapshot"],
+    risks: findings.risks.map((r) => ({ label: mask(r.label), note: r.note && mask(r.note) })),
+    counters: findings.counters.map(mask),
+  };
+
+  const content = await provider.completeJSON({
+    task: "translate",
+    system: translationSystemPrompt(from, to),
+    user: `Review:\n\n${JSON.stringify(input, null, 2)}`,
+    temperature: 0,
+    signal: opts.signal,
+  });
+  let data: unknown;
+  try { data = JSON.parse(content); } catch { data = null; }
+  const parsed = ModelTranslationSchema.safeParse(data);
+  if (!parsed.success) throw new Error("The model's translation didn't match the expected format");
+  const out = parsed.data;
+  if (out.risks.length !== input.risks.length || out.counters.length !== input.counters.length) {
+    throw new Error("The model's translation dropped or added items");
+  }
+
+  return {
+    language: to,
+    snapshot: Object.fromEntries(
+      Object.entries(out.snapshot).map(([k, v]) => [k, typeof v === "string" ? restore(v) : v])
+    ) as Translation["snapshot"],
+    risks: out.risks.map((r) => ({ label: restore(r.label), note: r.note && restore(r.note) })),
+    counters: out.counters.map(restore),
+  };
+}
@@ -0,0 +1,36 @@
+import { genkit } from "genkit";
+import { googleAI } from "@genkit-ai/google-genai";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// One genkit instance for the process: each carries its own registry (and, in development,
+// a reflection server), so it's built on first use and shared by every provider.
+let ai: ReturnType<typeof genkit> | undefined;
+
+function genkitInstance() {
+  // googleAI() falls back to GEMINI_API_KEY / GOOGLE_API_KEY when no key is passed.
+  ai ??= genkit({ plugins: [googleAI()] });
+  return ai;
+}
+
+export function createGeminiProvider(model = process.env.GEMINI_MODEL || DEFAULT_MODEL): LLMProvider {
+  return {
+    name: "gemini",
+    model,
+    async completeJSON(req: CompletionRequest) {
+      const res = await genkitInstance().generate({
+        model: googleAI.model(model),
+        system: req.system,
+        prompt: req.user,
+        config: { temperature: req.temperature ?? 0.2 },
+        output: { format: "json" },
+        abortSignal: req.signal,
+      });
+      const input = res.usage?.inputTokens ?? 0;
+      const output = res.usage?.outputTokens ?? 0;
+      req.onUsage?.({ promptTokens: input, completionTokens: output, totalTokens: res.usage?.totalTokens ?? input + output });
+      return res.text || "{}";
+    },
+  };
+}
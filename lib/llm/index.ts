@@ -0,0 +1,30 @@
+// -----------------------------
+// Provider selection
+// -----------------------------
+// Order of precedence: explicit request value, then LLM_PROVIDER, then OpenAI.
+
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import { PROVIDER_NAMES, type LLMProvider, type ProviderName } from "./types";
+
+export * from "./types";
+export { meterProvider, type MeteredProvider, type UsageTotals } from "./usage";
+export { reviewContract, REVIEW_SYSTEM_PROMPT, type ReviewCallOptions, type ReviewOutcome, type ReviewPart } from "./review";
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === "string" && (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export function resolveProviderName(requested?: string | null): ProviderName | null {
+  const name = (requested || process.env.LLM_PROVIDER || "openai").trim().toLowerCase();
+  return isProviderName(name) ? name : null;
+}
+
+export function getProvider(name: ProviderName): LLMProvider {
+  switch (name) {
+    case "gemini": return createGeminiProvider();
+    case "mock": return createMockProvider();
+    case "openai": return createOpenAIProvider();
+  }
+}
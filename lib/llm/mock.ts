@@ -0,0 +1,156 @@
+// -----------------------------
+// Deterministic offline provider
+// -----------------------------
+// Used in CI and for local development without API keys. Answers come from
+// simple regex heuristics over the contract text, so the same input always
+// produces the same output.
+
+import type { CompletionRequest, CompletionTask, LLMProvider } from "./types";
+
+type RiskLevel = "Low" | "Med" | "High";
+
+const CONTRACT_MARKER = "Contract text:";
+
+function contractText(user: string): string {
+  const i = user.indexOf(CONTRACT_MARKER);
+  return i === -1 ? user : user.slice(i + CONTRACT_MARKER.length).trim();
+}
+
+function sentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.;!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function firstSentence(all: string[], re: RegExp): string {
+  return all.find((s) => re.test(s)) ?? "";
+}
+
+function firstMatch(text: string, re: RegExp): string {
+  return text.match(re)?.[0]?.trim() ?? "";
+}
+
+const RISK_RULES: { re: RegExp; label: string; level: RiskLevel; note: string }[] = [
+  { re: /perpetu|in perpetuity/i, label: "Perpetual usage rights", level: "High", note: "Content can be used forever without further payment." },
+  { re: /exclusiv/i, label: "Exclusivity restrictions", level: "Med", note: "Limits work with competing brands." },
+  { re: /indemnif/i, label: "Indemnification obligations", level: "Med", note: "Creator may be liable for brand losses." },
+  { re: /terminat\w* (?:at any time|for convenience|without cause)/i, label: "Unilateral termination", level: "Med", note: "Brand can exit without cause." },
+  { re: /net[- ]?(?:60|75|90|120)/i, label: "Long payment terms", level: "Low", note: "Payment arrives well after delivery." },
+];
+
+function mockReview(text: string) {
+  const all = sentences(text);
+  const between = text.replace(/\s+/g, " ").match(/\bbetween\s+(.{3,160}?)\s+and\s+(.{2,80}?)(?=[,;(]|\.\s|\.$|$)/i);
+  const parties = between ? `${between[1]} and ${between[2]}` : "";
+  const rate = firstSentence(all, /\$\s?\d|USD|EUR|fee|compensation/i);
+  const term = firstSentence(all, /\bterm\b/i);
+  const dates = firstMatch(
+    text,
+    /\b(?:\d{4}-\d{2}-\d{2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.? \d{1,2},? \d{4})\b/
+  );
+  const deliverables = firstSentence(all, /deliverable|post|video|story|reel/i);
+  const usage = firstSentence(all, /usage|licen[cs]e|exclusiv/i);
+  const billing = firstSentence(all, /invoice|payment|net[- ]?\d+/i);
+
+  const matched = RISK_RULES.filter((r) => r.re.test(text));
+  const risks = matched.map(({ label, level, note }) => ({ label, level, note }));
+  const counters = risks.map((r) => `Negotiate: ${r.label.toLowerCase()}`);
+
+  // Every quote is a verbatim (whitespace-collapsed) sentence or match from the text.
+  const snapshotQuotes: Record<string, string> = { parties: between?.[0] ?? "", dates, term, rate, deliverables, usage, billing };
+  const citations = [
+    ...Object.entries(snapshotQuotes).filter(([, q]) => q).map(([f, quote]) => ({ target: `snapshot.${f}`, quote })),
+    ...matched.flatMap((r, i) => {
+      const quote = firstSentence(all, r.re);
+      return quote ? [{ target: `risks.${i}`, quote }, { target: `counters.${i}`, quote }] : [];
+    }),
+  ];
+
+  return {
+    snapshot: { parties, dates, term, rate, deliverables, usage, brandBrief: null, additionalReqs: null, billing: billing || null },
+    risks,
+    counters,
+    citations,
+  };
+}
+
+// Echoes back the previous response embedded in a repair request.
+function mockRepair(user: string) {
+  const i = user.indexOf("Previous response:");
+  const j = user.lastIndexOf("Return the corrected JSON");
+  const previous = i === -1 ? "" : user.slice(i + "Previous response:".length, j === -1 ? undefined : j).trim();
+  try { return JSON.parse(previous); } catch { return {}; }
+}
+
+// One edit per counter that came with a cited clause; the rewrite is rule-based.
+function mockRedline(user: string) {
+  const edits: { counter: number; original: string; replacement: string; rationale: string }[] = [];
+  const re = /^\[(\d+)\] (.+)\n\s+Cited: (".*")$/gm;
+  for (const m of user.matchAll(re)) {
+    const counter = Number(m[1]);
+    let original: string;
+    try { original = JSON.parse(m[3]); } catch { continue; }
+    let replacement: string;
+    if (/perpetu/i.test(original)) replacement = original.replace(/in perpetuity|perpetual(?:ly)?/gi, "for twelve (12) months from first posting");
+    else if (/net[- ]?\d+/i.test(original)) replacement = original.replace(/net[- ]?\d+/gi, "net-30");
+    else if (/exclusiv/i.test(original)) replacement = `${original} Exclusivity is limited to directly competing products for thirty (30) days after the final post.`;
+    else replacement = `${original.replace(/\.\s*$/, "")}, subject to mutual written agreement.`;
+    edits.push({ counter, original, replacement, rationale: `Implements: ${m[2]}` });
+  }
+  return { edits };
+}
+
+const QUESTION_STOPWORDS = new Set(["what", "does", "when", "where", "which", "with", "that", "this", "have", "will", "about", "there", "contract", "agreement"]);
+
+// Quotes the sentence sharing the most words with the question; no overlap means not addressed.
+function mockAnswer(user: string) {
+  const question = user.match(/^Question: (.*)$/m)?.[1] ?? "";
+  const words = (s: string) => (s.toLowerCase().match(/[a-z0-9]{4,}/g) ?? []).filter((w) => !QUESTION_STOPWORDS.has(w));
+  const asked = new Set(words(question));
+  let best = "";
+  let score = 0;
+  for (const s of sentences(contractText(user))) {
+    const n = words(s).filter((w) => asked.has(w)).length;
+    if (n > score) {
+      best = s;
+      score = n;
+    }
+  }
+  if (!best) return { answer: "Not addressed in the contract.", addressed: false, quotes: [] };
+  return { answer: `The contract says: ${best}`, addressed: true, quotes: [best] };
+}
+
+// The mock can't translate; it hands the review back unchanged so the flow still runs offline.
+function mockTranslate(user: string) {
+  try {
+    return JSON.parse(user.slice(user.indexOf("{")));
+  } catch {
+    return {};
+  }
+}
+
+const HANDLERS: Record<CompletionTask, (req: CompletionRequest) => unknown> = {
+  review: (req) => mockReview(contractText(req.user)),
+  repair: (req) => mockRepair(req.user),
+  redline: (req) => mockRedline(req.user),
+  answer: (req) => mockAnswer(req.user),
+  translate: (req) => mockTranslate(req.user),
+};
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: "mock",
+    model: "mock-heuristic",
+    async completeJSON(req: CompletionRequest) {
+      req.signal?.throwIfAborted();
+      const text = JSON.stringify(HANDLERS[req.task](req));
+      // Rough count (~4 characters per token) so the usage ledger has something to show offline.
+      const promptTokens = Math.ceil((req.system.length + req.user.length) / 4);
+      const completionTokens = Math.ceil(text.length / 4);
+      req.onUsage?.({ promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
+      return text;
+    },
+  };
+}
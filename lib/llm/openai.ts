@@ -0,0 +1,34 @@
+import OpenAI from "openai";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+export function createOpenAIProvider(model = process.env.OPENAI_MODEL || DEFAULT_MODEL): LLMProvider {
+  // Created on first use: without OPENAI_API_KEY the constructor throws, and that
+  // should fail the call (so reviews fall back to rule findings), not provider lookup.
+  let client: OpenAI | undefined;
+  return {
+    name: "openai",
+    model,
+    async completeJSON(req: CompletionRequest) {
+      client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      const completion = await client.chat.completions.create({
+        model,
+        temperature: req.temperature ?? 0.2,
+        messages: [
+          { role: "system", content: req.system },
+          { role: "user", content: req.user },
+        ],
+        response_format: { type: "json_object" },
+      }, { signal: req.signal });
+      if (completion.usage) {
+        req.onUsage?.({
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+          totalTokens: completion.usage.total_tokens,
+        });
+      }
+      return completion.choices[0]?.message?.content ?? "{}";
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { describeSchema, formatIssues, LANGUAGE_NAMES, ModelReviewSchema, normalizeResult, type Language, type ModelReview } from "@/lib/review/schema";
+import type { LLMProvider } from "./types";
+
+export const REVIEW_SYSTEM_PROMPT = `You are a contracts analyst for creator/brand deals. Return STRICT JSON only. Fields:
+${describeSchema(ModelReviewSchema)}
+Risk "level" must be exactly one of "Low", "Med" or "High".
+For every snapshot field, risk and counter you derive from the contract, add a "citations" entry:
+"target" is "snapshot.<field>", "risks.<index>" or "counters.<index>" (0-based), and "quote" is
+the shortest passage copied VERBATIM from the contract text that supports it. Never paraphrase a quote.
+Do NOT include late fees in counters.`;
+
+// Without this the model answers in whatever language it likes, often English for any contract.
+function languagePrompt(language: Language): string {
+  const name = LANGUAGE_NAMES[language];
+  return `The contract is written in ${name}. Read it as a ${name} contract, and write every snapshot value, ` +
+    `risk label and note, and counter in ${name}. Quotes stay VERBATIM in the contract's own words.`;
+}
+
+function parseJSON(content: string): unknown {
+  try { return JSON.parse(content); } catch { return null; }
+}
+
+export type ReviewOutcome = {
+  review: ModelReview;
+  // True when the first answer failed validation and a repair call was made.
+  repaired: boolean;
+};
+
+// Set when the text is one section of a longer contract analyzed in several calls.
+export type ReviewPart = { index: number; total: number };
+
+function reviewPrompt(text: string, part?: ReviewPart): string {
+  if (!part || part.total <= 1) return `Contract text:\n\n${text}`;
+  return `This is part ${part.index + 1} of ${part.total} of a longer contract. Analyze only this part; ` +
+    `leave snapshot fields empty when this part doesn't cover them.\n\nContract text:\n\n${text}`;
+}
+
+export type ReviewCallOptions = {
+  signal?: AbortSignal;
+  // Team policy appended to the system prompt (see lib/playbook).
+  policy?: string;
+  // Called when the first answer failed validation, just before the repair call.
+  onRepair?: () => void;
+  // The contract's language (see lib/language); the review is written in it.
+  language?: Language;
+};
+
+export async function reviewContract(provider: LLMProvider, text: string, part?: ReviewPart, opts: ReviewCallOptions = {}): Promise<ReviewOutcome> {
+  const system = [REVIEW_SYSTEM_PROMPT, opts.language && languagePrompt(opts.language), opts.policy].filter(Boolean).join("\n\n");
+  const content = await provider.completeJSON({
+    task: "review",
+    system,
+    user: reviewPrompt(text, part),
+    signal: opts.signal,
+  });
+  const first = ModelReviewSchema.safeParse(parseJSON(content));
+  if (first.success) return { review: first.data, repaired: false };
+
+  // One repair attempt: show the model its own output and what was wrong with it.
+  opts.onRepair?.();
+  const repairedContent = await provider.completeJSON({
+    task: "repair",
+    system,
+    user: `Your previous response did not match the required JSON format.\n\nProblems:\n${formatIssues(first.error)}\n\nPrevious response:\n${content}\n\nReturn the corrected JSON only.`,
+    temperature: 0,
+    signal: opts.signal,
+  });
+  const repairedData = parseJSON(repairedContent);
+  const second = ModelReviewSchema.safeParse(repairedData);
+  if (second.success) return { review: second.data, repaired: true };
+
+  // Still invalid: keep whatever survives lenient normalization rather than failing the request.
+  const { snapshot, risks, counters } = normalizeResult(repairedData ?? parseJSON(content));
+  return { review: { snapshot, risks, counters, citations: [] }, repaired: true };
+}
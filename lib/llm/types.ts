@@ -0,0 +1,34 @@
+// -----------------------------
+// LLM provider contracts
+// -----------------------------
+
+export const PROVIDER_NAMES = ["openai", "gemini", "mock"] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+// Every call names its task so the offline mock knows which shape to answer with.
+export type CompletionTask = "review" | "repair" | "redline" | "answer" | "translate";
+
+export type CompletionRequest = {
+  task: CompletionTask;
+  system: string;
+  user: string;
+  temperature?: number;
+  // Aborts the call when the client that asked for it goes away.
+  signal?: AbortSignal;
+  // Receives the provider's token counts once the call completes.
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  /** Returns the model's raw JSON text for the request. */
+  completeJSON(req: CompletionRequest): Promise<string>;
+}
@@ -0,0 +1,30 @@
+import type { CompletionRequest, LLMProvider, TokenUsage } from "./types";
+
+export type UsageTotals = TokenUsage & { calls: number };
+
+export type MeteredProvider = LLMProvider & {
+  /** Running totals across every call made through this provider. */
+  readonly usage: UsageTotals;
+};
+
+/** Wraps a provider so each completion's token counts add up on `usage`. */
+export function meterProvider(provider: LLMProvider): MeteredProvider {
+  const usage: UsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  return {
+    name: provider.name,
+    model: provider.model,
+    usage,
+    completeJSON(req: CompletionRequest) {
+      usage.calls++;
+      return provider.completeJSON({
+        ...req,
+        onUsage: (u) => {
+          usage.promptTokens += u.promptTokens;
+          usage.completionTokens += u.completionTokens;
+          usage.totalTokens += u.totalTokens;
+          req.onUsage?.(u);
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import { renderCsvTable, type CsvColumns } from "@/lib/csv";
+import type { Obligation } from "@/lib/review/schema";
+
+const COLUMNS: CsvColumns<Obligation> = [
+  ["Date", (o) => o.date],
+  ["Until", (o) => o.until],
+  ["Type", (o) => o.kind],
+  ["Obligation", (o) => o.title],
+  ["Responsible", (o) => o.party],
+  ["Clause", (o) => o.clause],
+  ["Source", (o) => o.quote],
+  ["Estimated from", (o) => o.basis],
+];
+
+export function renderCsv(obligations: Obligation[]): string {
+  return renderCsvTable(COLUMNS, obligations);
+}
@@ -0,0 +1,172 @@
+// -----------------------------
+// Obligation extraction
+// -----------------------------
+// Every dated sentence in the contract becomes an obligation, classified by
+// what it talks about and who it binds. Deadlines the contract only implies
+// ("exclusivity for 90 days after the final post") are worked out from the
+// structured terms and marked with their basis.
+
+import { splitIntoSections } from "@/lib/review/chunking";
+import type { Obligation, StructuredTerms } from "@/lib/review/schema";
+import { addMonths, DELIVERABLE_KINDS, parseDates, sentences } from "@/lib/review/terms";
+
+type Kind = Obligation["kind"];
+
+// First match wins, so the narrower topics come before "deliverable" and "term".
+const KINDS: [Kind, RegExp][] = [
+  ["exclusivity", /exclusiv|\bcompet/i],
+  ["invoice", /\binvoic/i],
+  ["payment", /\b(?:pay|paid|payable|payment|fees?)\b/i],
+  ["posting", /\b(?:posted|posting|publish\w*|go(?:es)? live|live on|post (?:the|each|all|it|them|such))\b|\bwindow\b/i],
+  ["usage", /\b(?:usage|licen[cs]e)\b/i],
+  ["deliverable", new RegExp(`\\b(?:deliver\\w*|submit\\w*|drafts?|content|due)\\b|\\b(?:${DELIVERABLE_KINDS})\\b`, "i")],
+  ["term", /\bterm\b|commenc|effective|expir|terminat/i],
+];
+
+// Who a kind falls on when the sentence doesn't say.
+const DEFAULT_PARTY: Record<Kind, string> = {
+  deliverable: "Creator",
+  posting: "Creator",
+  invoice: "Creator",
+  payment: "Brand",
+  exclusivity: "Creator",
+  usage: "Brand",
+  term: "Both",
+};
+
+// Tie-break for items on the same day.
+const ORDER: Record<Kind, number> = { term: 0, deliverable: 1, posting: 2, invoice: 3, payment: 4, usage: 5, exclusivity: 6 };
+
+const CREATOR = /^(?:creator|influencer|talent|contractor)$/i;
+// A party named as the subject of a duty: "Creator shall", "the Brand will".
+const DUTY = /\b(creator|influencer|talent|contractor|brand|company|client|advertiser|sponsor)\b[^.;]{0,60}?\b(?:shall|will|must|agrees? to|is required to)\b/i;
+
+const START_WORDS = /\b(?:commenc\w*|start\w*|begin\w*|effective|from)\s*(?:on\s*)?$/i;
+const END_WORDS = /\b(?:end\w*|expir\w*|terminat\w*|through|until|to|ending)\s*(?:on\s*)?$/i;
+const WINDOW = /\bbetween\b|\bwindow\b|\bfrom\b[^.;]*\b(?:to|until|through)\b/i;
+
+function party(sentence: string, kind: Kind): string {
+  const m = sentence.match(DUTY);
+  if (!m) return DEFAULT_PARTY[kind];
+  return CREATOR.test(m[1]) ? "Creator" : "Brand";
+}
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function duration(months: number): string {
+  return months < 1 ? plural(Math.round(months * 30), "day") : plural(months, "month");
+}
+
+function title(kind: Kind, sentence: string, date: string, isEnd: boolean, isStart: boolean, terms: StructuredTerms): string {
+  switch (kind) {
+    case "deliverable": {
+      const due = terms.deliverables.filter((d) => d.due === date);
+      return due.length
+        ? `Deliver ${due.map((d) => `${d.count} × ${[d.platform, d.format].filter(Boolean).join(" ")}`).join(", ")}`
+        : "Deliverables due";
+    }
+    case "posting":
+      return WINDOW.test(sentence) ? "Posting window" : "Content goes live";
+    case "invoice":
+      return "Send invoice";
+    case "payment":
+      return "Payment due";
+    case "exclusivity":
+      return isStart ? "Exclusivity starts" : "Exclusivity ends";
+    case "usage":
+      return isStart ? "Usage rights start" : "Usage rights end";
+    case "term":
+      return isEnd ? "Term ends" : isStart ? "Term starts" : "Contract date";
+  }
+}
+
+/** Dated obligations from the contract text and its structured terms, soonest first. */
+export function extractObligations(text: string, terms: StructuredTerms): Obligation[] {
+  const out: Obligation[] = [];
+  const add = (o: Obligation) => {
+    if (!out.some((x) => x.kind === o.kind && x.date === o.date)) out.push(o);
+  };
+
+  for (const section of splitIntoSections(text)) {
+    // Keep the heading out of the first sentence; it's reported as the clause instead.
+    const [first, ...rest] = section.text.trim().split("\n");
+    const heading = rest.length && first.trim().length <= 80 ? first.trim() : undefined;
+    for (const sentence of sentences(heading ? rest.join("\n") : section.text)) {
+      const dates = parseDates(sentence);
+      if (!dates.length) continue;
+      const kind = KINDS.find(([, re]) => re.test(sentence))?.[0];
+      if (!kind) continue;
+
+      const base = { kind, party: party(sentence, kind), clause: heading, quote: sentence };
+      if (dates.length >= 2 && WINDOW.test(sentence)) {
+        add({ ...base, title: title(kind, sentence, dates[0].value, false, false, terms), date: dates[0].value, until: dates[1].value });
+        continue;
+      }
+      for (const d of dates) {
+        const before = sentence.slice(0, sentence.indexOf(d.match));
+        add({ ...base, title: title(kind, sentence, d.value, END_WORDS.test(before), START_WORDS.test(before), terms), date: d.value });
+      }
+    }
+  }
+
+  // Deadlines stated relative to other dates.
+  const { term, usage, payment } = terms;
+  // "After the final post" counts from the last due date or posting window, whichever is later.
+  const lastPost = [...terms.deliverables.map((d) => d.due), ...out.filter((o) => o.kind === "posting").map((o) => o.until ?? o.date)]
+    .filter((d): d is string => !!d)
+    .sort()
+    .at(-1);
+
+  if (term.start && !out.some((o) => o.kind === "term" && o.date === term.start)) {
+    add({ kind: "term", title: "Term starts", date: term.start, party: "Both" });
+  }
+  if (term.end && !out.some((o) => o.kind === "term" && o.date === term.end)) {
+    add({ kind: "term", title: "Term ends", date: term.end, party: "Both", basis: term.start && term.months !== undefined ? `${duration(term.months)} from the start date` : undefined });
+  }
+
+  const exclusivityMonths = usage.exclusivity?.months;
+  if (exclusivityMonths !== undefined && !out.some((o) => o.kind === "exclusivity")) {
+    const anchor = lastPost ?? term.start;
+    if (anchor) {
+      add({
+        kind: "exclusivity",
+        title: "Exclusivity ends",
+        date: addMonths(anchor, exclusivityMonths),
+        party: "Creator",
+        basis: `${duration(exclusivityMonths)} after the ${lastPost ? "last posting date" : "start date"}`,
+      });
+    }
+  }
+
+  if (usage.months !== undefined && !usage.perpetual && term.start && !out.some((o) => o.kind === "usage")) {
+    add({ kind: "usage", title: "Usage rights end", date: addMonths(term.start, usage.months), party: "Brand", basis: `${duration(usage.months)} from the start date` });
+  }
+
+  for (const installment of payment.schedule) {
+    // "within 30 days of the final post" or "upon signing".
+    const m = installment.due.match(/^(?:within\s+(\d+)\s+(?:business\s+)?days?\s+(?:of|after|following)|(?:up)?on)\s+(.+)/i);
+    if (!m) continue;
+    const [anchor, from] =
+      /sign|execut|effective/i.test(m[2]) ? [term.start, "start date"] :
+      /post|deliver|publish|live|complet/i.test(m[2]) ? [lastPost, "last posting date"] :
+      [undefined, ""];
+    if (!anchor) continue;
+    add({
+      kind: "payment",
+      title: installment.percent !== undefined ? `${installment.percent}% payment due` : "Payment due",
+      date: addDays(anchor, Number(m[1] ?? 0)),
+      party: "Brand",
+      basis: `${installment.due}, counted from the ${from}`,
+    });
+  }
+
+  return out.sort((a, b) => a.date.localeCompare(b.date) || ORDER[a.kind] - ORDER[b.kind]);
+}
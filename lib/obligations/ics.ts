@@ -0,0 +1,77 @@
+// -----------------------------
+// iCalendar export (RFC 5545)
+// -----------------------------
+// One all-day event per obligation. Deliverable, posting and invoicing deadlines
+// carry a reminder two days ahead, since missed posting windows are the breach we
+// see most and a late invoice can lose the payment.
+
+import { createHash } from "crypto";
+import type { Obligation } from "@/lib/review/schema";
+
+const REMIND: Obligation["kind"][] = ["deliverable", "posting", "invoice"];
+
+// TEXT values escape backslashes, semicolons, commas and newlines.
+const escape = (s: string) => s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Content lines are folded at 75 octets; continuation lines start with a space.
+function fold(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start ? 74 : 75), bytes.length);
+    // Don't split a multi-byte character.
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString("utf8"));
+    start = end;
+  }
+  return parts.join("\r\n ");
+}
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+
+function nextDay(iso: string): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+export function renderIcs(obligations: Obligation[], source: string, now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AI Contract Review//Obligations//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escape(`${source} obligations`)}`,
+  ];
+  for (const o of obligations) {
+    // Stable across exports, so re-importing updates events instead of duplicating them.
+    const uid = createHash("sha256").update(`${source}|${o.kind}|${o.date}|${o.title}`).digest("hex").slice(0, 24);
+    const description = [
+      `Responsible: ${o.party}`,
+      o.clause && `Clause: ${o.clause}`,
+      o.quote && `"${o.quote}"`,
+      o.basis && `Estimated: ${o.basis}`,
+    ].filter(Boolean).join("\n");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uid}@contract-review`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(o.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(o.until ?? o.date))}`,
+      `SUMMARY:${escape(`${o.title} (${o.party})`)}`,
+      `DESCRIPTION:${escape(description)}`,
+      `CATEGORIES:${o.kind.toUpperCase()}`,
+      "TRANSP:TRANSPARENT",
+    );
+    if (REMIND.includes(o.kind)) {
+      lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${escape(o.title)}`, "TRIGGER:-P2D", "END:VALARM");
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
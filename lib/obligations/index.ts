@@ -0,0 +1,26 @@
+import { fileBaseName } from "@/lib/report/model";
+import type { Obligation } from "@/lib/review/schema";
+import { renderCsv } from "./csv";
+import { renderIcs } from "./ics";
+
+export { extractObligations } from "./extract";
+
+export const OBLIGATION_FORMATS = ["ics", "csv"] as const;
+export type ObligationFormat = (typeof OBLIGATION_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ObligationFormat, string> = {
+  ics: "text/calendar; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+export type RenderedObligations = {
+  body: Uint8Array;
+  contentType: string;
+  filename: string;
+};
+
+export function renderObligations(obligations: Obligation[], format: ObligationFormat, filename?: string): RenderedObligations {
+  const base = fileBaseName(filename);
+  const text = format === "ics" ? renderIcs(obligations, base) : renderCsv(obligations);
+  return { body: new TextEncoder().encode(text), contentType: CONTENT_TYPES[format], filename: `${base}_Obligations.${format}` };
+}
@@ -0,0 +1,192 @@
+// -----------------------------
+// Deterministic playbook checks
+// -----------------------------
+// Each standard position is checked against the snapshot and the contract's
+// own sentences, independently of what the model flagged. Failing positions
+// become risks and counters; positions we can't evaluate are reported as unknown.
+
+import { locateQuote } from "@/lib/review/citations";
+import { dedupeKey } from "@/lib/review/merge";
+import { LANGUAGE_NAMES, type Citation, type Language, type Money, type PolicyCheck, type ReviewFindings, type Risk, type Snapshot } from "@/lib/review/schema";
+import { ratePerDeliverable } from "@/lib/review/structured";
+import { durationsInMonths, formatMoney, paymentDays, readsTermsIn, sentences, type Found } from "@/lib/review/terms";
+import type { Playbook, Positions } from "./schema";
+
+export type PolicyViolation = {
+  risk: Risk;
+  counter: string;
+  // Verbatim sentence from the contract, when the finding came from the text.
+  quote?: string;
+};
+
+type Check = { check: PolicyCheck; violation?: PolicyViolation };
+
+// Worst value across the contract's sentences, falling back to the snapshot string.
+function worst<T>(all: string[], context: RegExp, fallback: string, find: (s: string) => Found<T>[], rank: (v: T) => number) {
+  let best: (Found<T> & { sentence?: string }) | null = null;
+  const consider = (s: string, sentence?: string) => {
+    for (const f of find(s)) if (!best || rank(f.value) > rank(best.value)) best = { ...f, sentence };
+  };
+  for (const s of all) if (context.test(s)) consider(s, s);
+  if (!best && fallback) consider(fallback);
+  return best as (Found<T> & { sentence?: string }) | null;
+}
+
+function months(n: number): string {
+  if (n === Infinity) return "perpetual";
+  return n % 12 === 0 ? `${n / 12} year${n === 12 ? "" : "s"}` : `${n} month${n === 1 ? "" : "s"}`;
+}
+
+// The durations, payment windows and rates are read with the English term parsers.
+function unreadable(rule: PolicyCheck["rule"], position: string, language: Language): Check | null {
+  if (readsTermsIn(language)) return null;
+  return { check: { rule, position, status: "unknown", found: `Not read from ${LANGUAGE_NAMES[language]} contracts` } };
+}
+
+function checkUsage(max: number, snapshot: Snapshot, all: string[], language: Language): Check {
+  const position = `Usage rights for at most ${months(max)}`;
+  const skipped = unreadable("usage", position, language);
+  if (skipped) return skipped;
+  const found = worst(all, /\b(?:usage|use|licen[cs]e|rights?|perpetu)/i, snapshot.usage, durationsInMonths, (v) => v);
+  if (!found) return { check: { rule: "usage", position, status: "unknown" } };
+  const check: PolicyCheck = { rule: "usage", position, status: found.value <= max ? "pass" : "fail", found: `${months(found.value)} ("${found.match}")` };
+  if (check.status === "pass") return { check };
+  return {
+    check,
+    violation: {
+      risk: {
+        label: found.value === Infinity ? "Perpetual usage against playbook" : `Usage beyond ${months(max)}`,
+        level: found.value === Infinity || found.value >= max * 2 ? "High" : "Med",
+        note: `Playbook caps usage at ${months(max)}; the contract grants ${months(found.value)}.`,
+      },
+      counter: `Limit usage rights to ${months(max)} from first posting; further use needs a paid extension.`,
+      quote: found.sentence,
+    },
+  };
+}
+
+function checkPayment(days: number, snapshot: Snapshot, all: string[], language: Language): Check {
+  const position = `Payment within ${days} days of invoice (net-${days})`;
+  const skipped = unreadable("payment", position, language);
+  if (skipped) return skipped;
+  const fallback = [snapshot.billing, snapshot.rate].filter(Boolean).join(" ");
+  const found = worst(all, /\b(?:invoice|payment|paid|pay|net[\s-]?\d)/i, fallback, paymentDays, (v) => v);
+  if (!found) return { check: { rule: "payment", position, status: "unknown" } };
+  const check: PolicyCheck = { rule: "payment", position, status: found.value <= days ? "pass" : "fail", found: `${found.value} days ("${found.match}")` };
+  if (check.status === "pass") return { check };
+  return {
+    check,
+    violation: {
+      risk: {
+        label: `Payment slower than net-${days}`,
+        level: found.value >= days * 2 ? "High" : "Med",
+        note: `Playbook requires payment within ${days} days; the contract allows ${found.value}.`,
+      },
+      counter: `Require payment within ${days} days of invoice (net-${days}).`,
+      quote: found.sentence,
+    },
+  };
+}
+
+function checkExclusivity(banned: string[], snapshot: Snapshot, all: string[]): Check {
+  const position = `No exclusivity covering ${banned.map((b) => `"${b}"`).join(", ")}`;
+  const clauses = all.filter((s) => /exclusiv/i.test(s));
+  if (!clauses.length && /exclusiv/i.test(snapshot.usage)) clauses.push(snapshot.usage);
+  if (!clauses.length) return { check: { rule: "exclusivity", position, status: "pass", found: "No exclusivity clause" } };
+
+  for (const sentence of clauses) {
+    const lower = sentence.toLowerCase();
+    const hit = banned.find((b) => lower.includes(b.toLowerCase().replace(/\s+/g, " ")));
+    if (!hit) continue;
+    return {
+      check: { rule: "exclusivity", position, status: "fail", found: `"${hit}"` },
+      violation: {
+        risk: {
+          label: "Exclusivity scope not allowed",
+          level: "High",
+          note: `Playbook never accepts exclusivity covering "${hit}".`,
+        },
+        counter: `Narrow exclusivity to directly competing products for a fixed window; we don't accept "${hit}".`,
+        quote: all.includes(sentence) ? sentence : undefined,
+      },
+    };
+  }
+  return { check: { rule: "exclusivity", position, status: "pass" } };
+}
+
+function checkRate(min: Money, snapshot: Snapshot, all: string[], language: Language): Check {
+  const position = `At least ${formatMoney(min)} per deliverable`;
+  const skipped = unreadable("rate", position, language);
+  if (skipped) return skipped;
+  const found = ratePerDeliverable(snapshot, all);
+  if (!found) return { check: { rule: "rate", position, status: "unknown" } };
+  if (found.rate.currency !== min.currency) {
+    return { check: { rule: "rate", position, status: "unknown", found: `Paid in ${found.rate.currency} ("${found.match}")` } };
+  }
+  const check: PolicyCheck = {
+    rule: "rate",
+    position,
+    status: found.rate.amount >= min.amount ? "pass" : "fail",
+    found: `${formatMoney(found.rate)} per deliverable ("${found.match}"${found.count > 1 ? `, ${found.count} deliverables` : ""})`,
+  };
+  if (check.status === "pass") return { check };
+  const total = found.count > 1 ? ` (${formatMoney({ ...min, amount: min.amount * found.count })} for ${found.count} deliverables)` : "";
+  return {
+    check,
+    violation: {
+      risk: {
+        label: "Rate below playbook minimum",
+        level: found.rate.amount < min.amount / 2 ? "High" : "Med",
+        note: `Works out to ${formatMoney(found.rate)} per deliverable; our minimum is ${formatMoney(min)}.`,
+      },
+      counter: `Raise the fee to at least ${formatMoney(min)} per deliverable${total}.`,
+      quote: found.sentence,
+    },
+  };
+}
+
+export function checkPositions(positions: Positions, snapshot: Snapshot, text: string, language: Language = "en"): Check[] {
+  const all = sentences(text);
+  const checks: Check[] = [];
+  if (positions.maxUsageMonths) checks.push(checkUsage(positions.maxUsageMonths, snapshot, all, language));
+  if (positions.paymentTermsDays) checks.push(checkPayment(positions.paymentTermsDays, snapshot, all, language));
+  if (positions.bannedExclusivity.length) checks.push(checkExclusivity(positions.bannedExclusivity, snapshot, all));
+  if (positions.minRatePerDeliverable) checks.push(checkRate(positions.minRatePerDeliverable, snapshot, all, language));
+  return checks;
+}
+
+/**
+ * Runs the playbook's checks and adds each violation to the findings as a risk
+ * and counter, cited to the sentence it came from. Risks the model already
+ * raised under the same label aren't duplicated.
+ */
+export function applyPlaybook(
+  findings: ReviewFindings,
+  text: string,
+  playbook: Playbook,
+  language: Language = "en"
+): { findings: ReviewFindings; policy: PolicyCheck[] } {
+  const checks = checkPositions(playbook.positions, findings.snapshot, text, language);
+  const risks = [...findings.risks];
+  const counters = [...findings.counters];
+  const citations: Citation[] = [...findings.citations];
+  const known = new Set(risks.map((r) => dedupeKey(r.label)));
+
+  for (const { violation } of checks) {
+    if (!violation || known.has(dedupeKey(violation.risk.label))) continue;
+    known.add(dedupeKey(violation.risk.label));
+    risks.push({ ...violation.risk, source: "playbook" });
+    counters.push(violation.counter);
+    const span = violation.quote ? locateQuote(text, violation.quote) : null;
+    if (span) {
+      const quote = text.slice(span.start, span.end);
+      citations.push({ target: `risks.${risks.length - 1}`, quote, ...span });
+      citations.push({ target: `counters.${counters.length - 1}`, quote, ...span });
+    }
+  }
+
+  return {
+    findings: { ...findings, risks, counters, citations: citations.sort((a, b) => a.start - b.start) },
+    policy: checks.map((c) => c.check),
+  };
+}
@@ -0,0 +1,4 @@
+export { applyPlaybook, checkPositions, type PolicyViolation } from "./checks";
+export { getPlaybook, loadPlaybooks, parsePlaybook, playbooksDir, PlaybookError, type PlaybookLoad } from "./load";
+export { playbookPrompt } from "./prompt";
+export { PlaybookSchema, PLAYBOOK_EXTENSIONS, type Playbook, type PlaybookSummary, type Positions } from "./schema";
@@ -0,0 +1,77 @@
+// -----------------------------
+// Playbook loading
+// -----------------------------
+// Playbooks are read from PLAYBOOKS_DIR (default ./playbooks) on every call, so
+// edits take effect without a restart. Invalid files are reported, not loaded.
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { formatIssues } from "@/lib/review/schema";
+import { PLAYBOOK_EXTENSIONS, PlaybookSchema, type Playbook } from "./schema";
+
+export class PlaybookError extends Error {
+  constructor(message: string, readonly file: string) {
+    super(`${file}: ${message}`);
+    this.name = "PlaybookError";
+  }
+}
+
+export function playbooksDir(): string {
+  return process.env.PLAYBOOKS_DIR || path.join(process.cwd(), "playbooks");
+}
+
+/** Parses and validates one playbook file's contents. Throws PlaybookError. */
+export function parsePlaybook(source: string, file: string): Playbook {
+  const ext = path.extname(file).toLowerCase();
+  let data: unknown;
+  try {
+    data = ext === ".json" ? JSON.parse(source) : parseYaml(source);
+  } catch (err) {
+    throw new PlaybookError(`not valid ${ext === ".json" ? "JSON" : "YAML"} (${err instanceof Error ? err.message : err})`, file);
+  }
+  const parsed = PlaybookSchema.safeParse(data);
+  if (!parsed.success) throw new PlaybookError(`invalid playbook:\n${formatIssues(parsed.error)}`, file);
+
+  const playbook = parsed.data;
+  const id = playbook.id ?? path.basename(file, ext);
+  const digest = createHash("sha256").update(JSON.stringify(playbook)).digest("hex");
+  return { ...playbook, id, digest, file };
+}
+
+export type PlaybookLoad = {
+  playbooks: Playbook[];
+  errors: { file: string; message: string }[];
+};
+
+export async function loadPlaybooks(): Promise<PlaybookLoad> {
+  const dir = playbooksDir();
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { playbooks: [], errors: [] };
+    throw err;
+  }
+
+  const out: PlaybookLoad = { playbooks: [], errors: [] };
+  for (const name of names.sort()) {
+    if (!PLAYBOOK_EXTENSIONS.includes(path.extname(name).toLowerCase())) continue;
+    try {
+      const playbook = parsePlaybook(await fs.readFile(path.join(dir, name), "utf8"), name);
+      if (out.playbooks.some((p) => p.id === playbook.id)) throw new PlaybookError(`duplicate id "${playbook.id}"`, name);
+      out.playbooks.push(playbook);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error("playbook rejected", message);
+      out.errors.push({ file: name, message });
+    }
+  }
+  return out;
+}
+
+export async function getPlaybook(id: string): Promise<Playbook | null> {
+  const { playbooks } = await loadPlaybooks();
+  return playbooks.find((p) => p.id === id) ?? null;
+}
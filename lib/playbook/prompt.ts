@@ -0,0 +1,19 @@
+import { formatMoney } from "@/lib/review/terms";
+import type { Playbook } from "./schema";
+
+/** The playbook as system-prompt text, appended to the review instructions. */
+export function playbookPrompt(playbook: Playbook): string {
+  const { positions } = playbook;
+  const lines: string[] = [];
+  if (positions.maxUsageMonths) lines.push(`- Usage rights: at most ${positions.maxUsageMonths} months. Longer or perpetual usage is a risk.`);
+  if (positions.paymentTermsDays) lines.push(`- Payment: within ${positions.paymentTermsDays} days of invoice (net-${positions.paymentTermsDays}) or faster.`);
+  if (positions.bannedExclusivity.length) {
+    lines.push(`- Exclusivity: never accept scope covering ${positions.bannedExclusivity.map((b) => `"${b}"`).join(", ")}.`);
+  }
+  if (positions.minRatePerDeliverable) lines.push(`- Rate: at least ${formatMoney(positions.minRatePerDeliverable)} per deliverable.`);
+  if (playbook.neverCounter.length) lines.push(`- Never suggest counters about: ${playbook.neverCounter.join(", ")}.`);
+  for (const line of playbook.instructions) lines.push(`- ${line}`);
+  if (!lines.length) return "";
+  return `Team playbook "${playbook.name}". Our standard positions:\n${lines.join("\n")}\n` +
+    `Flag every term that falls short of a position as a risk, and write counters that move the contract to our position.`;
+}
@@ -0,0 +1,48 @@
+// -----------------------------
+// Deal playbook schema
+// -----------------------------
+// A playbook is a team's standard positions, written as JSON or YAML under
+// PLAYBOOKS_DIR. Unknown keys are rejected so a typo can't silently disable a rule.
+
+import { z } from "zod";
+
+export const PLAYBOOK_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+const phrase = z.string().trim().min(2);
+
+export const PositionsSchema = z.object({
+  // Longest usage/licence window we accept, in months.
+  maxUsageMonths: z.number().positive().optional(),
+  // Slowest payment we accept, in days after invoice (30 = net-30).
+  paymentTermsDays: z.number().int().positive().optional(),
+  // Exclusivity wording we never accept, matched case-insensitively ("all competitors", "worldwide").
+  bannedExclusivity: z.array(phrase).default([]),
+  minRatePerDeliverable: z.object({
+    amount: z.number().positive(),
+    currency: z.string().trim().toUpperCase().length(3).default("USD"),
+  }).strict().optional(),
+}).strict();
+
+export const PlaybookSchema = z.object({
+  // Defaults to the file name without extension.
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, "use letters, digits, - and _").optional(),
+  name: z.string().trim().min(1),
+  description: z.string().trim().optional(),
+  positions: PositionsSchema.default({}),
+  // Topics we never counter on; matching counters are dropped ("late fee").
+  neverCounter: z.array(phrase).default([]),
+  // Extra policy lines passed to the model verbatim.
+  instructions: z.array(z.string().trim().min(1)).default([]),
+}).strict();
+
+export type Positions = z.output<typeof PositionsSchema>;
+
+export type Playbook = z.output<typeof PlaybookSchema> & {
+  id: string;
+  // sha256 of the validated playbook; part of the review cache key.
+  digest: string;
+  file: string;
+};
+
+/** What the upload form needs to offer a playbook. */
+export type PlaybookSummary = Pick<Playbook, "id" | "name" | "description" | "positions">;
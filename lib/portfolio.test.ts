@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parsePortfolioQuery, portfolioSearchParams, queryPortfolio, renderPortfolioCsv } from "./portfolio";
+import type { ReviewSummary } from "./store/reviews";
+
+const row = (r: Partial<ReviewSummary> & Pick<ReviewSummary, "id">): ReviewSummary => ({
+  hash: r.id,
+  parties: "",
+  rate: "",
+  term: "",
+  highestRisk: null,
+  risks: 0,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  ...r,
+});
+
+const ROWS = [
+  row({ id: "a", filename: "glow.pdf", parties: "Glow Co / Ana", fee: { amount: 5000, currency: "USD" }, highestRisk: "High", risks: 3, createdAt: "2026-03-01T00:00:00.000Z" }),
+  row({ id: "b", filename: "snacks.docx", parties: "Sunny Snacks / Priya", highestRisk: "Low", risks: 1, createdAt: "2026-02-01T00:00:00.000Z" }),
+  row({ id: "c", parties: "Audio Inc / Sam", fee: { amount: 1200, currency: "USD" }, createdAt: "2026-04-01T00:00:00.000Z" }),
+];
+
+describe("queryPortfolio", () => {
+  it("lists newest first by default", () => {
+    expect(queryPortfolio(ROWS, {}).map((r) => r.id)).toEqual(["c", "a", "b"]);
+  });
+
+  it("sorts ascending by other columns and puts missing values last", () => {
+    expect(queryPortfolio(ROWS, { sort: "fee" }).map((r) => r.id)).toEqual(["c", "a", "b"]);
+    expect(queryPortfolio(ROWS, { sort: "fee", order: "desc" }).map((r) => r.id)).toEqual(["a", "c", "b"]);
+  });
+
+  it("filters by text and risk", () => {
+    expect(queryPortfolio(ROWS, { q: "snacks" }).map((r) => r.id)).toEqual(["b"]);
+    expect(queryPortfolio(ROWS, { risk: "none" }).map((r) => r.id)).toEqual(["c"]);
+    expect(queryPortfolio(ROWS, { risk: "High" }).map((r) => r.id)).toEqual(["a"]);
+  });
+});
+
+describe("portfolio query params", () => {
+  it("round-trips and ignores unknown values", () => {
+    const query = parsePortfolioQuery(new URLSearchParams("q=glow&risk=High&sort=fee&order=desc"));
+    expect(query).toEqual({ q: "glow", risk: "High", sort: "fee", order: "desc" });
+    expect(parsePortfolioQuery(portfolioSearchParams(query))).toEqual(query);
+    expect(parsePortfolioQuery(new URLSearchParams("risk=extreme&sort=color"))).toEqual({});
+  });
+});
+
+describe("renderPortfolioCsv", () => {
+  it("writes a header and one line per review", () => {
+    const lines = renderPortfolioCsv(ROWS).trim().split(/\r?\n/);
+    expect(lines[0]).toMatch(/^File,Parties,Rate,Fee,/);
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toMatch(/^Pasted text,/);
+  });
+});
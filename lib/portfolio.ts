@@ -0,0 +1,85 @@
+// -----------------------------
+// Portfolio view of saved reviews
+// -----------------------------
+// Filtering, sorting and CSV export for the dashboard. Shared by the page and
+// /api/reviews?format=csv so the export matches what's on screen.
+
+import { renderCsvTable, type CsvColumns } from "@/lib/csv";
+import { REVIEW_STATUS_LABELS, RISK_LEVELS, type RiskLevel } from "@/lib/review/schema";
+import type { ReviewSummary } from "@/lib/store/reviews";
+
+export const PORTFOLIO_SORTS = ["createdAt", "filename", "parties", "fee", "term", "risk"] as const;
+export type PortfolioSort = (typeof PORTFOLIO_SORTS)[number];
+
+export type PortfolioQuery = {
+  // Case-insensitive match on file name, parties, rate and term.
+  q?: string;
+  // "none": reviews without any risks.
+  risk?: RiskLevel | "none";
+  sort?: PortfolioSort;
+  order?: "asc" | "desc";
+};
+
+export function parsePortfolioQuery(params: URLSearchParams): PortfolioQuery {
+  const risk = params.get("risk");
+  const sort = params.get("sort");
+  return {
+    q: params.get("q")?.trim() || undefined,
+    risk: risk === "none" || (RISK_LEVELS as readonly string[]).includes(risk ?? "") ? (risk as RiskLevel | "none") : undefined,
+    sort: (PORTFOLIO_SORTS as readonly string[]).includes(sort ?? "") ? (sort as PortfolioSort) : undefined,
+    order: params.get("order") === "asc" ? "asc" : params.get("order") === "desc" ? "desc" : undefined,
+  };
+}
+
+export function portfolioSearchParams(query: PortfolioQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) if (v) params.set(k, v);
+  return params;
+}
+
+// Missing values sort last in either direction.
+const KEYS: Record<PortfolioSort, (r: ReviewSummary) => string | number | undefined> = {
+  createdAt: (r) => r.createdAt,
+  filename: (r) => r.filename?.toLowerCase(),
+  parties: (r) => r.parties.toLowerCase() || undefined,
+  fee: (r) => r.fee?.amount,
+  term: (r) => r.termMonths,
+  risk: (r) => (r.highestRisk ? RISK_LEVELS.indexOf(r.highestRisk) : -1),
+};
+
+/** Newest first unless the query says otherwise. */
+export function queryPortfolio(rows: ReviewSummary[], query: PortfolioQuery): ReviewSummary[] {
+  const q = query.q?.toLowerCase();
+  const key = KEYS[query.sort ?? "createdAt"];
+  const dir = (query.order ?? (query.sort && query.sort !== "createdAt" ? "asc" : "desc")) === "asc" ? 1 : -1;
+  return rows
+    .filter((r) => !q || [r.filename, r.parties, r.rate, r.term].some((v) => v?.toLowerCase().includes(q)))
+    .filter((r) => !query.risk || (query.risk === "none" ? r.highestRisk === null : r.highestRisk === query.risk))
+    .sort((a, b) => {
+      const x = key(a);
+      const y = key(b);
+      if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+      return (x < y ? -1 : x > y ? 1 : 0) * dir;
+    });
+}
+
+const COLUMNS: CsvColumns<ReviewSummary> = [
+  ["File", (r) => r.filename || "Pasted text"],
+  ["Parties", (r) => r.parties],
+  ["Rate", (r) => r.rate],
+  ["Fee", (r) => (r.fee ? String(r.fee.amount) : undefined)],
+  ["Currency", (r) => r.fee?.currency],
+  ["Term", (r) => r.term],
+  ["Term (months)", (r) => (r.termMonths === undefined ? undefined : String(r.termMonths))],
+  ["Highest risk", (r) => r.highestRisk ?? "None"],
+  ["Risks", (r) => String(r.risks)],
+  ["Playbook", (r) => r.playbook],
+  ["Status", (r) => REVIEW_STATUS_LABELS[r.status ?? "draft"]],
+  ["Reviewer", (r) => r.reviewer],
+  ["Reviewed", (r) => r.createdAt],
+  ["Review ID", (r) => r.id],
+];
+
+export function renderPortfolioCsv(rows: ReviewSummary[]): string {
+  return renderCsvTable(COLUMNS, rows);
+}
@@ -0,0 +1,107 @@
+// -----------------------------
+// Sensitive-data detectors
+// -----------------------------
+// Regex detectors for the entities we never send to a model. Contextual ones
+// ("Routing number: 021000021") only redact the value, not the label, so the
+// model still knows what kind of detail the clause contains.
+
+import type { RedactionEntity } from "@/lib/review/schema";
+
+export type Detection = { entity: RedactionEntity; start: number; end: number };
+
+type Detector = {
+  re: RegExp;
+  // Capture group holding the value; 0 redacts the whole match.
+  group?: number;
+  valid?: (value: string) => boolean;
+};
+
+const digits = (s: string) => s.replace(/\D/g, "");
+
+// Credit card checksum.
+function luhn(value: string): boolean {
+  const d = digits(value);
+  if (d.length < 13 || d.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < d.length; i++) {
+    let n = Number(d[d.length - 1 - i]);
+    if (i % 2 === 1) n = n * 2 > 9 ? n * 2 - 9 : n * 2;
+    sum += n;
+  }
+  return sum % 10 === 0;
+}
+
+// IBAN mod-97 check.
+function ibanValid(value: string): boolean {
+  const s = value.replace(/\s/g, "").toUpperCase();
+  const rearranged = s.slice(4) + s.slice(0, 4);
+  let rem = 0;
+  for (const ch of rearranged) {
+    const code = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const c of code) rem = (rem * 10 + Number(c)) % 97;
+  }
+  return rem === 1;
+}
+
+const STREET_TYPES =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Parkway|Pkwy|Highway|Hwy|Circle|Cir|Terrace|Ter|Square|Sq";
+
+const DETECTORS: Record<RedactionEntity, Detector[]> = {
+  email: [{ re: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g }],
+  phone: [
+    { re: /(?<![\w$.,])(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?![\d])/g },
+    { re: /(?<![\w$])\+\d{1,3}(?:[\s.-]?\(?\d{1,4}\)?){2,5}(?!\d)/g, valid: (v) => digits(v).length >= 8 },
+  ],
+  ssn: [{ re: /(?<![\d-])\d{3}-\d{2}-\d{4}(?![\d-])/g }],
+  tax_id: [
+    // EIN
+    { re: /(?<![\d-])\d{2}-\d{7}(?![\d-])/g },
+    { re: /\b(?:tax\s+(?:id|identification)(?:\s+(?:number|no\.?))?|TIN|EIN|VAT(?:\s+(?:number|no\.?|id))?|ABN|GST\s+(?:number|no\.?))\s*[:#]?\s*([A-Z]{0,2}[0-9][0-9A-Z -]{5,18}[0-9A-Z])/gi, group: 1 },
+  ],
+  bank_account: [
+    { re: /\b(?:account|acct\.?)\s*(?:number|no\.?|#)\s*[:#]?\s*([0-9][0-9 -]{4,20}[0-9])/gi, group: 1 },
+  ],
+  routing_number: [
+    { re: /\b(?:routing|ABA|RTN|transit|sort\s+code|BSB)(?:\s+(?:number|no\.?|code))?\s*[:#]?\s*(\d{9}|\d{2}-\d{2}-\d{2}|\d{3}-\d{3})\b/gi, group: 1 },
+  ],
+  iban: [{ re: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?\b/g, valid: ibanValid }],
+  swift: [{ re: /\b(?:SWIFT|BIC)(?:\s*(?:\/\s*BIC|code|number))?\s*[:#]?\s*([A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?)\b/g, group: 1 }],
+  card: [{ re: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, valid: luhn }],
+  address: [
+    {
+      re: new RegExp(
+        `\\b\\d{1,6}\\s+(?:[A-Z][A-Za-z0-9.'-]*\\s+){1,4}(?:${STREET_TYPES})\\b\\.?` +
+          `(?:,?\\s+(?:Suite|Ste\\.?|Apt\\.?|Unit|Floor|Fl\\.?|#)\\s*[A-Za-z0-9-]+)?` +
+          `(?:,\\s*[A-Z][A-Za-z.'-]*(?:\\s+[A-Z][A-Za-z.'-]*){0,3})?` +
+          `(?:,?\\s+[A-Z]{2}\\s+\\d{5}(?:-\\d{4})?)?`,
+        "g"
+      ),
+    },
+    { re: /\bP\.?\s?O\.?\s+Box\s+\d+\b/gi },
+  ],
+};
+
+/** Every detection for the given entities, in order, with overlaps resolved to the longer match. */
+export function detect(text: string, entities: readonly RedactionEntity[]): Detection[] {
+  const found: Detection[] = [];
+  for (const entity of entities) {
+    for (const { re, group = 0, valid } of DETECTORS[entity]) {
+      for (const m of text.matchAll(re)) {
+        const value = m[group];
+        if (!value || (valid && !valid(value))) continue;
+        const start = m.index! + (group ? m[0].indexOf(value) : 0);
+        found.push({ entity, start, end: start + value.length });
+      }
+    }
+  }
+  const out: Detection[] = [];
+  for (const d of found.sort((a, b) => a.start - b.start || b.end - a.end)) {
+    const last = out[out.length - 1];
+    if (last && d.start < last.end) {
+      if (d.end - d.start > last.end - last.start) out[out.length - 1] = d;
+      continue;
+    }
+    out.push(d);
+  }
+  return out;
+}
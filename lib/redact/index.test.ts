@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { redact } from "./index";
+
+const TEXT = "Send invoices to ap@brand.com or call +1 (415) 555-0142. Questions: ap@brand.com.";
+
+describe("redact", () => {
+  it("replaces each value with a stable placeholder", () => {
+    const r = redact(TEXT, ["email", "phone"]);
+    expect(r.text).not.toContain("ap@brand.com");
+    expect(r.text).not.toContain("555-0142");
+    expect(r.text.match(/\[EMAIL_1\]/g)).toHaveLength(2);
+    expect(r.report.total).toBe(3);
+    expect(r.report.items.find((i) => i.entity === "email")).toMatchObject({ placeholder: "[EMAIL_1]", count: 2 });
+  });
+
+  it("round-trips through restore and mask", () => {
+    const r = redact(TEXT, ["email", "phone"]);
+    expect(r.restore(r.text)).toBe(TEXT);
+    expect(r.mask("Questions: ap@brand.com.")).toBe("Questions: [EMAIL_1].");
+  });
+
+  it("maps masked offsets back to the original text", () => {
+    const r = redact(TEXT, ["email", "phone"]);
+    const at = r.text.indexOf("Questions");
+    expect(r.toOriginal(at, "start")).toBe(TEXT.indexOf("Questions"));
+    const inside = r.text.indexOf("[EMAIL_1]") + 2;
+    expect(r.toOriginal(inside, "start")).toBe(TEXT.indexOf("ap@brand.com"));
+    expect(r.toOriginal(inside, "end")).toBe(TEXT.indexOf("ap@brand.com") + "ap@brand.com".length);
+  });
+
+  it("leaves entities it wasn't asked for alone", () => {
+    const r = redact(TEXT, ["phone"]);
+    expect(r.text).toContain("ap@brand.com");
+    expect(r.text).toContain("[PHONE_1]");
+  });
+});
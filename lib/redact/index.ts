@@ -0,0 +1,125 @@
+// -----------------------------
+// Redaction before the model
+// -----------------------------
+// Sensitive values are swapped for placeholders like [EMAIL_1] before any text
+// goes to a provider. The same value always gets the same placeholder within a
+// document, so the model can still tell two accounts apart. Everything the
+// model sends back is restored, and offsets are mapped back to the original.
+
+import { REDACTION_ENTITIES, type RedactionEntity, type RedactionReport, type ReviewFindings } from "@/lib/review/schema";
+import { detect } from "./detectors";
+
+export function isRedactionEntity(value: string): value is RedactionEntity {
+  return (REDACTION_ENTITIES as readonly string[]).includes(value);
+}
+
+/** REDACT_ENTITIES (comma-separated, or "none"); every entity when unset. */
+export function redactionEntities(): RedactionEntity[] {
+  const raw = process.env.REDACT_ENTITIES?.trim().toLowerCase();
+  if (!raw) return [...REDACTION_ENTITIES];
+  if (raw === "none") return [];
+  const names = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  const unknown = names.filter((n) => !isRedactionEntity(n));
+  if (unknown.length) console.error(`REDACT_ENTITIES: ignoring unknown entities ${unknown.join(", ")}`);
+  return names.filter(isRedactionEntity);
+}
+
+type Span = {
+  entity: RedactionEntity;
+  placeholder: string;
+  // [start, end) in the original text and in the masked text.
+  start: number;
+  end: number;
+  maskedStart: number;
+  maskedEnd: number;
+};
+
+export type Redaction = {
+  /** Text with every detected value replaced by its placeholder. */
+  text: string;
+  report: RedactionReport;
+  /** Placeholders back to their values. */
+  restore(s: string): string;
+  /** Known values to their placeholders, for text that came from the original (quotes). */
+  mask(s: string): string;
+  /** Maps an offset in the masked text to the original; offsets inside a placeholder snap to its start or end. */
+  toOriginal(offset: number, bias: "start" | "end"): number;
+};
+
+export function redact(text: string, entities: readonly RedactionEntity[] = redactionEntities()): Redaction {
+  const values = new Map<string, string>(); // value → placeholder
+  const placeholders = new Map<string, string>(); // placeholder → value
+  const counters = new Map<RedactionEntity, number>();
+  const spans: Span[] = [];
+
+  let masked = "";
+  let pos = 0;
+  for (const d of detect(text, entities)) {
+    const value = text.slice(d.start, d.end);
+    let placeholder = values.get(value);
+    if (!placeholder) {
+      const n = (counters.get(d.entity) ?? 0) + 1;
+      counters.set(d.entity, n);
+      placeholder = `[${d.entity.toUpperCase()}_${n}]`;
+      values.set(value, placeholder);
+      placeholders.set(placeholder, value);
+    }
+    masked += text.slice(pos, d.start);
+    spans.push({ entity: d.entity, placeholder, start: d.start, end: d.end, maskedStart: masked.length, maskedEnd: masked.length + placeholder.length });
+    masked += placeholder;
+    pos = d.end;
+  }
+  masked += text.slice(pos);
+
+  const counts = new Map<string, { entity: RedactionEntity; placeholder: string; count: number }>();
+  for (const s of spans) {
+    const item = counts.get(s.placeholder) ?? { entity: s.entity, placeholder: s.placeholder, count: 0 };
+    item.count++;
+    counts.set(s.placeholder, item);
+  }
+
+  // Longest first, so "[EMAIL_1]" never eats the start of "[EMAIL_10]" and a value never splits a longer one.
+  const byPlaceholder = [...placeholders.keys()].sort((a, b) => b.length - a.length);
+  const byValue = [...values.keys()].sort((a, b) => b.length - a.length);
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const placeholderRe = byPlaceholder.length ? new RegExp(byPlaceholder.map(escape).join("|"), "g") : null;
+  const valueRe = byValue.length ? new RegExp(byValue.map(escape).join("|"), "g") : null;
+
+  return {
+    text: masked,
+    report: {
+      entities: [...entities],
+      total: spans.length,
+      items: [...counts.values()],
+    },
+    restore: (s) => (placeholderRe ? s.replace(placeholderRe, (p) => placeholders.get(p) ?? p) : s),
+    mask: (s) => (valueRe ? s.replace(valueRe, (v) => values.get(v) ?? v) : s),
+    toOriginal(offset, bias) {
+      let delta = 0;
+      for (const s of spans) {
+        if (offset <= s.maskedStart) break;
+        if (offset < s.maskedEnd) return bias === "start" ? s.start : s.end;
+        delta = s.end - s.maskedEnd;
+      }
+      return offset + delta;
+    },
+  };
+}
+
+/** Findings from masked text, with values restored and citations pointing into the original. */
+export function restoreFindings(findings: ReviewFindings, redaction: Redaction, original: string): ReviewFindings {
+  const restore = redaction.restore;
+  const snapshot = Object.fromEntries(
+    Object.entries(findings.snapshot).map(([k, v]) => [k, typeof v === "string" ? restore(v) : v])
+  ) as ReviewFindings["snapshot"];
+  return {
+    snapshot,
+    risks: findings.risks.map((r) => ({ ...r, label: restore(r.label), note: r.note && restore(r.note) })),
+    counters: findings.counters.map(restore),
+    citations: findings.citations.map((c) => {
+      const start = redaction.toOriginal(c.start, "start");
+      const end = redaction.toOriginal(c.end, "end");
+      return { ...c, start, end, quote: original.slice(start, end) };
+    }),
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { diffWords } from "./diff";
+
+describe("diffWords", () => {
+  it("only marks the words that changed", () => {
+    expect(diffWords("Usage rights granted in perpetuity.", "Usage rights granted for 12 months.")).toEqual([
+      { type: "equal", text: "Usage rights granted " },
+      { type: "delete", text: "in perpetuity." },
+      { type: "insert", text: "for 12 months." },
+    ]);
+  });
+
+  it("replaces texts too long to diff wholesale", () => {
+    const long = "word ".repeat(2000);
+    expect(diffWords(long, `${long}more`)).toEqual([
+      { type: "delete", text: long },
+      { type: "insert", text: `${long}more` },
+    ]);
+  });
+});
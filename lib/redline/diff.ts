@@ -0,0 +1,49 @@
+// -----------------------------
+// Word-level diff
+// -----------------------------
+// Used both for the on-screen redline and for tracked changes in the DOCX, so
+// an edit that only changes "in perpetuity" doesn't strike out the whole clause.
+
+export type DiffOp = { type: "equal" | "insert" | "delete"; text: string };
+
+// The LCS table has one cell per pair of tokens; past this many, texts are only
+// replaced wholesale rather than diffed.
+export const MAX_DIFF_CELLS = 2_000_000;
+
+// Words plus the whitespace that follows them, so joining tokens restores the text exactly.
+function tokenize(s: string): string[] {
+  return s.match(/\s+|[^\s]+\s*/g) ?? [];
+}
+
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    const replaced: DiffOp[] = [{ type: "delete", text: before }, { type: "insert", text: after }];
+    return replaced.filter((op) => op.text);
+  }
+  // Classic LCS table; clauses are short, so O(n·m) is fine.
+  const dp: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      dp[i][j] = a[i].trim() === b[j].trim() ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (type: DiffOp["type"], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last?.type === type) last.text += text;
+    else ops.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) { push("equal", a[i]); i++; j++; }
+    else if (dp[i + 1][j] >= dp[i][j + 1]) push("delete", a[i++]);
+    else push("insert", b[j++]);
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+  return ops;
+}
@@ -0,0 +1,89 @@
+// -----------------------------
+// Redlined DOCX export
+// -----------------------------
+// The extracted contract text with each accepted edit written as a Word
+// tracked change (w:ins / w:del), so the brand can accept or reject it in Word.
+
+import { DeletedTextRun, Document, HeadingLevel, InsertedTextRun, Packer, PageBreak, Paragraph, TextRun, type ParagraphChild } from "docx";
+import { BRAND, fileBaseName } from "@/lib/report/model";
+import type { RedlineEdit } from "@/lib/review/schema";
+import { diffWords, type DiffOp } from "./diff";
+
+export type RedlineMeta = {
+  filename?: string;
+  author?: string;
+  date?: Date;
+};
+
+/** Flattens the text and edits into a single op stream covering the whole document. */
+function documentOps(text: string, edits: RedlineEdit[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let pos = 0;
+  for (const e of [...edits].sort((a, b) => a.start - b.start)) {
+    if (e.start < pos) continue; // overlapping edits are dropped upstream; be defensive
+    if (e.start > pos) ops.push({ type: "equal", text: text.slice(pos, e.start) });
+    ops.push(...diffWords(text.slice(e.start, e.end), e.replacement));
+    pos = e.end;
+  }
+  if (pos < text.length) ops.push({ type: "equal", text: text.slice(pos) });
+  return ops;
+}
+
+function paragraphsFromOps(ops: DiffOp[], author: string, date: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let runs: ParagraphChild[] = [];
+  let changeId = 1;
+
+  const run = (type: DiffOp["type"], text: string) => {
+    if (!text) return;
+    if (type === "equal") runs.push(new TextRun(text));
+    else if (type === "insert") runs.push(new InsertedTextRun({ id: changeId++, author, date, text }));
+    else runs.push(new DeletedTextRun({ id: changeId++, author, date, text }));
+  };
+
+  for (const op of ops) {
+    const lines = op.text.split("\n");
+    lines.forEach((line, i) => {
+      if (i > 0) {
+        paragraphs.push(new Paragraph({ children: runs }));
+        runs = [];
+      }
+      run(op.type, line.replace(/\r$/, ""));
+    });
+  }
+  paragraphs.push(new Paragraph({ children: runs }));
+  return paragraphs;
+}
+
+export async function renderRedlineDocx(text: string, edits: RedlineEdit[], meta: RedlineMeta = {}): Promise<Buffer> {
+  const author = meta.author || BRAND.name;
+  const date = (meta.date ?? new Date()).toISOString();
+  const source = meta.filename?.trim() || "Pasted text";
+
+  const notes = edits.map((e, i) => new Paragraph({
+    spacing: { after: 120 },
+    children: [
+      new TextRun({ text: `${i + 1}. `, bold: true }),
+      new TextRun({ text: e.rationale }),
+    ],
+  }));
+
+  const doc = new Document({
+    creator: author,
+    title: `Proposed redlines — ${source}`,
+    features: { trackRevisions: true },
+    sections: [{
+      children: [
+        ...paragraphsFromOps(documentOps(text, edits), author, date),
+        new Paragraph({ children: [new PageBreak()] }),
+        new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Notes on proposed changes")] }),
+        ...notes,
+      ],
+    }],
+  });
+  return Packer.toBuffer(doc);
+}
+
+export function redlineFilename(meta: RedlineMeta): string {
+  return `${fileBaseName(meta.filename)}_Redline.docx`;
+}
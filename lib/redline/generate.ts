@@ -0,0 +1,84 @@
+// -----------------------------
+// Counter → clause edit generation
+// -----------------------------
+
+import type { LLMProvider } from "@/lib/llm";
+import { CHUNK_CHARS } from "@/lib/review/analyze";
+import { locateQuote } from "@/lib/review/citations";
+import { describeSchema, ModelRedlineSchema, ModelRedlinesSchema, type RedlineEdit } from "@/lib/review/schema";
+
+export type CounterInput = {
+  index: number;
+  text: string;
+  // Verified quotes the review already linked to this counter, if any.
+  quotes: string[];
+};
+
+export const REDLINE_SYSTEM_PROMPT = `You draft contract redlines for creators negotiating brand deals. Return STRICT JSON only:
+${describeSchema(ModelRedlinesSchema)}
+Each edit's "counter" is the [index] of the counter it implements.
+"original" must be copied VERBATIM from the contract text — the smallest complete sentence or clause that needs to change.
+"replacement" is the full wording that should replace it, in the contract's own style and defined terms.
+"rationale" is one sentence a brand's legal team would accept.
+Skip a counter if no existing clause can be edited to implement it. Do NOT propose late fees.`;
+
+const EXCERPT_CONTEXT = 1500;
+
+// Long contracts: send the neighbourhood of every cited clause instead of the whole text.
+function contractExcerpt(text: string, counters: CounterInput[]): string {
+  if (text.length <= CHUNK_CHARS) return text;
+  const spans = counters
+    .flatMap((c) => c.quotes.map((q) => locateQuote(text, q)))
+    .filter((s): s is NonNullable<typeof s> => s !== null)
+    .map((s) => ({ start: Math.max(0, s.start - EXCERPT_CONTEXT), end: Math.min(text.length, s.end + EXCERPT_CONTEXT) }))
+    .sort((a, b) => a.start - b.start);
+  if (!spans.length) return text.slice(0, CHUNK_CHARS);
+  const merged: { start: number; end: number }[] = [];
+  for (const s of spans) {
+    const last = merged[merged.length - 1];
+    if (last && s.start <= last.end) last.end = Math.max(last.end, s.end);
+    else merged.push({ ...s });
+  }
+  return merged.map((s) => text.slice(s.start, s.end)).join("\n[…]\n").slice(0, CHUNK_CHARS);
+}
+
+function redlinePrompt(text: string, counters: CounterInput[]): string {
+  const list = counters
+    .map((c) => [`[${c.index}] ${c.text}`, ...c.quotes.map((q) => `    Cited: ${JSON.stringify(q)}`)].join("\n"))
+    .join("\n");
+  return `Counters to turn into edits:\n${list}\n\nContract text:\n\n${contractExcerpt(text, counters)}`;
+}
+
+/** Asks the model for one edit per counter and keeps only edits whose original wording is really in the text. */
+export async function generateRedlines(provider: LLMProvider, text: string, counters: CounterInput[]): Promise<RedlineEdit[]> {
+  if (!counters.length) return [];
+  const content = await provider.completeJSON({
+    task: "redline",
+    system: REDLINE_SYSTEM_PROMPT,
+    user: redlinePrompt(text, counters),
+  });
+
+  let data: unknown;
+  try { data = JSON.parse(content); } catch { data = {}; }
+  const raw = (data as { edits?: unknown })?.edits;
+  const wanted = new Set(counters.map((c) => c.index));
+
+  const located = (Array.isArray(raw) ? raw : []).flatMap((e): RedlineEdit[] => {
+    const parsed = ModelRedlineSchema.safeParse(e);
+    if (!parsed.success || !wanted.has(parsed.data.counter)) return [];
+    const span = locateQuote(text, parsed.data.original);
+    if (!span) return [];
+    const original = text.slice(span.start, span.end);
+    if (original.trim() === parsed.data.replacement.trim()) return [];
+    return [{ ...parsed.data, original, id: `edit-${parsed.data.counter}-${span.start}`, ...span }];
+  });
+
+  // Overlapping edits can't both be applied; keep the earliest.
+  const out: RedlineEdit[] = [];
+  for (const e of located.sort((a, b) => a.start - b.start || a.counter - b.counter)) {
+    const last = out[out.length - 1];
+    if (last && e.start < last.end) continue;
+    out.push(e);
+  }
+  return out;
+}
@@ -0,0 +1,3 @@
+export { diffWords, type DiffOp } from "./diff";
+export { generateRedlines, type CounterInput } from "./generate";
+export { redlineFilename, renderRedlineDocx, type RedlineMeta } from "./docx";
@@ -0,0 +1,95 @@
+// -----------------------------
+// DOCX report
+// -----------------------------
+
+import {
+  AlignmentType, BorderStyle, Document, Footer, HeadingLevel, Packer, PageNumber, Paragraph,
+  ShadingType, Table, TableCell, TableRow, TextRun, WidthType,
+} from "docx";
+import { BRAND, RISK_COLORS, type ReportModel } from "./model";
+
+const bare = (color: string) => color.replace("#", "");
+const FONT = "Calibri";
+
+function riskParagraphs(report: ReportModel): Paragraph[] {
+  if (!report.risks.length) return [new Paragraph({ children: [new TextRun({ text: "No risks flagged.", italics: true })] })];
+  return report.risks.flatMap((r) => {
+    const palette = RISK_COLORS[r.level];
+    const label = new Paragraph({
+      spacing: { before: 120 },
+      children: [
+        new TextRun({
+          text: ` ${r.level} `,
+          bold: true,
+          size: 16,
+          color: bare(palette.fg),
+          shading: { type: ShadingType.CLEAR, color: "auto", fill: bare(palette.bg) },
+        }),
+        new TextRun({ text: `  ${r.label}`, bold: true }),
+      ],
+    });
+    return r.note ? [label, new Paragraph({ indent: { left: 360 }, children: [new TextRun({ text: r.note, color: "4B5563" })] })] : [label];
+  });
+}
+
+function snapshotTable(report: ReportModel): Table {
+  const border = { style: BorderStyle.SINGLE, size: 4, color: "E5E7EB" };
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: { top: border, bottom: border, left: border, right: border, insideHorizontal: border, insideVertical: border },
+    rows: report.snapshot.map((row) => new TableRow({
+      children: [
+        new TableCell({
+          width: { size: 28, type: WidthType.PERCENTAGE },
+          shading: { type: ShadingType.CLEAR, color: "auto", fill: "F9FAFB" },
+          children: [new Paragraph({ children: [new TextRun({ text: row.label, bold: true })] })],
+        }),
+        new TableCell({
+          width: { size: 72, type: WidthType.PERCENTAGE },
+          children: row.value.split(/\r?\n/).map((line) => new Paragraph({ children: [new TextRun(line)] })),
+        }),
+      ],
+    })),
+  });
+}
+
+export async function renderDocx(report: ReportModel): Promise<Buffer> {
+  const doc = new Document({
+    creator: BRAND.name,
+    title: `${report.title} — ${report.source}`,
+    styles: { default: { document: { run: { font: FONT, size: 21 } } } },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+              new TextRun({ text: `${BRAND.name} · ${report.source} · Page `, size: 16, color: "6B7280" }),
+              new TextRun({ children: [PageNumber.CURRENT], size: 16, color: "6B7280" }),
+            ],
+          })],
+        }),
+      },
+      children: [
+        new Paragraph({
+          shading: { type: ShadingType.CLEAR, color: "auto", fill: bare(BRAND.accent) },
+          children: [
+            new TextRun({ text: ` ${BRAND.name}`, bold: true, size: 32, color: "FFFFFF" }),
+            new TextRun({ text: `  ${BRAND.tagline}`, size: 18, color: "D1D5DB" }),
+          ],
+        }),
+        new Paragraph({ heading: HeadingLevel.TITLE, spacing: { before: 240 }, children: [new TextRun(report.title)] }),
+        new Paragraph({ children: [new TextRun({ text: `Source: ${report.source}    Date: ${report.date}${report.review ? `    Status: ${report.review}` : ""}`, color: "4B5563", size: 18 })] }),
+        new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Snapshot")] }),
+        snapshotTable(report),
+        new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("What to watch out for")] }),
+        ...riskParagraphs(report),
+        new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Suggested counters")] }),
+        ...(report.counters.length
+          ? report.counters.map((c) => new Paragraph({ bullet: { level: 0 }, children: [new TextRun(c)] }))
+          : [new Paragraph({ children: [new TextRun({ text: "No counters suggested.", italics: true })] })]),
+      ],
+    }],
+  });
+  return Packer.toBuffer(doc);
+}
@@ -0,0 +1,28 @@
+import type { ReviewResult } from "@/lib/review/schema";
+import { renderDocx } from "./docx";
+import { renderMarkdown } from "./markdown";
+import { buildReport, reportFilename, type ReportFormat, type ReportMeta } from "./model";
+import { renderPdf } from "./pdf";
+
+export { REPORT_FORMATS, type ReportFormat, type ReportMeta } from "./model";
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  md: "text/markdown; charset=utf-8",
+};
+
+export type RenderedReport = {
+  body: Uint8Array;
+  contentType: string;
+  filename: string;
+};
+
+export async function renderReport(result: ReviewResult, format: ReportFormat, meta: ReportMeta = {}): Promise<RenderedReport> {
+  const report = buildReport(result, meta);
+  const body =
+    format === "pdf" ? await renderPdf(report) :
+    format === "docx" ? new Uint8Array(await renderDocx(report)) :
+    new TextEncoder().encode(renderMarkdown(report));
+  return { body, contentType: CONTENT_TYPES[format], filename: reportFilename(meta, format) };
+}
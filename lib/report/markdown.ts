@@ -0,0 +1,30 @@
+import { BRAND, type ReportModel } from "./model";
+
+// Keeps table cells on one line and stops stray pipes from breaking the table.
+const cell = (s: string) => s.replace(/\r?\n+/g, " ").replace(/\|/g, "\\|");
+
+export function renderMarkdown(report: ReportModel): string {
+  const lines = [
+    `# ${report.title}`,
+    "",
+    `_${BRAND.name}_ · Source: **${report.source}** · ${report.date}${report.review ? ` · ${report.review}` : ""}`,
+    "",
+    "## Snapshot",
+    "",
+    "| Field | Details |",
+    "| --- | --- |",
+    ...report.snapshot.map((r) => `| ${r.label} | ${cell(r.value)} |`),
+    "",
+    "## What to watch out for",
+    "",
+    ...(report.risks.length
+      ? report.risks.map((r) => `- **[${r.level}] ${r.label}**${r.note ? ` — ${r.note}` : ""}`)
+      : ["_No risks flagged._"]),
+    "",
+    "## Suggested counters",
+    "",
+    ...(report.counters.length ? report.counters.map((c) => `- ${c}`) : ["_No counters suggested._"]),
+    "",
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,67 @@
+// -----------------------------
+// Report model
+// -----------------------------
+// Every export format renders this same structure, so the PDF, DOCX and
+// Markdown reports never disagree about what's in them.
+
+import { REVIEW_STATUS_LABELS, SNAPSHOT_FIELDS, SNAPSHOT_LABELS, type ReviewEdits, type ReviewResult, type RiskLevel } from "@/lib/review/schema";
+
+export const REPORT_FORMATS = ["pdf", "docx", "md"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const BRAND = {
+  name: process.env.REPORT_BRAND_NAME || "AI Contract Review",
+  tagline: "Creator-friendly contract summary",
+  accent: "#111827",
+};
+
+// Same palette as RiskBadge on the Review page.
+export const RISK_COLORS: Record<RiskLevel, { fg: string; bg: string }> = {
+  Low: { fg: "#047857", bg: "#ECFDF5" },
+  Med: { fg: "#B45309", bg: "#FFFBEB" },
+  High: { fg: "#BE123C", bg: "#FFF1F2" },
+};
+
+export type ReportMeta = {
+  filename?: string;
+  generatedAt?: Date;
+  // The edits the result was exported with, for the review status line.
+  edits?: ReviewEdits;
+};
+
+export type ReportModel = {
+  title: string;
+  source: string;
+  date: string;
+  // "Approved · Reviewer: Jane Doe"; only on reviews someone has worked on.
+  review?: string;
+  snapshot: { label: string; value: string }[];
+  risks: ReviewResult["risks"];
+  counters: string[];
+};
+
+const NOT_SPECIFIED = "Not Specified";
+
+export function buildReport(result: ReviewResult, meta: ReportMeta = {}): ReportModel {
+  const date = (meta.generatedAt ?? new Date()).toISOString().slice(0, 10);
+  return {
+    title: "Contract Summary",
+    source: meta.filename?.trim() || "Pasted text",
+    date,
+    review: meta.edits && [REVIEW_STATUS_LABELS[meta.edits.status], meta.edits.reviewer && `Reviewer: ${meta.edits.reviewer}`].filter(Boolean).join(" · "),
+    snapshot: SNAPSHOT_FIELDS.map((f) => ({ label: SNAPSHOT_LABELS[f], value: result.snapshot[f]?.trim() || NOT_SPECIFIED })),
+    // Renderers show one note per risk; the reviewer's follows the AI's.
+    risks: result.risks.map((r) => (r.comment ? { ...r, note: [r.note, `Reviewer: ${r.comment}`].filter(Boolean).join(" ") } : r)),
+    counters: result.counters,
+  };
+}
+
+/** Source file name without extension, safe for a Content-Disposition header. */
+export function fileBaseName(filename?: string): string {
+  return (filename || "Contract").replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_").slice(0, 80) || "Contract";
+}
+
+/** Download name without the original extension, e.g. "Acme_MSA_Summary.pdf". */
+export function reportFilename(meta: ReportMeta, format: ReportFormat): string {
+  return `${fileBaseName(meta.filename)}_Summary.${format}`;
+}
@@ -0,0 +1,175 @@
+// -----------------------------
+// PDF report (pdf-lib, standard fonts)
+// -----------------------------
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+import { BRAND, RISK_COLORS, type ReportModel } from "./model";
+
+const PAGE = { width: 595.28, height: 841.89 }; // A4
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE.width - MARGIN * 2;
+const FOOTER_SPACE = 40;
+
+function hex(color: string): RGB {
+  const n = parseInt(color.slice(1), 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+const GRAY = hex("#4B5563");
+const RULE = hex("#E5E7EB");
+
+// Standard fonts only cover WinAnsi (cp1252); fold everything else to something printable.
+const CP1252_EXTRA = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ");
+function toWinAnsi(text: string): string {
+  let out = "";
+  for (const ch of text.replace(/\t/g, "    ")) {
+    const code = ch.charCodeAt(0);
+    if (ch === "\n" || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || CP1252_EXTRA.has(ch)) {
+      out += ch;
+      continue;
+    }
+    const folded = ch.normalize("NFKD").replace(/[̀-ͯ]/g, "");
+    out += /^[\x20-\x7e]+$/.test(folded) ? folded : "?";
+  }
+  return out;
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of toWinAnsi(text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) { line = candidate; continue; }
+      if (line) lines.push(line);
+      // Break words longer than a whole line (URLs, account numbers).
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > width) {
+        let n = rest.length - 1;
+        while (n > 1 && font.widthOfTextAtSize(rest.slice(0, n), size) > width) n--;
+        lines.push(rest.slice(0, n));
+        rest = rest.slice(n);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+class Writer {
+  page!: PDFPage;
+  y = 0;
+
+  constructor(readonly doc: PDFDocument, readonly regular: PDFFont, readonly bold: PDFFont) {
+    this.newPage();
+  }
+
+  newPage() {
+    this.page = this.doc.addPage([PAGE.width, PAGE.height]);
+    this.y = PAGE.height - MARGIN;
+  }
+
+  ensure(height: number) {
+    if (this.y - height < MARGIN + FOOTER_SPACE) this.newPage();
+  }
+
+  text(text: string, opts: { x?: number; width?: number; size?: number; font?: PDFFont; color?: RGB; gap?: number } = {}) {
+    const { x = MARGIN, width = CONTENT_WIDTH, size = 10, font = this.regular, color = rgb(0, 0, 0), gap = 4 } = opts;
+    const lineHeight = size * 1.35;
+    for (const line of wrap(text, font, size, width)) {
+      this.ensure(lineHeight);
+      this.page.drawText(line, { x, y: this.y - size, size, font, color });
+      this.y -= lineHeight;
+    }
+    this.y -= gap;
+  }
+
+  heading(text: string) {
+    this.ensure(40);
+    this.y -= 10;
+    this.text(text, { size: 13, font: this.bold, gap: 2 });
+    this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: PAGE.width - MARGIN, y: this.y }, thickness: 1, color: RULE });
+    this.y -= 8;
+  }
+}
+
+function drawHeader(w: Writer, report: ReportModel) {
+  const bandHeight = 64;
+  w.page.drawRectangle({ x: 0, y: PAGE.height - bandHeight, width: PAGE.width, height: bandHeight, color: hex(BRAND.accent) });
+  w.page.drawText(toWinAnsi(BRAND.name), { x: MARGIN, y: PAGE.height - 30, size: 16, font: w.bold, color: rgb(1, 1, 1) });
+  w.page.drawText(toWinAnsi(BRAND.tagline), { x: MARGIN, y: PAGE.height - 48, size: 9, font: w.regular, color: hex("#D1D5DB") });
+  w.y = PAGE.height - bandHeight - 24;
+  w.text(report.title, { size: 18, font: w.bold, gap: 2 });
+  w.text(`Source: ${report.source}    Date: ${report.date}${report.review ? `    Status: ${report.review}` : ""}`, { size: 9, color: GRAY, gap: 6 });
+}
+
+function drawSnapshot(w: Writer, report: ReportModel) {
+  w.heading("Snapshot");
+  const labelWidth = 140;
+  const lineHeight = 10 * 1.35;
+  for (const row of report.snapshot) {
+    const labelLines = wrap(row.label, w.bold, 10, labelWidth - 10);
+    const valueLines = wrap(row.value, w.regular, 10, CONTENT_WIDTH - labelWidth);
+    // Keep short rows together; very long values are allowed to flow onto the next page.
+    w.ensure(Math.min(Math.max(labelLines.length, valueLines.length), 4) * lineHeight);
+    const page = w.page;
+    const top = w.y;
+    labelLines.forEach((line, i) => page.drawText(line, { x: MARGIN, y: top - 10 - i * lineHeight, size: 10, font: w.bold }));
+    w.text(row.value, { x: MARGIN + labelWidth, width: CONTENT_WIDTH - labelWidth, gap: 0 });
+    if (w.page === page) w.y = Math.min(w.y, top - labelLines.length * lineHeight);
+    w.y -= 4;
+    w.page.drawLine({ start: { x: MARGIN, y: w.y }, end: { x: PAGE.width - MARGIN, y: w.y }, thickness: 0.5, color: RULE });
+    w.y -= 6;
+  }
+}
+
+function drawRisks(w: Writer, report: ReportModel) {
+  w.heading("What to watch out for");
+  if (!report.risks.length) return w.text("No risks flagged.", { color: GRAY });
+  for (const r of report.risks) {
+    w.ensure(30);
+    const palette = RISK_COLORS[r.level];
+    const badgeWidth = w.bold.widthOfTextAtSize(r.level, 8) + 12;
+    w.page.drawRectangle({
+      x: MARGIN, y: w.y - 12, width: badgeWidth, height: 13,
+      color: hex(palette.bg), borderColor: hex(palette.fg), borderWidth: 0.6,
+    });
+    w.page.drawText(r.level, { x: MARGIN + 6, y: w.y - 9, size: 8, font: w.bold, color: hex(palette.fg) });
+    const x = MARGIN + 50;
+    w.text(r.label, { x, width: CONTENT_WIDTH - 50, font: w.bold, gap: 1 });
+    if (r.note) w.text(r.note, { x, width: CONTENT_WIDTH - 50, color: GRAY, gap: 1 });
+    w.y -= 6;
+  }
+}
+
+function drawCounters(w: Writer, report: ReportModel) {
+  w.heading("Suggested counters");
+  if (!report.counters.length) return w.text("No counters suggested.", { color: GRAY });
+  for (const c of report.counters) {
+    w.ensure(14);
+    w.page.drawText("•", { x: MARGIN + 2, y: w.y - 10, size: 10, font: w.regular });
+    w.text(c, { x: MARGIN + 14, width: CONTENT_WIDTH - 14, gap: 3 });
+  }
+}
+
+export async function renderPdf(report: ReportModel): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${report.title} — ${report.source}`);
+  doc.setCreator(BRAND.name);
+  doc.setProducer(BRAND.name);
+  const w = new Writer(doc, await doc.embedFont(StandardFonts.Helvetica), await doc.embedFont(StandardFonts.HelveticaBold));
+
+  drawHeader(w, report);
+  drawSnapshot(w, report);
+  drawRisks(w, report);
+  drawCounters(w, report);
+
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const footer = toWinAnsi(`${BRAND.name} · ${report.source} · Page ${i + 1} of ${pages.length}`);
+    page.drawText(footer, { x: MARGIN, y: MARGIN / 2, size: 8, font: w.regular, color: GRAY });
+  });
+
+  return doc.save();
+}
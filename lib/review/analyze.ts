@@ -0,0 +1,127 @@
+// -----------------------------
+// Map-reduce contract analysis
+// -----------------------------
+// Short contracts go to the model in one call. Longer ones are split into
+// section-aligned chunks, analyzed separately and merged.
+
+import { reviewContract, type LLMProvider } from "@/lib/llm";
+import { playbookPrompt, type Playbook } from "@/lib/playbook";
+import { splitIntoChunks } from "./chunking";
+import { resolveCitations } from "./citations";
+import { mergeFindings } from "./merge";
+import type { Coverage, Language, ModelReview, ReviewFindings } from "./schema";
+
+export const CHUNK_CHARS = 50000;
+export const MAX_CHUNKS = 8;
+const CONCURRENCY = 3;
+
+export type AnalysisOutcome = {
+  findings: ReviewFindings;
+  // Text the offsets in findings.citations refer to.
+  analyzedText: string;
+  coverage: Coverage;
+  repaired: boolean;
+};
+
+// Late fees are never something we counter on; playbooks can add more topics.
+// Citations point at counters by index, so re-number them when a counter is removed.
+const NEVER_COUNTER = ["late fee"];
+
+function dropCounters(review: ModelReview, topics: string[]) {
+  const keep = review.counters.map((c) => !topics.some((t) => c.toLowerCase().includes(t.toLowerCase())));
+  const newIndex = new Map<number, number>();
+  keep.forEach((k, i) => { if (k) newIndex.set(i, newIndex.size); });
+  review.counters = review.counters.filter((_, i) => keep[i]);
+  review.citations = review.citations.flatMap((c) => {
+    const m = c.target.match(/^counters\.(\d+)$/);
+    if (!m) return [c];
+    const idx = newIndex.get(Number(m[1]));
+    return idx === undefined ? [] : [{ ...c, target: `counters.${idx}` }];
+  });
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>, signal?: AbortSignal): Promise<R[]> {
+  const out = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const i = next++;
+      out[i] = await fn(items[i], i);
+    }
+  });
+  await Promise.all(workers);
+  return out;
+}
+
+/** Playbook plus progress callbacks for streaming clients; all optional. */
+export type AnalyzeOptions = {
+  playbook?: Playbook;
+  // The contract's language; the findings are written in it.
+  language?: Language;
+  signal?: AbortSignal;
+  // Once the text is split, before any model call.
+  onPlan?: (plan: { analyzedText: string; coverage: Coverage }) => void;
+  // As each part comes back, with everything merged so far (citations not yet checked).
+  onPartial?: (findings: ReviewFindings, done: number, total: number) => void;
+  // A part's answer failed schema validation and is being repaired.
+  onRepair?: (index: number) => void;
+  // All parts are back; quotes are being checked against the text and merged.
+  onValidate?: () => void;
+};
+
+export async function analyzeText(provider: LLMProvider, text: string, opts: AnalyzeOptions = {}): Promise<AnalysisOutcome> {
+  const all = splitIntoChunks(text, CHUNK_CHARS);
+  const chunks = all.slice(0, MAX_CHUNKS);
+  const analyzedEnd = chunks[chunks.length - 1]?.end ?? 0;
+  const analyzedText = text.slice(0, analyzedEnd);
+  const totalChars = text.length;
+  const coverage: Coverage = {
+    totalChars,
+    analyzedChars: analyzedEnd,
+    percent: totalChars ? Math.round((analyzedEnd / totalChars) * 1000) / 10 : 100,
+    chunks: chunks.length,
+    chunked: chunks.length > 1,
+    truncated: analyzedEnd < totalChars,
+  };
+  opts.onPlan?.({ analyzedText, coverage });
+  const policy = opts.playbook ? playbookPrompt(opts.playbook) : undefined;
+  const neverCounter = [...NEVER_COUNTER, ...(opts.playbook?.neverCounter ?? [])];
+
+  let repaired = false;
+  const done: (ModelReview | undefined)[] = new Array(chunks.length);
+  const reviews = await mapWithConcurrency(chunks, CONCURRENCY, async (chunk, index) => {
+    const outcome = await reviewContract(provider, chunk.text, { index, total: chunks.length }, {
+      signal: opts.signal,
+      policy,
+      language: opts.language,
+      onRepair: () => opts.onRepair?.(index),
+    });
+    repaired ||= outcome.repaired;
+    dropCounters(outcome.review, neverCounter);
+    done[index] = outcome.review;
+    if (opts.onPartial) {
+      const finished = done.filter((r): r is ModelReview => !!r);
+      opts.onPartial(mergeFindings(finished.map((r) => ({ ...r, citations: [] }))), finished.length, chunks.length);
+    }
+    return outcome.review;
+  }, opts.signal);
+
+  opts.onValidate?.();
+  const parts = reviews.map((review, i) => {
+    const chunk = chunks[i];
+    const citations = resolveCitations(chunk.text, review).map((c) => ({
+      ...c,
+      start: c.start + chunk.start,
+      end: c.end + chunk.start,
+    }));
+    return { ...review, citations };
+  });
+
+  return {
+    findings: mergeFindings(parts),
+    analyzedText,
+    coverage,
+    repaired,
+  };
+}
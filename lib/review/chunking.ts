@@ -0,0 +1,82 @@
+// -----------------------------
+// Section-aware chunking
+// -----------------------------
+// Long agreements are split on headings ("12. Indemnification", "ARTICLE IV",
+// "Exhibit A") so each chunk holds whole clauses wherever possible.
+
+export type Chunk = {
+  text: string;
+  // [start, end) offsets into the source text.
+  start: number;
+  end: number;
+};
+
+const KEYWORD_HEADING = /^\s*(?:article|section|schedule|exhibit|appendix|annex|addendum)\b/i;
+// Numbered ("12. Indemnification", "3.1 Fees"), roman ("iv) Term") or ALL-CAPS lines.
+const SHAPE_HEADING = /^\s*(?:\d{1,2}(?:\.\d{1,2})*[.)]?\s+[A-Z]|\(?[ivxlc]{1,5}[.)]\s+[A-Z]|[A-Z][A-Z0-9 &,'-]{3,60}:?\s*$)/;
+
+function isHeading(line: string): boolean {
+  return KEYWORD_HEADING.test(line) || SHAPE_HEADING.test(line);
+}
+
+/** Offsets where a new section begins (always includes 0). */
+function sectionStarts(text: string): number[] {
+  const starts = [0];
+  let pos = 0;
+  for (const line of text.split("\n")) {
+    if (pos > 0 && isHeading(line)) starts.push(pos);
+    pos += line.length + 1;
+  }
+  return starts;
+}
+
+// Fallback boundaries inside an oversized section: blank lines, then sentence ends.
+function splitOversized(text: string, start: number, end: number, maxChars: number): number[] {
+  const cuts: number[] = [];
+  let from = start;
+  while (end - from > maxChars) {
+    const window = text.slice(from, from + maxChars);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < maxChars / 2) cut = Math.max(window.lastIndexOf(". "), window.lastIndexOf(".\n"));
+    cut = cut < maxChars / 2 ? maxChars : cut + 1;
+    from += cut;
+    cuts.push(from);
+  }
+  return cuts;
+}
+
+/** One chunk per section, without packing; used to line up clauses across versions. */
+export function splitIntoSections(text: string): Chunk[] {
+  const starts = sectionStarts(text);
+  return starts
+    .map((start, i) => {
+      const end = starts[i + 1] ?? text.length;
+      return { text: text.slice(start, end), start, end };
+    })
+    .filter((c) => c.text.trim().length > 0);
+}
+
+/** Packs consecutive sections into chunks of at most maxChars. */
+export function splitIntoChunks(text: string, maxChars: number): Chunk[] {
+  if (text.length <= maxChars) return [{ text, start: 0, end: text.length }];
+
+  const starts = sectionStarts(text);
+  const bounds: number[] = [];
+  starts.forEach((s, i) => {
+    const e = starts[i + 1] ?? text.length;
+    bounds.push(s, ...splitOversized(text, s, e, maxChars));
+  });
+  bounds.push(text.length);
+
+  const chunks: Chunk[] = [];
+  let chunkStart = 0;
+  for (let i = 1; i < bounds.length; i++) {
+    if (bounds[i] - chunkStart > maxChars) {
+      const end = bounds[i - 1];
+      chunks.push({ text: text.slice(chunkStart, end), start: chunkStart, end });
+      chunkStart = end;
+    }
+  }
+  if (chunkStart < text.length) chunks.push({ text: text.slice(chunkStart), start: chunkStart, end: text.length });
+  return chunks.filter((c) => c.text.trim().length > 0);
+}
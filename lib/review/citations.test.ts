@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { locateQuote } from "./citations";
+
+const TEXT = "1. Usage\nBrand may use the Content   in perpetuity, across “all media”.\n2. Payment — Net 60.";
+
+describe("locateQuote", () => {
+  it("finds exact quotes", () => {
+    const span = locateQuote(TEXT, "Payment — Net 60");
+    expect(span && TEXT.slice(span.start, span.end)).toBe("Payment — Net 60");
+  });
+
+  it("ignores whitespace, quote style, dashes and case", () => {
+    const span = locateQuote(TEXT, 'brand may use the content in perpetuity, across "all');
+    expect(span && TEXT.slice(span.start, span.end)).toBe("Brand may use the Content   in perpetuity, across “all");
+    expect(locateQuote(TEXT, "Payment - Net 60")).not.toBeNull();
+  });
+
+  it("strips wrapping quotes and trailing ellipses", () => {
+    const span = locateQuote(TEXT, "“in perpetuity, across…”");
+    expect(span && TEXT.slice(span.start, span.end)).toBe("in perpetuity, across");
+  });
+
+  it("rejects quotes that aren't in the text", () => {
+    expect(locateQuote(TEXT, "exclusive for 12 months")).toBeNull();
+    expect(locateQuote(TEXT, "in")).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+// -----------------------------
+// Citation resolution
+// -----------------------------
+// The model quotes the contract; we only keep quotes we can actually find in
+// rawText, and replace them with character offsets the UI can highlight.
+
+import type { Citation, ModelReview, SnapshotField } from "./schema";
+import { SNAPSHOT_FIELDS } from "./schema";
+
+export type Span = { start: number; end: number };
+
+// Folds the differences PDF/DOCX extraction and models introduce:
+// whitespace runs, curly quotes, dash variants and case.
+function foldChar(ch: string): string {
+  if (/\s/.test(ch)) return " ";
+  if (/[‘’‚′]/.test(ch)) return "'";
+  if (/[“”„″]/.test(ch)) return '"';
+  if (/[‐-―−]/.test(ch)) return "-";
+  return ch.toLowerCase();
+}
+
+type Folded = { text: string; map: number[] };
+
+function fold(input: string): Folded {
+  let text = "";
+  const map: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const ch = foldChar(input[i]);
+    if (ch === " " && text.endsWith(" ")) continue;
+    text += ch;
+    map.push(i);
+  }
+  return { text, map };
+}
+
+/** Finds a quote in the source text, exactly first, then ignoring whitespace, quote style and case. */
+export function locateQuote(source: string, quote: string, folded: Folded = fold(source)): Span | null {
+  const q = quote.trim().replace(/^["'“‘]+|["'”’]+$/g, "").replace(/(?:\.\.\.|…)$/, "").trim();
+  if (q.length < 3) return null;
+
+  const exact = source.indexOf(q);
+  if (exact !== -1) return { start: exact, end: exact + q.length };
+
+  const fq = fold(q).text.trim();
+  const at = folded.text.indexOf(fq);
+  if (at === -1) return null;
+  const start = folded.map[at];
+  const end = folded.map[at + fq.length - 1] + 1;
+  return { start, end };
+}
+
+function isKnownTarget(target: string, review: ModelReview): boolean {
+  const [kind, key, ...rest] = target.split(".");
+  if (rest.length || key === undefined) return false;
+  if (kind === "snapshot") return (SNAPSHOT_FIELDS as readonly string[]).includes(key);
+  const idx = Number(key);
+  if (!Number.isInteger(idx) || idx < 0) return false;
+  if (kind === "risks") return idx < review.risks.length;
+  if (kind === "counters") return idx < review.counters.length;
+  return false;
+}
+
+/** Drops citations whose target doesn't exist or whose quote isn't in the text, and attaches offsets. */
+export function resolveCitations(source: string, review: ModelReview): Citation[] {
+  const folded = fold(source);
+  const seen = new Set<string>();
+  const out: Citation[] = [];
+  for (const c of review.citations) {
+    const target = c.target.trim();
+    if (!isKnownTarget(target, review)) continue;
+    const span = locateQuote(source, c.quote, folded);
+    if (!span) continue;
+    const key = `${target}:${span.start}:${span.end}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ target, quote: source.slice(span.start, span.end), ...span });
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+export function snapshotTarget(field: SnapshotField) {
+  return `snapshot.${field}`;
+}
+
+export function citationsFor(citations: Citation[] | undefined, target: string): Citation[] {
+  return (citations ?? []).filter((c) => c.target === target);
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { applyEdits, correctionStats, countCorrections, editCounter, editRisk, editSnapshotField, emptyEdits, totalCorrections, translatedView } from "./edits";
+import { normalizeResult, ReviewEditsSchema } from "./schema";
+
+const RESULT = normalizeResult({
+  snapshot: { parties: "Acme / Creator", term: "12 months", rate: "$5,000" },
+  risks: [
+    { label: "Perpetual usage", level: "High" },
+    { label: "Net 60 payment", level: "Med" },
+    { label: "No kill fee", level: "Low" },
+  ],
+  counters: ["Cap usage at 12 months", "Ask for Net 30"],
+  citations: [
+    { target: "risks.0", quote: "in perpetuity", start: 0, end: 13 },
+    { target: "risks.2", quote: "no kill fee", start: 20, end: 31 },
+    { target: "counters.1", quote: "Net 60", start: 40, end: 46 },
+    { target: "snapshot.term", quote: "twelve months", start: 50, end: 63 },
+  ],
+});
+
+const EDITS = ReviewEditsSchema.parse({
+  status: "in_review",
+  snapshot: { rate: "$6,000" },
+  risks: [{ index: 0, dismissed: true }, { index: 2, level: "Med", comment: "Brand agreed to 25% by email." }],
+  addedRisks: [{ label: "Morality clause", level: "Med" }],
+  counters: [{ index: 1, text: "Ask for Net 15" }],
+  addedCounters: ["Add a kill fee"],
+});
+
+describe("applyEdits", () => {
+  it("applies snapshot, risk and counter edits and appends the reviewer's findings", () => {
+    const out = applyEdits(RESULT, EDITS);
+    expect(out.snapshot).toMatchObject({ parties: "Acme / Creator", rate: "$6,000" });
+    expect(out.risks.map((r) => [r.label, r.level, r.source])).toEqual([
+      ["Net 60 payment", "Med", undefined],
+      ["No kill fee", "Med", undefined],
+      ["Morality clause", "Med", "reviewer"],
+    ]);
+    expect(out.risks[1].comment).toBe("Brand agreed to 25% by email.");
+    expect(out.counters).toEqual(["Cap usage at 12 months", "Ask for Net 15", "Add a kill fee"]);
+  });
+
+  it("re-points citations and drops those of dismissed items", () => {
+    expect(applyEdits(RESULT, EDITS).citations.map((c) => c.target)).toEqual(["risks.1", "counters.1", "snapshot.term"]);
+  });
+
+  it("leaves the AI output alone and is safe to apply twice", () => {
+    const once = applyEdits({ ...RESULT, edits: EDITS });
+    expect(once.edits).toBeUndefined();
+    expect(applyEdits(once)).toEqual(once);
+    expect(RESULT.risks).toHaveLength(3);
+  });
+});
+
+describe("edit updates", () => {
+  it("drops entries once they no longer change anything", () => {
+    let edits = editRisk(emptyEdits(), 1, { level: "High" });
+    edits = editRisk(edits, 1, { comment: "Check with finance" });
+    expect(edits.risks).toEqual([{ index: 1, level: "High", comment: "Check with finance" }]);
+    edits = editRisk(editRisk(edits, 1, { level: undefined }), 1, { comment: undefined });
+    expect(edits.risks).toEqual([]);
+    expect(editCounter(editCounter(emptyEdits(), 0, { dismissed: true }), 0, { dismissed: undefined }).counters).toEqual([]);
+  });
+
+  it("sets and clears snapshot fields", () => {
+    const edits = editSnapshotField(emptyEdits(), "term", "6 months");
+    expect(applyEdits(RESULT, edits).snapshot.term).toBe("6 months");
+    expect(applyEdits(RESULT, editSnapshotField(edits, "term", undefined)).snapshot.term).toBe("12 months");
+  });
+});
+
+describe("corrections", () => {
+  it("counts changes against the AI output, ignoring edits that restate it", () => {
+    const edits = { ...EDITS, snapshot: { ...EDITS.snapshot, term: "12 months" }, risks: [...EDITS.risks, { index: 1, level: "Med" as const }] };
+    const c = countCorrections(RESULT, edits);
+    expect(c).toEqual({
+      snapshotFields: 1,
+      risksDismissed: 1,
+      risksRelevelled: 1,
+      risksAdded: 1,
+      countersDismissed: 0,
+      countersRewritten: 1,
+      countersAdded: 1,
+    });
+    expect(totalCorrections(c)).toBe(6);
+    expect(totalCorrections(countCorrections(RESULT))).toBe(0);
+  });
+
+  it("summarises corrections across reviews", () => {
+    const stats = correctionStats([
+      { result: RESULT, edits: { ...EDITS, status: "approved", reviewer: "Sam" } },
+      { result: RESULT, edits: emptyEdits() },
+      { result: RESULT },
+    ]);
+    expect(stats).toMatchObject({ reviews: 3, corrected: 1, approved: 1 });
+    expect(stats.totals.risksDismissed).toBe(1);
+    expect(stats.aiItems).toEqual({ snapshotFields: 9, risks: 9, counters: 6 });
+  });
+});
+
+describe("translated reviews", () => {
+  const translated = {
+    ...RESULT,
+    language: { code: "en" as const, confidence: 1 },
+    translation: {
+      language: "es" as const,
+      snapshot: { ...RESULT.snapshot, term: "12 meses" },
+      risks: [{ label: "Uso perpetuo" }, { label: "Pago a 60 días" }, { label: "Sin tarifa de cancelación" }],
+      counters: ["Limitar el uso a 12 meses", "Pedir pago a 30 días"],
+    },
+  };
+
+  it("compares edits made on the translation with the translation", () => {
+    // Restating the translated wording isn't a correction, even though it differs from the original.
+    const edits = { ...emptyEdits(), language: "es" as const, snapshot: { term: "12 meses" }, counters: [{ index: 0, text: "Limitar el uso a 12 meses" }] };
+    expect(totalCorrections(countCorrections(translated, edits))).toBe(0);
+    expect(totalCorrections(countCorrections(translated, { ...edits, language: undefined }))).toBe(2);
+  });
+
+  it("applies them to the translated findings, however the review is passed in", () => {
+    const edits = { ...emptyEdits(), language: "es" as const, risks: [{ index: 0, dismissed: true }] };
+    const out = applyEdits(translated, edits);
+    expect(out.risks.map((r) => r.label)).toEqual(["Pago a 60 días", "Sin tarifa de cancelación"]);
+    expect(applyEdits(translatedView(translated), edits)).toEqual(out);
+    expect(applyEdits(translated, { ...edits, language: "en" }).risks[0].label).toBe("Net 60 payment");
+  });
+});
@@ -0,0 +1,203 @@
+// -----------------------------
+// Reviewer edits
+// -----------------------------
+// The AI output stays as it was saved; a reviewer's corrections are kept beside
+// it (ReviewEdits) and applied here to get the version people read and export.
+// Counting what was changed tells us how often the AI gets overruled.
+// Edits belong to the findings in one language, the contract's or the translation's,
+// and are only ever compared with or applied to those.
+
+import {
+  SNAPSHOT_FIELDS, ReviewEditsSchema, type CounterEdit, type ReviewEdits, type ReviewResult, type Risk, type RiskEdit, type SnapshotField,
+} from "./schema";
+
+export function emptyEdits(): ReviewEdits {
+  return ReviewEditsSchema.parse({});
+}
+
+/** The snapshot, risks and counters in the reader's language; levels, sources and quotes stay as they are. */
+export function translatedView(result: ReviewResult): ReviewResult {
+  const t = result.translation;
+  if (!t) return result;
+  return {
+    ...result,
+    snapshot: t.snapshot,
+    risks: result.risks.map((r, i) => ({ ...r, label: t.risks[i]?.label ?? r.label, note: t.risks[i]?.note ?? r.note })),
+    counters: result.counters.map((c, i) => t.counters[i] ?? c),
+  };
+}
+
+/** The findings `edits` were made on: the translation when they were made in its language, the review as written otherwise. */
+export function editedFindings(result: ReviewResult, edits: ReviewEdits | undefined = result.edits): ReviewResult {
+  return edits?.language && edits.language === result.translation?.language ? translatedView(result) : result;
+}
+
+/** Whether the edits touch any finding, rather than only the status and reviewer. */
+export function hasFindingEdits(edits: ReviewEdits): boolean {
+  return (
+    SNAPSHOT_FIELDS.some((f) => edits.snapshot[f] !== undefined) ||
+    edits.risks.length > 0 || edits.addedRisks.length > 0 || edits.counters.length > 0 || edits.addedCounters.length > 0
+  );
+}
+
+// "risks.3" → "risks.1" once earlier risks are dismissed; null when its item is gone.
+function remapTarget(target: string, riskMap: number[], counterMap: number[]): string | null {
+  const [kind, idx] = target.split(".");
+  const map = kind === "risks" ? riskMap : kind === "counters" ? counterMap : null;
+  if (!map) return target;
+  const to = map[Number(idx)];
+  return to === undefined || to < 0 ? null : `${kind}.${to}`;
+}
+
+/**
+ * The review with `edits` applied: snapshot fields replaced, dismissed risks and counters dropped,
+ * levels and wording changed, the reviewer's risks and counters appended, citations re-pointed.
+ * They're applied to the findings in the language they were made in (editedFindings). The result
+ * comes back without `edits`, so applying twice changes nothing. `translation` is dropped since
+ * its indexes follow the unedited lists.
+ */
+export function applyEdits(source: ReviewResult, edits: ReviewEdits | undefined = source.edits): ReviewResult {
+  if (!edits) return source;
+  const result = editedFindings(source, edits);
+  const riskEdits = new Map(edits.risks.map((e) => [e.index, e]));
+  const counterEdits = new Map(edits.counters.map((e) => [e.index, e]));
+
+  const snapshot = { ...result.snapshot };
+  for (const f of SNAPSHOT_FIELDS) {
+    const value = edits.snapshot[f];
+    if (value !== undefined) snapshot[f] = value;
+  }
+
+  const risks: Risk[] = [];
+  const riskMap = result.risks.map((r, i) => {
+    const e = riskEdits.get(i);
+    if (e?.dismissed) return -1;
+    risks.push({ ...r, level: e?.level ?? r.level, comment: e?.comment || undefined });
+    return risks.length - 1;
+  });
+  for (const r of edits.addedRisks) risks.push({ ...r, source: "reviewer" });
+
+  const counters: string[] = [];
+  const counterMap = result.counters.map((c, i) => {
+    const e = counterEdits.get(i);
+    if (e?.dismissed) return -1;
+    counters.push(e?.text ?? c);
+    return counters.length - 1;
+  });
+  counters.push(...edits.addedCounters);
+
+  const citations = result.citations.flatMap((c) => {
+    const target = remapTarget(c.target, riskMap, counterMap);
+    return target ? [{ ...c, target }] : [];
+  });
+
+  return { ...result, snapshot, risks, counters, citations, translation: undefined, edits: undefined };
+}
+
+// -----------------------------
+// Updates (immutable, for the Review page)
+// -----------------------------
+
+export function editSnapshotField(edits: ReviewEdits, field: SnapshotField, value: string | undefined): ReviewEdits {
+  return { ...edits, snapshot: { ...edits.snapshot, [field]: value } };
+}
+
+// Entries that no longer change anything are dropped, so undoing an edit leaves no trace.
+function upsert<T extends { index: number }>(list: T[], index: number, patch: Partial<T>): T[] {
+  const next = { ...list.find((e) => e.index === index), ...patch, index } as T;
+  const rest = list.filter((e) => e.index !== index);
+  const empty = Object.entries(next as Record<string, unknown>).every(([k, v]) => k === "index" || v === undefined || v === false || v === "");
+  return empty ? rest : [...rest, next].sort((a, b) => a.index - b.index);
+}
+
+export function editRisk(edits: ReviewEdits, index: number, patch: Partial<Omit<RiskEdit, "index">>): ReviewEdits {
+  return { ...edits, risks: upsert<RiskEdit>(edits.risks, index, patch) };
+}
+
+export function editCounter(edits: ReviewEdits, index: number, patch: Partial<Omit<CounterEdit, "index">>): ReviewEdits {
+  return { ...edits, counters: upsert<CounterEdit>(edits.counters, index, patch) };
+}
+
+// -----------------------------
+// Corrections
+// -----------------------------
+
+export type Corrections = {
+  snapshotFields: number;
+  risksDismissed: number;
+  risksRelevelled: number;
+  risksAdded: number;
+  countersDismissed: number;
+  countersRewritten: number;
+  countersAdded: number;
+};
+
+const CORRECTION_KEYS: (keyof Corrections)[] = [
+  "snapshotFields", "risksDismissed", "risksRelevelled", "risksAdded", "countersDismissed", "countersRewritten", "countersAdded",
+];
+
+const noCorrections = () => Object.fromEntries(CORRECTION_KEYS.map((k) => [k, 0])) as Corrections;
+
+/**
+ * What the reviewer changed relative to the AI output, in the language the edits were made in.
+ * Edits that restate the AI's value don't count.
+ */
+export function countCorrections(source: ReviewResult, edits: ReviewEdits | undefined = source.edits): Corrections {
+  const out = noCorrections();
+  if (!edits) return out;
+  const result = editedFindings(source, edits);
+  out.snapshotFields = SNAPSHOT_FIELDS.filter((f) => {
+    const value = edits.snapshot[f];
+    return value !== undefined && value.trim() !== (result.snapshot[f] ?? "").trim();
+  }).length;
+  for (const e of edits.risks) {
+    const risk = result.risks[e.index];
+    if (!risk) continue;
+    if (e.dismissed) out.risksDismissed++;
+    else if (e.level && e.level !== risk.level) out.risksRelevelled++;
+  }
+  for (const e of edits.counters) {
+    const counter = result.counters[e.index];
+    if (counter === undefined) continue;
+    if (e.dismissed) out.countersDismissed++;
+    else if (e.text !== undefined && e.text.trim() !== counter.trim()) out.countersRewritten++;
+  }
+  out.risksAdded = edits.addedRisks.length;
+  out.countersAdded = edits.addedCounters.length;
+  return out;
+}
+
+export function totalCorrections(c: Corrections): number {
+  return CORRECTION_KEYS.reduce((sum, k) => sum + c[k], 0);
+}
+
+export type CorrectionStats = {
+  reviews: number;
+  // Reviews with at least one correction, and reviews marked approved.
+  corrected: number;
+  approved: number;
+  totals: Corrections;
+  // Out of everything the AI produced across the reviews, for rates.
+  aiItems: { snapshotFields: number; risks: number; counters: number };
+};
+
+/** Correction rates across saved reviews; each entry is the AI output and its edits, if any. */
+export function correctionStats(reviews: { result: ReviewResult; edits?: ReviewEdits }[]): CorrectionStats {
+  const stats: CorrectionStats = {
+    reviews: reviews.length,
+    corrected: 0,
+    approved: 0,
+    totals: noCorrections(),
+    aiItems: { snapshotFields: 0, risks: 0, counters: 0 },
+  };
+  for (const { result, edits } of reviews) {
+    const c = countCorrections(result, edits);
+    if (totalCorrections(c) > 0) stats.corrected++;
+    if (edits?.status === "approved") stats.approved++;
+    for (const k of CORRECTION_KEYS) stats.totals[k] += c[k];
+    stats.aiItems.snapshotFields += SNAPSHOT_FIELDS.filter((f) => result.snapshot[f]?.trim()).length;
+    stats.aiItems.risks += result.risks.length;
+    stats.aiItems.counters += result.counters.length;
+  }
+  return stats;
+}
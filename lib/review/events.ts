@@ -0,0 +1,23 @@
+// -----------------------------
+// Review progress events
+// -----------------------------
+// Emitted by the review pipeline and streamed to the browser as Server-Sent
+// Events (`event: <type>`, `data: <json>`). Shared by server and client.
+
+import type { Coverage, Extraction, ReviewFindings, ReviewResult } from "./schema";
+
+export const REVIEW_STAGES = ["extraction", "chunking", "analysis", "validation"] as const;
+
+export type ReviewStage = (typeof REVIEW_STAGES)[number];
+
+export type ReviewEvent =
+  | { type: "stage"; stage: ReviewStage }
+  // The text the final citations will point into, known before any model call.
+  | { type: "plan"; rawText: string; coverage: Coverage; extraction: Extraction }
+  | { type: "partial"; findings: ReviewFindings; done: number; total: number }
+  | { type: "repair"; part: number };
+
+/** What the stream ends with: the saved review, or the error a JSON request would have returned. */
+export type ReviewStreamEnd =
+  | { type: "result"; result: ReviewResult }
+  | { type: "error"; error: string; status: number };
@@ -0,0 +1,95 @@
+// -----------------------------
+// Reduce step for chunked reviews
+// -----------------------------
+
+import { RISK_LEVELS, SNAPSHOT_FIELDS, type Citation, type ReviewFindings, type Risk, type Snapshot } from "./schema";
+
+// Case, punctuation and whitespace-insensitive key used for de-duplication.
+export function dedupeKey(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function mergeSnapshots(snapshots: Snapshot[]): Snapshot {
+  const out: Record<string, string | undefined> = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    const seen = new Set<string>();
+    const values: string[] = [];
+    for (const s of snapshots) {
+      const v = (s[field] ?? "").trim();
+      if (!v || seen.has(dedupeKey(v))) continue;
+      seen.add(dedupeKey(v));
+      values.push(v);
+    }
+    out[field] = values.join("; ");
+  }
+  return {
+    parties: out.parties ?? "",
+    dates: out.dates ?? "",
+    term: out.term ?? "",
+    rate: out.rate ?? "",
+    deliverables: out.deliverables ?? "",
+    usage: out.usage ?? "",
+    brandBrief: out.brandBrief || undefined,
+    additionalReqs: out.additionalReqs || undefined,
+    billing: out.billing || undefined,
+  };
+}
+
+/**
+ * Merges per-chunk findings. Citations must already use offsets into the full text.
+ * Duplicate risks keep the highest level; citation targets are re-indexed.
+ */
+export function mergeFindings(parts: ReviewFindings[]): ReviewFindings {
+  if (parts.length === 1) return parts[0];
+
+  const risks: Risk[] = [];
+  const riskIndex = new Map<string, number>();
+  const counters: string[] = [];
+  const counterIndex = new Map<string, number>();
+  const citations: Citation[] = [];
+  const seenCitations = new Set<string>();
+
+  for (const part of parts) {
+    const riskMap = part.risks.map((r) => {
+      const key = dedupeKey(r.label);
+      const existing = riskIndex.get(key);
+      if (existing === undefined) {
+        riskIndex.set(key, risks.length);
+        risks.push({ ...r });
+        return risks.length - 1;
+      }
+      const kept = risks[existing];
+      if (RISK_LEVELS.indexOf(r.level) > RISK_LEVELS.indexOf(kept.level)) kept.level = r.level;
+      if (!kept.note && r.note) kept.note = r.note;
+      return existing;
+    });
+
+    const counterMap = part.counters.map((c) => {
+      const key = dedupeKey(c);
+      const existing = counterIndex.get(key);
+      if (existing !== undefined) return existing;
+      counterIndex.set(key, counters.length);
+      counters.push(c);
+      return counters.length - 1;
+    });
+
+    for (const c of part.citations) {
+      const [kind, idx] = c.target.split(".");
+      const target =
+        kind === "risks" ? `risks.${riskMap[Number(idx)]}` :
+        kind === "counters" ? `counters.${counterMap[Number(idx)]}` :
+        c.target;
+      const key = `${target}:${c.start}:${c.end}`;
+      if (seenCitations.has(key)) continue;
+      seenCitations.add(key);
+      citations.push({ ...c, target });
+    }
+  }
+
+  return {
+    snapshot: mergeSnapshots(parts.map((p) => p.snapshot)),
+    risks,
+    counters,
+    citations: citations.sort((a, b) => a.start - b.start),
+  };
+}
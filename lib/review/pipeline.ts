@@ -0,0 +1,167 @@
+// -----------------------------
+// Single-document review pipeline
+// -----------------------------
+// Cache lookup → extraction → analysis → rules, playbook and rate benchmark →
+// save → review.completed webhooks. Shared by /api/review and the endpoints that review more than one
+// document per request.
+
+import { applyRateBenchmark, benchmarkRate } from "@/lib/benchmark";
+import { detectLanguage, translateFindings } from "@/lib/language";
+import type { LLMProvider } from "@/lib/llm";
+import { extractObligations } from "@/lib/obligations";
+import { applyPlaybook, type Playbook } from "@/lib/playbook";
+import { redact, redactionEntities, restoreFindings } from "@/lib/redact";
+import { applyRiskRules } from "@/lib/risks";
+import { notifyReviewCompleted } from "@/lib/webhooks";
+import { extractFromFile, extractFromPaste, ExtractionError } from "@/lib/extract";
+import { contentHash, findReviewByHash, saveReview } from "@/lib/store/reviews";
+import { analyzeText, type AnalysisOutcome } from "./analyze";
+import type { ReviewEvent } from "./events";
+import { normalizeSnapshot, type Coverage, type Language, type RedactionEntity, type ReviewResult, type Translation } from "./schema";
+import { extractTerms } from "./structured";
+import { readsTermsIn } from "./terms";
+
+export type { ReviewEvent, ReviewStage } from "./events";
+
+export const MAX_INPUT_BYTES = 15 * 1024 * 1024; // 15MB
+
+export type ReviewSource = { buffer: Buffer; filename: string } | { text: string };
+
+export type ReviewOptions = {
+  // Skip the hash cache and always call the model.
+  force?: boolean;
+  playbook?: Playbook;
+  signal?: AbortSignal;
+  onEvent?: (event: ReviewEvent) => void;
+  // Entities masked before the text goes to the provider; defaults to REDACT_ENTITIES.
+  redact?: RedactionEntity[];
+  // false: leave the history store alone (evaluation runs): nothing is saved, and past deals
+  // aren't read for the rate benchmark either.
+  persist?: boolean;
+  // Language the reader wants; when it isn't the contract's, the findings are translated into it.
+  outputLanguage?: Language;
+};
+
+/** Throws ExtractionError for inputs that can't be turned into readable text. */
+export async function reviewDocument(source: ReviewSource, provider: LLMProvider, opts: ReviewOptions = {}): Promise<ReviewResult> {
+  const hash = contentHash("buffer" in source ? source.buffer : source.text);
+  const filename = "buffer" in source ? source.filename : undefined;
+  const { playbook } = opts;
+  const entities = opts.redact ?? redactionEntities();
+  const variant = { playbook: playbook?.digest, redaction: [...entities].sort().join(","), language: opts.outputLanguage };
+
+  if (!opts.force) {
+    // Another provider or model would write a different review.
+    const previous = await findReviewByHash(hash, { ...variant, provider: { name: provider.name, model: provider.model } }).catch((err) => {
+      console.error("review cache lookup failed", err);
+      return null;
+    });
+    if (previous) return { ...previous.result, edits: previous.edits, cached: true };
+  }
+
+  const emit = opts.onEvent ?? (() => {});
+  emit({ type: "stage", stage: "extraction" });
+  const { text, extraction } = "buffer" in source
+    ? await extractFromFile(source.buffer, source.filename)
+    : extractFromPaste(source.text);
+  if (!text || text.trim().length < 20) {
+    throw new ExtractionError("We couldn't extract readable text. Please export to PDF or DOCX and re-upload.");
+  }
+
+  const language = detectLanguage(text);
+  emit({ type: "stage", stage: "chunking" });
+  // The provider only ever sees the masked text; everything it returns is mapped back onto `text`.
+  const redaction = redact(text, entities);
+  const originalUpTo = (maskedEnd: number) => text.slice(0, redaction.toOriginal(maskedEnd, "end"));
+  const originalCoverage = (c: Coverage): Coverage => {
+    const analyzedChars = redaction.toOriginal(c.analyzedChars, "end");
+    return { ...c, totalChars: text.length, analyzedChars, percent: Math.round((analyzedChars / text.length) * 1000) / 10 };
+  };
+
+  // Set once the text is split, before any model call.
+  let planned = undefined as Pick<AnalysisOutcome, "analyzedText" | "coverage"> | undefined;
+  let analysis: AnalysisOutcome;
+  let modelUnavailable: true | undefined;
+  try {
+    analysis = await analyzeText(provider, redaction.text, {
+      playbook,
+      language: language.code,
+      signal: opts.signal,
+      onPlan: (plan) => {
+        planned = plan;
+        emit({ type: "plan", rawText: originalUpTo(plan.analyzedText.length), coverage: originalCoverage(plan.coverage), extraction });
+        emit({ type: "stage", stage: "analysis" });
+      },
+      onPartial: (partial, done, total) => emit({ type: "partial", findings: restoreFindings(partial, redaction, text), done, total }),
+      onRepair: (part) => emit({ type: "repair", part }),
+      onValidate: () => emit({ type: "stage", stage: "validation" }),
+    });
+  } catch (err) {
+    // No model (down, unconfigured, unparseable): the rule detectors still give a review.
+    if (opts.signal?.aborted || !planned) throw err;
+    console.error("model analysis failed; returning rule-based findings only", err);
+    modelUnavailable = true;
+    analysis = { ...planned, findings: { snapshot: normalizeSnapshot({}), risks: [], counters: [], citations: [] }, repaired: false };
+  }
+  // Nobody is waiting for it any more; don't fill the history with it.
+  opts.signal?.throwIfAborted();
+  const { repaired } = analysis;
+  const analyzedText = originalUpTo(analysis.analyzedText.length);
+  const coverage = originalCoverage(analysis.coverage);
+  const restored = applyRiskRules(restoreFindings(analysis.findings, redaction, text), analyzedText, language.code);
+  const { findings: checked, policy } = playbook
+    ? applyPlaybook(restored, analyzedText, playbook, language.code)
+    : { findings: restored, policy: undefined };
+
+  // Like the risk detectors, the term parsers only read English contracts.
+  const terms = readsTermsIn(language.code) ? extractTerms(checked.snapshot, analyzedText) : undefined;
+  const rateBenchmark = opts.persist === false || !terms
+    ? undefined
+    : await benchmarkRate(terms, { excludeHash: hash }).catch((err) => {
+        console.error("rate benchmark failed", err);
+        return undefined;
+      });
+  const findings = applyRateBenchmark(checked, rateBenchmark);
+
+  let translation: Translation | undefined;
+  if (opts.outputLanguage && opts.outputLanguage !== language.code && !modelUnavailable) {
+    try {
+      translation = await translateFindings(provider, findings, language.code, opts.outputLanguage, { redaction, signal: opts.signal });
+    } catch (err) {
+      // The review stands on its own; the reader still gets it in the contract's language.
+      opts.signal?.throwIfAborted();
+      console.error("translating review failed", err);
+    }
+  }
+
+  const out = {
+    ...findings,
+    rawText: analyzedText,
+    terms,
+    obligations: terms && extractObligations(analyzedText, terms),
+    coverage,
+    extraction,
+    repaired,
+    provider: { name: provider.name, model: provider.model },
+    filename,
+    playbook: playbook && { id: playbook.id, name: playbook.name },
+    policy,
+    redaction: redaction.report,
+    modelUnavailable,
+    language,
+    translation,
+    rateBenchmark,
+  };
+
+  if (opts.persist === false) return { ...out, cached: false };
+  try {
+    const saved = await saveReview({ hash, filename, ...variant, text, result: out });
+    // Deliveries retry in the background; the caller doesn't wait for subscribers.
+    void notifyReviewCompleted(saved.result);
+    return { ...saved.result, cached: false };
+  } catch (err) {
+    // A read-only or full disk shouldn't cost the user their review.
+    console.error("saving review failed", err);
+    return { ...out, cached: false };
+  }
+}
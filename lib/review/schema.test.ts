@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { normalizeResult } from "./schema";
+
+describe("normalizeResult", () => {
+  it("turns null snapshot values into empty strings", () => {
+    const out = normalizeResult({ snapshot: { term: null, rate: null } });
+    expect(out.snapshot).toMatchObject({ term: "", rate: "" });
+  });
+
+  it("fills in a missing snapshot", () => {
+    expect(normalizeResult({ snapshot: {} }).snapshot).toMatchObject({ term: "", rate: "" });
+    expect(normalizeResult(null).snapshot).toMatchObject({ term: "", rate: "" });
+  });
+
+  it("stringifies non-string snapshot values", () => {
+    const out = normalizeResult({ snapshot: { term: 120, rate: true } });
+    expect(out.snapshot).toMatchObject({ term: "120", rate: "true" });
+  });
+
+  it("maps drifting risk levels and drops risks it can't read", () => {
+    const out = normalizeResult({
+      risks: [{ label: "Perpetual usage", level: "Critical" }, { label: "Late payment", level: "medium" }, { level: "low" }, "nonsense"],
+    });
+    expect(out.risks.map((r) => [r.label, r.level])).toEqual([
+      ["Perpetual usage", "High"],
+      ["Late payment", "Med"],
+    ]);
+  });
+
+  it("drops blank counters and malformed citations", () => {
+    const out = normalizeResult({ counters: ["  Cap usage at 12 months ", "", 7], citations: [{ target: "risks.0" }] });
+    expect(out.counters).toEqual(["Cap usage at 12 months", "7"]);
+    expect(out.citations).toEqual([]);
+  });
+});
@@ -0,0 +1,590 @@
+// -----------------------------
+// Review result schema (shared by /api/review and the Review page)
+// -----------------------------
+
+import { z } from "zod";
+
+export const RISK_LEVELS = ["Low", "Med", "High"] as const;
+
+// Robust string cleaner that guarantees a string output.
+export function cleanStr(input: unknown): string {
+  if (typeof input === "string") return input;
+  if (input === null || input === undefined) return "";
+  try { return String(input); } catch { return ""; }
+}
+
+// Models drift on casing and wording ("Medium", "critical"); map them back onto our three levels.
+function toRiskLevel(input: unknown): unknown {
+  const v = cleanStr(input).trim().toLowerCase();
+  if (v === "low" || v === "minor") return "Low";
+  if (v === "med" || v === "medium" || v === "moderate") return "Med";
+  if (v === "high" || v === "critical" || v === "severe") return "High";
+  return input;
+}
+
+const text = z.preprocess(cleanStr, z.string());
+const requiredText = z.preprocess((v) => cleanStr(v).trim(), z.string().min(1));
+const optionalText = z.preprocess((v) => cleanStr(v) || undefined, z.string().optional());
+
+const offset = z.number().int().min(0);
+
+export const RiskLevelSchema = z.preprocess(toRiskLevel, z.enum(RISK_LEVELS));
+
+export const SnapshotSchema = z.object({
+  parties: text,
+  dates: text,
+  term: text,
+  rate: text,
+  deliverables: text,
+  usage: text,
+  brandBrief: optionalText,
+  additionalReqs: optionalText,
+  billing: optionalText,
+});
+
+export const RiskSchema = z.object({
+  label: requiredText,
+  level: RiskLevelSchema,
+  note: optionalText,
+});
+
+// Where a risk came from: the model, a rule detector (lib/risks), a playbook check, the rate
+// benchmark, or a person reviewing the result.
+export const RISK_SOURCES = ["model", "rule", "playbook", "benchmark", "reviewer"] as const;
+
+export const RISK_RULES = [
+  "perpetual-usage",
+  "worldwide-usage",
+  "auto-renewal",
+  "unilateral-termination",
+  "long-payment-terms",
+  "broad-indemnity",
+  "morality-clause",
+  "unpaid-revisions",
+  "uncompensated-exclusivity",
+] as const;
+
+/** A risk in a review. `rule` and `match` are set when a detector found it, including on model risks it confirmed. */
+export const ReviewRiskSchema = RiskSchema.extend({
+  // Set by applyRiskRules (lib/risks) and the steps after it. Findings on their way there (model
+  // output per chunk, streamed partials, playbook violations) don't have one yet; read that as "model".
+  source: z.enum(RISK_SOURCES).optional(),
+  rule: z.enum(RISK_RULES).optional(),
+  // The contract sentence the detector matched, verbatim.
+  match: optionalText,
+  // The reviewer's note; only set on the edited view (lib/review/edits).
+  comment: optionalText,
+});
+
+export const SNAPSHOT_FIELDS = Object.keys(SnapshotSchema.shape) as (keyof typeof SnapshotSchema.shape)[];
+
+export const SNAPSHOT_LABELS: Record<(typeof SNAPSHOT_FIELDS)[number], string> = {
+  parties: "Parties",
+  dates: "Dates",
+  term: "Term",
+  rate: "Rate",
+  deliverables: "Deliverables",
+  usage: "Usage & Exclusivity",
+  brandBrief: "Brand Brief",
+  additionalReqs: "Additional Requirements",
+  billing: "Billing",
+};
+
+// target is "snapshot.<field>", "risks.<index>" or "counters.<index>".
+export const QuoteSchema = z.object({
+  target: requiredText,
+  quote: requiredText,
+});
+
+/** A quote that was found in rawText, with its [start, end) character offsets. */
+export const CitationSchema = QuoteSchema.extend({
+  start: offset,
+  end: offset,
+});
+
+/** What the model is asked to return. */
+export const ModelReviewSchema = z.object({
+  snapshot: SnapshotSchema,
+  risks: z.array(RiskSchema),
+  counters: z.array(requiredText),
+  citations: z.array(QuoteSchema).default([]),
+});
+
+/** How much of the extracted text the model actually saw. */
+export const CoverageSchema = z.object({
+  totalChars: offset,
+  analyzedChars: offset,
+  percent: z.number().min(0).max(100),
+  chunks: z.number().int().min(1),
+  chunked: z.boolean(),
+  truncated: z.boolean(),
+});
+
+export const PageReportSchema = z.object({
+  page: z.number().int().min(1),
+  method: z.enum(["text", "ocr"]),
+  confidence: z.number().min(0).max(1),
+  chars: offset,
+});
+
+export const DOCUMENT_FORMATS = ["pdf", "docx", "doc", "rtf", "html", "text"] as const;
+
+// Used for the upload input's accept list; the server detects the real format from the bytes.
+export const ACCEPTED_EXTENSIONS = [".pdf", ".docx", ".doc", ".rtf", ".txt", ".md", ".html", ".htm"];
+
+/** How the text was obtained; pages is empty for non-PDF sources. */
+export const ExtractionSchema = z.object({
+  format: z.enum(DOCUMENT_FORMATS),
+  source: z.enum(["upload", "paste"]),
+  method: z.enum(["text", "ocr", "mixed"]),
+  pages: z.array(PageReportSchema),
+});
+
+// -----------------------------
+// Structured terms
+// -----------------------------
+// Parsed from the snapshot and the contract text alongside the free-text
+// snapshot strings, so amounts and dates can be sorted, totalled and checked.
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const MoneySchema = z.object({
+  amount: z.number().min(0),
+  // ISO 4217 code.
+  currency: z.string().length(3),
+});
+
+export const InstallmentSchema = z.object({
+  amount: MoneySchema.optional(),
+  percent: z.number().min(0).max(100).optional(),
+  // When it's due, as written: "upon signing", "within 30 days of posting".
+  due: requiredText,
+});
+
+export const PaymentTermsSchema = z.object({
+  total: MoneySchema.optional(),
+  perDeliverable: MoneySchema.optional(),
+  // Days after invoice (net-N).
+  netDays: z.number().int().min(0).optional(),
+  schedule: z.array(InstallmentSchema).default([]),
+});
+
+export const TermLengthSchema = z.object({
+  start: isoDate.optional(),
+  end: isoDate.optional(),
+  months: z.number().min(0).optional(),
+});
+
+export const DeliverableSchema = z.object({
+  platform: optionalText,
+  format: requiredText,
+  count: z.number().int().min(1),
+  due: isoDate.optional(),
+});
+
+export const UsageRightsSchema = z.object({
+  media: z.array(requiredText).default([]),
+  territory: optionalText,
+  // Usage window; omitted when unstated, and perpetual is flagged separately.
+  months: z.number().min(0).optional(),
+  perpetual: z.boolean().default(false),
+  exclusivity: z.object({
+    category: optionalText,
+    months: z.number().min(0).optional(),
+  }).optional(),
+});
+
+export const StructuredTermsSchema = z.object({
+  payment: PaymentTermsSchema,
+  term: TermLengthSchema,
+  deliverables: z.array(DeliverableSchema).default([]),
+  usage: UsageRightsSchema,
+});
+
+// -----------------------------
+// Obligations
+// -----------------------------
+
+export const OBLIGATION_KINDS = ["deliverable", "posting", "invoice", "payment", "exclusivity", "usage", "term"] as const;
+
+/** A dated thing someone has to do (or stop doing) under the contract. */
+export const ObligationSchema = z.object({
+  kind: z.enum(OBLIGATION_KINDS),
+  title: requiredText,
+  date: isoDate,
+  // Last day of a window, e.g. a posting window; omitted for single-day items.
+  until: isoDate.optional(),
+  // Who it falls on: "Creator" or "Brand".
+  party: requiredText,
+  // Heading of the section it came from, and the sentence itself.
+  clause: optionalText,
+  quote: optionalText,
+  // Set when the date was worked out rather than stated: "90 days after the last due date".
+  basis: optionalText,
+});
+
+// -----------------------------
+// Redaction
+// -----------------------------
+
+export const REDACTION_ENTITIES = [
+  "email",
+  "phone",
+  "ssn",
+  "tax_id",
+  "bank_account",
+  "routing_number",
+  "iban",
+  "swift",
+  "card",
+  "address",
+] as const;
+
+/** What was masked before the text went to the model. Values themselves are never included. */
+export const RedactionReportSchema = z.object({
+  // Entity types that were looked for.
+  entities: z.array(z.enum(REDACTION_ENTITIES)),
+  total: z.number().int().min(0),
+  items: z.array(z.object({
+    entity: z.enum(REDACTION_ENTITIES),
+    placeholder: requiredText,
+    count: z.number().int().min(1),
+  })),
+});
+
+// -----------------------------
+// Playbook checks
+// -----------------------------
+
+export const POLICY_RULES = ["usage", "payment", "exclusivity", "rate"] as const;
+
+/** One standard position from the selected playbook, checked deterministically against the contract. */
+export const PolicyCheckSchema = z.object({
+  rule: z.enum(POLICY_RULES),
+  // Our position, e.g. "Usage rights for at most 12 months".
+  position: requiredText,
+  status: z.enum(["pass", "fail", "unknown"]),
+  // What the contract says, e.g. "in perpetuity".
+  found: optionalText,
+});
+
+export const PlaybookRefSchema = z.object({ id: requiredText, name: requiredText });
+
+// -----------------------------
+// Rate benchmark
+// -----------------------------
+
+/** The contract's effective rate per deliverable against comparable deals from our own history. */
+export const RateBenchmarkSchema = z.object({
+  rate: MoneySchema,
+  deliverables: z.number().int().min(1),
+  // How many deals it was compared with, and what they have in common with this one.
+  comparables: z.number().int().min(1),
+  basis: z.array(requiredText),
+  // Share of the comparable deals paying less per deliverable, 0–100.
+  percentile: z.number().min(0).max(100),
+  p25: z.number().min(0),
+  p50: z.number().min(0),
+  p75: z.number().min(0),
+  // Per-deliverable amount to counter with; set when the rate is below market.
+  counter: MoneySchema.optional(),
+});
+
+// -----------------------------
+// Languages
+// -----------------------------
+
+export const LANGUAGES = ["en", "es", "pt", "de", "fr", "it"] as const;
+
+export const LANGUAGE_NAMES: Record<(typeof LANGUAGES)[number], string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  de: "German",
+  fr: "French",
+  it: "Italian",
+};
+
+/** "pt-BR", "de", "ES" → a supported language by its primary subtag, or null. */
+export function languageFromTag(tag: string | null | undefined): (typeof LANGUAGES)[number] | null {
+  const code = cleanStr(tag).trim().toLowerCase().split(/[-_]/)[0];
+  return (LANGUAGES as readonly string[]).includes(code) ? (code as (typeof LANGUAGES)[number]) : null;
+}
+
+/** The contract's language, detected from the extracted text. */
+export const LanguageDetectionSchema = z.object({
+  code: z.enum(LANGUAGES),
+  // Share of the language cues in the text that point at `code`; low for short or mixed text.
+  confidence: z.number().min(0).max(1),
+});
+
+/** What the model returns when asked to translate a review; risks and counters keep their order. */
+export const ModelTranslationSchema = z.object({
+  snapshot: SnapshotSchema,
+  risks: z.array(z.object({ label: requiredText, note: optionalText })),
+  counters: z.array(text),
+});
+
+export const TranslationSchema = ModelTranslationSchema.extend({
+  language: z.enum(LANGUAGES),
+});
+
+// -----------------------------
+// Reviewer edits
+// -----------------------------
+// Corrections a person makes to a review before it goes out. Stored next to the
+// AI output rather than over it; lib/review/edits applies them. Risks and
+// counters are referred to by their index in the AI output, which never changes.
+
+export const REVIEW_STATUSES = ["draft", "in_review", "approved"] as const;
+
+export const REVIEW_STATUS_LABELS: Record<(typeof REVIEW_STATUSES)[number], string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+};
+
+const editIndex = z.number().int().min(0);
+const reviewerText = z.string().trim().max(2000);
+
+export const RiskEditSchema = z.object({
+  index: editIndex,
+  level: z.enum(RISK_LEVELS).optional(),
+  dismissed: z.boolean().optional(),
+  comment: reviewerText.optional(),
+});
+
+export const CounterEditSchema = z.object({
+  index: editIndex,
+  text: reviewerText.min(1).optional(),
+  dismissed: z.boolean().optional(),
+});
+
+export const ReviewEditsSchema = z.object({
+  status: z.enum(REVIEW_STATUSES).default("draft"),
+  reviewer: z.string().trim().max(100).optional(),
+  // Replacement values for snapshot fields; fields left out keep the AI's.
+  snapshot: SnapshotSchema.partial().default({}),
+  risks: z.array(RiskEditSchema).default([]),
+  addedRisks: z.array(z.object({ label: reviewerText.min(1), level: z.enum(RISK_LEVELS), note: reviewerText.optional() })).default([]),
+  counters: z.array(CounterEditSchema).default([]),
+  addedCounters: z.array(reviewerText.min(1)).default([]),
+  // Language of the findings the edits were made on: the translation's when the reviewer worked on
+  // that, the contract's otherwise (also when unset). Corrections are counted against those findings.
+  language: z.enum(LANGUAGES).optional(),
+  // Stamped by the server when the edits are saved.
+  updatedAt: z.string().optional(),
+  updatedBy: z.string().optional(),
+});
+
+export const ReviewResultSchema = ModelReviewSchema.extend({
+  risks: z.array(ReviewRiskSchema),
+  rawText: optionalText,
+  citations: z.array(CitationSchema).default([]),
+  coverage: CoverageSchema.optional(),
+  extraction: ExtractionSchema.optional(),
+  // Set once the review is saved; cached is true when an identical upload was served from history.
+  reviewId: optionalText,
+  filename: optionalText,
+  createdAt: optionalText,
+  cached: z.boolean().optional(),
+  // The provider and model that wrote the review.
+  provider: z.object({ name: z.string(), model: z.string() }).optional(),
+  playbook: PlaybookRefSchema.optional(),
+  policy: z.array(PolicyCheckSchema).optional(),
+  terms: StructuredTermsSchema.optional(),
+  obligations: z.array(ObligationSchema).optional(),
+  redaction: RedactionReportSchema.optional(),
+  // Set when the model couldn't be reached and only the rule detectors ran.
+  modelUnavailable: z.boolean().optional(),
+  // Snapshot, risks and counters are written in the contract's language; `translation` has them
+  // in the output language the request asked for, when that's a different one.
+  language: LanguageDetectionSchema.optional(),
+  translation: TranslationSchema.optional(),
+  rateBenchmark: RateBenchmarkSchema.optional(),
+  // The reviewer's corrections, on saved reviews that have any. The fields above stay the AI's.
+  edits: ReviewEditsSchema.optional(),
+});
+
+export type RiskLevel = z.output<typeof RiskLevelSchema>;
+export type Snapshot = z.output<typeof SnapshotSchema>;
+export type SnapshotField = keyof Snapshot;
+export type Citation = z.output<typeof CitationSchema>;
+export type Risk = z.output<typeof ReviewRiskSchema>;
+export type RiskSource = (typeof RISK_SOURCES)[number];
+export type RiskRule = (typeof RISK_RULES)[number];
+export type ModelReview = z.output<typeof ModelReviewSchema>;
+export type Coverage = z.output<typeof CoverageSchema>;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+export type Extraction = z.output<typeof ExtractionSchema>;
+export type Money = z.output<typeof MoneySchema>;
+export type Deliverable = z.output<typeof DeliverableSchema>;
+export type StructuredTerms = z.output<typeof StructuredTermsSchema>;
+export type Obligation = z.output<typeof ObligationSchema>;
+export type RedactionEntity = (typeof REDACTION_ENTITIES)[number];
+export type RedactionReport = z.output<typeof RedactionReportSchema>;
+export type PolicyCheck = z.output<typeof PolicyCheckSchema>;
+export type RateBenchmark = z.output<typeof RateBenchmarkSchema>;
+export type Language = (typeof LANGUAGES)[number];
+export type LanguageDetection = z.output<typeof LanguageDetectionSchema>;
+export type ModelTranslation = z.output<typeof ModelTranslationSchema>;
+export type Translation = z.output<typeof TranslationSchema>;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+export type RiskEdit = z.output<typeof RiskEditSchema>;
+export type CounterEdit = z.output<typeof CounterEditSchema>;
+export type ReviewEdits = z.output<typeof ReviewEditsSchema>;
+export type ReviewResult = z.output<typeof ReviewResultSchema>;
+/** Model findings after citations have been checked against the text. */
+export type ReviewFindings = Pick<ReviewResult, "snapshot" | "risks" | "counters" | "citations">;
+
+// -----------------------------
+// Redlines
+// -----------------------------
+
+/** What the model proposes for one counter: replace `original` (verbatim from the contract) with `replacement`. */
+export const ModelRedlineSchema = z.object({
+  counter: z.number().int().min(0),
+  original: requiredText,
+  replacement: text,
+  rationale: requiredText,
+});
+
+export const ModelRedlinesSchema = z.object({
+  edits: z.array(ModelRedlineSchema),
+});
+
+/** A proposed edit whose original wording was located in rawText at [start, end). */
+export const RedlineEditSchema = ModelRedlineSchema.extend({
+  id: requiredText,
+  start: offset,
+  end: offset,
+});
+
+export type RedlineEdit = z.output<typeof RedlineEditSchema>;
+
+// -----------------------------
+// Questions about the contract
+// -----------------------------
+
+// The exact answer for questions the contract doesn't speak to.
+export const NOT_ADDRESSED = "Not addressed in the contract.";
+
+/** What the model returns for one question; every quote must be verbatim contract text. */
+export const ModelAnswerSchema = z.object({
+  answer: requiredText,
+  addressed: z.boolean(),
+  quotes: z.array(requiredText).default([]),
+});
+
+/** A supporting quote located in rawText at [start, end). */
+export const AnswerSourceSchema = z.object({
+  quote: requiredText,
+  start: offset,
+  end: offset,
+});
+
+export const ContractAnswerSchema = z.object({
+  question: requiredText,
+  answer: requiredText,
+  addressed: z.boolean(),
+  sources: z.array(AnswerSourceSchema),
+});
+
+export type AnswerSource = z.output<typeof AnswerSourceSchema>;
+export type ContractAnswer = z.output<typeof ContractAnswerSchema>;
+
+// -----------------------------
+// Lenient normalization
+// -----------------------------
+// Never throws: bad risks and counters are dropped, missing snapshot fields become "".
+
+export function normalizeSnapshot(s: unknown): Snapshot {
+  const parsed = SnapshotSchema.safeParse(s ?? {});
+  return parsed.success ? parsed.data : SnapshotSchema.parse({});
+}
+
+export function normalizeResult(data: unknown): ReviewResult {
+  const d = (data ?? {}) as Record<string, unknown>;
+  const risks = (Array.isArray(d.risks) ? d.risks : []).flatMap((r) => {
+    const parsed = ReviewRiskSchema.safeParse(r);
+    return parsed.success ? [parsed.data] : [];
+  });
+  const counters = (Array.isArray(d.counters) ? d.counters : []).map((c) => cleanStr(c).trim()).filter(Boolean);
+  const citations = (Array.isArray(d.citations) ? d.citations : []).flatMap((c) => {
+    const parsed = CitationSchema.safeParse(c);
+    return parsed.success ? [parsed.data] : [];
+  });
+  const coverage = CoverageSchema.safeParse(d.coverage);
+  const extraction = ExtractionSchema.safeParse(d.extraction);
+  const playbook = PlaybookRefSchema.safeParse(d.playbook);
+  const terms = StructuredTermsSchema.safeParse(d.terms);
+  const redaction = RedactionReportSchema.safeParse(d.redaction);
+  const language = LanguageDetectionSchema.safeParse(d.language);
+  const translation = TranslationSchema.safeParse(d.translation);
+  const rateBenchmark = RateBenchmarkSchema.safeParse(d.rateBenchmark);
+  const edits = ReviewEditsSchema.safeParse(d.edits);
+  const policy = (Array.isArray(d.policy) ? d.policy : []).flatMap((c) => {
+    const parsed = PolicyCheckSchema.safeParse(c);
+    return parsed.success ? [parsed.data] : [];
+  });
+  const obligations = Array.isArray(d.obligations)
+    ? d.obligations.flatMap((o) => {
+        const parsed = ObligationSchema.safeParse(o);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : undefined;
+  return {
+    snapshot: normalizeSnapshot(d.snapshot),
+    risks,
+    counters,
+    citations,
+    rawText: cleanStr(d.rawText) || undefined,
+    coverage: coverage.success ? coverage.data : undefined,
+    extraction: extraction.success ? extraction.data : undefined,
+    reviewId: cleanStr(d.reviewId) || undefined,
+    filename: cleanStr(d.filename) || undefined,
+    createdAt: cleanStr(d.createdAt) || undefined,
+    cached: typeof d.cached === "boolean" ? d.cached : undefined,
+    playbook: playbook.success ? playbook.data : undefined,
+    policy: policy.length ? policy : undefined,
+    terms: terms.success ? terms.data : undefined,
+    obligations,
+    redaction: redaction.success ? redaction.data : undefined,
+    modelUnavailable: d.modelUnavailable === true || undefined,
+    language: language.success ? language.data : undefined,
+    translation: translation.success ? translation.data : undefined,
+    rateBenchmark: rateBenchmark.success ? rateBenchmark.data : undefined,
+    edits: edits.success ? edits.data : undefined,
+  };
+}
+
+// -----------------------------
+// Prompt description
+// -----------------------------
+// Renders a schema as the compact TypeScript-ish notation the system prompt uses,
+// so the instructions can't drift from what we validate against.
+
+function describe(t: z.ZodTypeAny): string {
+  if (t instanceof z.ZodEffects) return describe(t.innerType());
+  if (t instanceof z.ZodDefault) return describe(t.removeDefault());
+  if (t instanceof z.ZodOptional || t instanceof z.ZodNullable) return `${describe(t.unwrap())}|null`;
+  if (t instanceof z.ZodString) return "string";
+  if (t instanceof z.ZodNumber) return "number";
+  if (t instanceof z.ZodBoolean) return "boolean";
+  if (t instanceof z.ZodEnum) return (t.options as string[]).map((o) => JSON.stringify(o)).join("|");
+  if (t instanceof z.ZodArray) return `Array<${describe(t.element)}>`;
+  if (t instanceof z.ZodObject) {
+    const fields = Object.entries(t.shape as z.ZodRawShape).map(([k, v]) => `${JSON.stringify(k)}:${describe(v)}`);
+    return `{${fields.join(",")}}`;
+  }
+  return "any";
+}
+
+export function describeSchema(schema: z.AnyZodObject, indent = "  "): string {
+  const fields = Object.entries(schema.shape as z.ZodRawShape).map(([k, v]) => `${indent}${JSON.stringify(k)}: ${describe(v)}`);
+  return `{\n${fields.join(",\n")}\n}`;
+}
+
+export function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `- ${i.path.join(".") || "(root)"}: ${i.message}`).join("\n");
+}
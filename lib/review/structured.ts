@@ -0,0 +1,250 @@
+// -----------------------------
+// Structured term extraction
+// -----------------------------
+// Turns the free-text snapshot plus the contract's own sentences into typed
+// payment, term, deliverable and usage data. Deterministic: the same text
+// always gives the same terms, whichever provider wrote the snapshot.
+
+import type { Deliverable, Money, Snapshot, StructuredTerms } from "./schema";
+import {
+  addMonths,
+  deliverableCount,
+  DELIVERABLE_KINDS,
+  durationsInMonths,
+  isPerDeliverable,
+  moneyAmounts,
+  monthsBetween,
+  parseDates,
+  parseNumber,
+  paymentDays,
+  sentences,
+} from "./terms";
+
+const FEE_CONTEXT = /\b(?:fee|compensation|rate|pay|paid|payable|payment)\b/i;
+
+export type DeliverableRate = {
+  rate: Money;
+  count: number;
+  // The amount as written, and the sentence it came from when it was found in the text.
+  match: string;
+  sentence?: string;
+};
+
+/** Per-deliverable rate: an explicit "per post" price, otherwise the largest fee split over the deliverable count. */
+export function ratePerDeliverable(snapshot: Snapshot, all: string[]): DeliverableRate | null {
+  const sources: { text: string; sentence?: string }[] = [
+    ...all.filter((s) => FEE_CONTEXT.test(s) && moneyAmounts(s).length).map((s) => ({ text: s, sentence: s })),
+    ...(snapshot.rate ? [{ text: snapshot.rate }] : []),
+  ];
+  const count =
+    deliverableCount(snapshot.deliverables) ||
+    Math.max(0, ...all.filter((s) => /deliverable|post|video|story|reel/i.test(s)).map(deliverableCount));
+
+  for (const { text, sentence } of sources) {
+    if (!isPerDeliverable(text)) continue;
+    const amounts = moneyAmounts(text);
+    const lowest = amounts.reduce((a, b) => (b.value.amount < a.value.amount ? b : a));
+    return { rate: lowest.value, count: Math.max(count, 1), match: lowest.match, sentence };
+  }
+  if (!count) return null;
+  for (const { text, sentence } of sources) {
+    const amounts = moneyAmounts(text);
+    if (!amounts.length) continue;
+    const total = amounts.reduce((a, b) => (b.value.amount > a.value.amount ? b : a));
+    return { rate: { ...total.value, amount: Math.round((total.value.amount / count) * 100) / 100 }, count, match: total.match, sentence };
+  }
+  return null;
+}
+
+// -----------------------------
+// Payment
+// -----------------------------
+
+const INSTALLMENT = new RegExp(
+  `(?:(\\d{1,3})\\s?%|((?:USD|EUR|GBP|CAD|AUD|[$€£])\\s?[\\d,.]+k?))\\s*(?:of the (?:total |)fee\\s*)?(?:shall be |will be |is |)(?:paid\\s+|due\\s+|payable\\s+)?` +
+  // The due phrase stops at "and 50% ..." so a following installment still matches.
+  `((?:(?:up)?on|within|after|following|at|before)\\s+[^,;.]+?)(?=\\s+and\\s+(?:\\d|[$€£])|[,;.]|$)`,
+  "gi"
+);
+
+function extractPayment(snapshot: Snapshot, all: string[]): StructuredTerms["payment"] {
+  const fees = all.filter((s) => FEE_CONTEXT.test(s));
+  const feeText = [snapshot.rate, snapshot.billing ?? "", ...fees].join(" ");
+
+  const perDeliverable = ratePerDeliverable(snapshot, all);
+  const amounts = moneyAmounts([snapshot.rate, ...fees].join(" "));
+  const largest = amounts.length ? amounts.reduce((a, b) => (b.value.amount > a.value.amount ? b : a)).value : undefined;
+  const total =
+    perDeliverable && isPerDeliverable(`${snapshot.rate} ${fees.join(" ")}`)
+      ? { ...perDeliverable.rate, amount: perDeliverable.rate.amount * perDeliverable.count }
+      : largest;
+
+  const days = paymentDays(feeText).map((d) => d.value);
+  const schedule: StructuredTerms["payment"]["schedule"] = [];
+  for (const m of feeText.matchAll(INSTALLMENT)) {
+    const due = m[3].trim();
+    const entry = m[1]
+      ? { percent: Number(m[1]), due }
+      : { amount: moneyAmounts(m[2])[0]?.value, due };
+    if (!schedule.some((s) => s.due === entry.due && s.percent === entry.percent)) schedule.push(entry);
+  }
+
+  return {
+    total,
+    perDeliverable: perDeliverable && perDeliverable.count > 0 ? perDeliverable.rate : undefined,
+    netDays: days.length ? Math.max(...days) : undefined,
+    schedule,
+  };
+}
+
+// -----------------------------
+// Term
+// -----------------------------
+
+const START_CONTEXT = /\b(?:commenc|start|begin|effective|from)\w*/i;
+const END_CONTEXT = /\b(?:end|expir|terminat|through|until|to)\w*/i;
+
+function extractTerm(snapshot: Snapshot, all: string[]): StructuredTerms["term"] {
+  const termSentences = all.filter((s) => /\bterm\b|commenc|effective|expir/i.test(s));
+  const source = [snapshot.term, snapshot.dates, ...termSentences];
+
+  let start: string | undefined;
+  let end: string | undefined;
+  for (const s of source) {
+    const dates = parseDates(s);
+    if (!dates.length) continue;
+    for (const d of dates) {
+      const before = s.slice(0, s.indexOf(d.match));
+      const lastWord = before.split(/\s+/).slice(-4).join(" ");
+      if (!end && start && END_CONTEXT.test(lastWord)) end = d.value;
+      else if (!start && START_CONTEXT.test(lastWord)) start = d.value;
+      else if (!end && start && d.value > start) end = d.value;
+    }
+    if (!start && dates.length >= 2) { start = dates[0].value; end = dates[1].value; }
+    if (start) break;
+  }
+  if (!start) start = parseDates(snapshot.dates)[0]?.value;
+
+  const stated = [snapshot.term, ...termSentences].flatMap(durationsInMonths).find((d) => Number.isFinite(d.value));
+  const months = stated?.value ?? (start && end ? monthsBetween(start, end) : undefined);
+  if (start && !end && months !== undefined) end = addMonths(start, months);
+  return { start, end, months };
+}
+
+// -----------------------------
+// Deliverables
+// -----------------------------
+
+const PLATFORMS: [RegExp, string][] = [
+  [/\binstagram|\big\b/i, "Instagram"],
+  [/\btiktok/i, "TikTok"],
+  [/\byoutube/i, "YouTube"],
+  [/\bfacebook/i, "Facebook"],
+  [/\btwitter|\bx\b/i, "X"],
+  [/\bsnapchat/i, "Snapchat"],
+  [/\bpinterest/i, "Pinterest"],
+  [/\blinkedin/i, "LinkedIn"],
+  [/\btwitch/i, "Twitch"],
+  [/\bpodcast/i, "Podcast"],
+  [/\bblog/i, "Blog"],
+];
+
+// A bare "TikTok" counts as a video.
+const FORMAT_NAMES: [RegExp, string][] = [
+  [/^stor/i, "Story"], [/^reel/i, "Reel"], [/^short/i, "Short"], [/^live|^stream/i, "Live"],
+  [/^video|^tiktok/i, "Video"], [/^carousel/i, "Carousel"], [/^photo|^image/i, "Photo"],
+  [/^blog|^article/i, "Article"], [/^post/i, "Post"], [/^deliverable/i, "Deliverable"],
+];
+
+const NUMBER_WORD = "\\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty";
+const DELIVERABLE = new RegExp(
+  `\\b(${NUMBER_WORD})(?:\\s*\\(\\d+\\))?\\s+((?:[A-Za-z-]+\\s+){0,2}?)(${DELIVERABLE_KINDS})\\b`,
+  "gi"
+);
+const HAS_DELIVERABLE = new RegExp(DELIVERABLE.source, "i");
+const DUE = /\b(?:by|before|no later than|on or before|due(?: on)?)\s+/i;
+
+function extractDeliverables(snapshot: Snapshot, all: string[]): Deliverable[] {
+  const mentioning = all.filter((s) => HAS_DELIVERABLE.test(s));
+  // Prefer the contract's own sentences; the snapshot string is the fallback.
+  const source = mentioning.length ? mentioning : [snapshot.deliverables];
+  const out: Deliverable[] = [];
+  for (const sentence of source) {
+    const dueMatch = sentence.match(DUE);
+    const due = dueMatch ? parseDates(sentence.slice(dueMatch.index!))[0]?.value : undefined;
+    for (const m of sentence.matchAll(DELIVERABLE)) {
+      const count = parseNumber(m[1]);
+      if (!count || count > 100) continue;
+      const words = `${m[2]} ${m[3]}`;
+      const platform = PLATFORMS.find(([re]) => re.test(words))?.[1];
+      const format = FORMAT_NAMES.find(([re]) => re.test(m[3]))?.[1] ?? m[3];
+      const key = `${platform}|${format}`;
+      const existing = out.find((d) => `${d.platform}|${d.format}` === key);
+      if (existing) { existing.count = Math.max(existing.count, count); continue; }
+      out.push({ platform, format, count, due });
+    }
+  }
+  return out;
+}
+
+// -----------------------------
+// Usage rights
+// -----------------------------
+
+const MEDIA: [RegExp, string][] = [
+  [/\ball (?:media|channels|formats)\b|any (?:and all )?media/i, "All media"],
+  [/\borganic\b|social (?:media|channels)/i, "Organic social"],
+  [/\bpaid (?:media|social|ads?|advertising)|\badvertis|\bspark ads\b/i, "Paid ads"],
+  [/\bwhitelist|\ballowlist|\bcreator licens/i, "Whitelisting"],
+  [/\bwebsite|\bweb\b|\be-?commerce|\bonline store/i, "Website"],
+  [/\bemail|\bnewsletter/i, "Email"],
+  [/\bprint\b/i, "Print"],
+  [/\btelevision|\btv\b|\bbroadcast/i, "TV"],
+  [/\bout-of-home|\booh\b|\bbillboard/i, "Out-of-home"],
+  [/\bin-store|\bretail\b|\bpoint of sale/i, "In-store"],
+];
+
+const TERRITORY = /\b(worldwide|world-wide|globally|throughout the world|universe)\b|\b(?:in|within|throughout)\s+(?:the\s+)?(United States|U\.S\.A?\.?|USA|US|Canada|United Kingdom|UK|European Union|EU|Europe|North America|Australia)\b/i;
+
+const CATEGORY = /\b(?:in|within|across)\s+the\s+([a-z][a-z &/-]{2,40}?)\s+(?:category|industry|space|sector|vertical)\b|\bcompeting\s+([a-z][a-z &/-]{2,40}?)\s+(?:brands?|products?|companies)\b/i;
+
+function extractUsage(snapshot: Snapshot, all: string[]): StructuredTerms["usage"] {
+  const usageSentences = all.filter((s) => /\b(?:usage|use|licen[cs]e|rights?|perpetu|media)\b/i.test(s) && !/exclusiv/i.test(s));
+  const exclusivity = all.filter((s) => /exclusiv|compet/i.test(s));
+  const usageText = [snapshot.usage, ...usageSentences].join(" ");
+
+  const media = MEDIA.filter(([re]) => re.test(usageText)).map(([, name]) => name);
+  const territoryMatch = usageText.match(TERRITORY) ?? exclusivity.join(" ").match(TERRITORY);
+  const territory = territoryMatch ? (territoryMatch[1] ? "Worldwide" : territoryMatch[2]) : undefined;
+
+  const durations = usageSentences.length ? usageSentences.flatMap(durationsInMonths) : durationsInMonths(snapshot.usage);
+  const perpetual = durations.some((d) => d.value === Infinity);
+  const finite = durations.filter((d) => Number.isFinite(d.value)).map((d) => d.value);
+
+  let exclusive: StructuredTerms["usage"]["exclusivity"];
+  if (exclusivity.length || /exclusiv/i.test(snapshot.usage)) {
+    const text = exclusivity.length ? exclusivity.join(" ") : snapshot.usage;
+    const category = text.match(CATEGORY);
+    const window = durationsInMonths(text).find((d) => Number.isFinite(d.value));
+    exclusive = { category: (category?.[1] ?? category?.[2])?.trim(), months: window?.value };
+  }
+
+  return {
+    media,
+    territory,
+    months: finite.length ? Math.max(...finite) : undefined,
+    perpetual,
+    exclusivity: exclusive,
+  };
+}
+
+/** Typed terms for a review; fields the text doesn't state are left out. */
+export function extractTerms(snapshot: Snapshot, text: string): StructuredTerms {
+  const all = sentences(text);
+  return {
+    payment: extractPayment(snapshot, all),
+    term: extractTerm(snapshot, all),
+    deliverables: extractDeliverables(snapshot, all),
+    usage: extractUsage(snapshot, all),
+  };
+}
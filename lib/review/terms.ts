@@ -0,0 +1,173 @@
+// -----------------------------
+// Deterministic term parsers
+// -----------------------------
+// Small regex parsers for the numbers contracts are negotiated on: durations,
+// payment days, money and deliverable counts. They read snapshot strings or
+// raw clause text and never call a model.
+
+import type { Language, Money } from "./schema";
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, eighteen: 18, twenty: 20, "twenty-four": 24,
+  thirty: 30, "forty-five": 45, sixty: 60, ninety: 90, "one hundred twenty": 120,
+};
+
+const NUMBER = `\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join("|")}`;
+// "twelve (12) months" — the parenthesised digits repeat the word.
+const ECHO = `(?:\\s*\\(\\d+\\))?`;
+
+export function parseNumber(s: string): number | null {
+  const v = s.trim().toLowerCase();
+  if (v in NUMBER_WORDS) return NUMBER_WORDS[v];
+  const n = Number(v.replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Sentences with whitespace collapsed; quotes taken from these still resolve via folded matching. */
+export function sentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.;!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export type Found<T> = { value: T; match: string };
+
+/**
+ * Whether these parsers can read a contract in `language`. They expect English
+ * wording and US formats; elsewhere "1.500,00 €" or "15.03.2025" would come out
+ * wrong rather than not at all, so callers skip terms, rates and dates instead.
+ */
+export function readsTermsIn(language: Language | undefined): boolean {
+  return (language ?? "en") === "en";
+}
+
+const PERPETUAL = /\b(?:in perpetuity|perpetual(?:ly)?|forever|indefinite(?:ly)?|without (?:time )?limit)\b/i;
+const DURATION = new RegExp(`\\b(${NUMBER})${ECHO}[\\s-]*(day|week|month|year)s?\\b`, "gi");
+const MONTHS_PER: Record<string, number> = { day: 1 / 30, week: 7 / 30, month: 1, year: 12 };
+
+/** Every duration in the text, in months; perpetual grants are Infinity. */
+export function durationsInMonths(text: string): Found<number>[] {
+  const out: Found<number>[] = [];
+  const perpetual = text.match(PERPETUAL);
+  if (perpetual) out.push({ value: Infinity, match: perpetual[0] });
+  for (const m of text.matchAll(DURATION)) {
+    const n = parseNumber(m[1]);
+    if (n !== null) out.push({ value: Math.round(n * MONTHS_PER[m[2].toLowerCase()] * 10) / 10, match: m[0] });
+  }
+  return out;
+}
+
+const NET_DAYS = /\bnet[\s-]?(\d{1,3})\b/gi;
+const WITHIN_DAYS = new RegExp(
+  `\\bwithin\\s+(${NUMBER})${ECHO}\\s+(?:business\\s+|calendar\\s+)?days?\\s+(?:of|after|from|following)\\b`,
+  "gi"
+);
+
+/** Payment windows in days ("net-60", "within thirty (30) days of invoice"). */
+export function paymentDays(text: string): Found<number>[] {
+  const out: Found<number>[] = [];
+  for (const m of text.matchAll(NET_DAYS)) out.push({ value: Number(m[1]), match: m[0] });
+  for (const m of text.matchAll(WITHIN_DAYS)) {
+    const n = parseNumber(m[1]);
+    if (n !== null) out.push({ value: n, match: m[0] });
+  }
+  return out;
+}
+
+const SYMBOLS: Record<string, string> = { $: "USD", "€": "EUR", "£": "GBP" };
+const AMOUNT = `(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d{1,2}))?(?:\\s?(k)\\b)?`;
+const PREFIXED = new RegExp(`(?:\\b(USD|EUR|GBP|CAD|AUD)\\s?|([$€£]))\\s?${AMOUNT}`, "gi");
+const SUFFIXED = new RegExp(`\\b${AMOUNT}\\s?(USD|EUR|GBP|CAD|AUD|dollars|euros|pounds)\\b`, "gi");
+const WORD_CURRENCY: Record<string, string> = { dollars: "USD", euros: "EUR", pounds: "GBP" };
+
+function toAmount(whole: string, cents: string | undefined, k: string | undefined): number {
+  const n = Number(whole.replace(/,/g, "")) + (cents ? Number(`0.${cents}`) : 0);
+  return k ? n * 1000 : n;
+}
+
+/** Money amounts in order of appearance. */
+export function moneyAmounts(text: string): Found<Money>[] {
+  const out: (Found<Money> & { index: number })[] = [];
+  for (const m of text.matchAll(PREFIXED)) {
+    const currency = m[1] ? m[1].toUpperCase() : SYMBOLS[m[2]];
+    out.push({ value: { amount: toAmount(m[3], m[4], m[5]), currency }, match: m[0].trim(), index: m.index! });
+  }
+  for (const m of text.matchAll(SUFFIXED)) {
+    const unit = m[4].toLowerCase();
+    const currency = WORD_CURRENCY[unit] ?? unit.toUpperCase();
+    out.push({ value: { amount: toAmount(m[1], m[2], m[3]), currency }, match: m[0].trim(), index: m.index! });
+  }
+  return out.sort((a, b) => a.index - b.index).map(({ value, match }) => ({ value, match }));
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_NAME = "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+const DATE_PATTERNS: { re: RegExp; parts: (m: RegExpMatchArray) => [string, string, string] }[] = [
+  { re: /\b(\d{4})-(\d{2})-(\d{2})\b/g, parts: (m) => [m[1], m[2], m[3]] },
+  { re: new RegExp(`\\b(${MONTH_NAME})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "gi"), parts: (m) => [m[3], m[1], m[2]] },
+  { re: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAME}),?\\s+(\\d{4})\\b`, "gi"), parts: (m) => [m[3], m[2], m[1]] },
+  // US order, as in the rest of our contracts.
+  { re: /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g, parts: (m) => [m[3], m[1], m[2]] },
+];
+
+function toIsoDate(year: string, month: string, day: string): string | null {
+  const m = /^\d+$/.test(month) ? Number(month) : MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+  const d = new Date(Date.UTC(Number(year), m - 1, Number(day)));
+  if (!m || d.getUTCMonth() !== m - 1 || d.getUTCDate() !== Number(day)) return null;
+  return d.toISOString().slice(0, 10);
+}
+
+/** Calendar dates as ISO strings, in order of appearance. */
+export function parseDates(text: string): Found<string>[] {
+  const out: (Found<string> & { index: number })[] = [];
+  for (const { re, parts } of DATE_PATTERNS) {
+    for (const m of text.matchAll(re)) {
+      const iso = toIsoDate(...parts(m));
+      if (iso && !out.some((o) => m.index! >= o.index && m.index! < o.index + o.match.length)) {
+        out.push({ value: iso, match: m[0], index: m.index! });
+      }
+    }
+  }
+  return out.sort((a, b) => a.index - b.index).map(({ value, match }) => ({ value, match }));
+}
+
+export function addMonths(iso: string, months: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + Math.floor(months));
+  d.setUTCDate(d.getUTCDate() + Math.round((months % 1) * 30));
+  return d.toISOString().slice(0, 10);
+}
+
+export function monthsBetween(start: string, end: string): number {
+  const a = new Date(`${start}T00:00:00Z`);
+  const b = new Date(`${end}T00:00:00Z`);
+  const months = (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + (b.getUTCMonth() - a.getUTCMonth()) + (b.getUTCDate() - a.getUTCDate()) / 30;
+  return Math.round(months * 10) / 10;
+}
+
+export function formatMoney({ amount, currency }: Money): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: amount % 1 ? 2 : 0 }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+}
+
+export const DELIVERABLE_KINDS = "posts?|videos?|stor(?:y|ies)|reels?|tiktoks?|shorts?|lives?|livestreams?|streams?|photos?|images?|carousels?|blogs?|articles?|deliverables?";
+const DELIVERABLE_COUNT = new RegExp(`\\b(${NUMBER})${ECHO}\\s+(?:[A-Za-z-]+\\s+){0,2}?(?:${DELIVERABLE_KINDS})\\b`, "gi");
+const PER_DELIVERABLE = new RegExp(`\\b(?:per|each|for every)\\s+(?:[A-Za-z-]+\\s+){0,2}?(?:${DELIVERABLE_KINDS})\\b`, "i");
+
+/** Total number of deliverables named in the text ("3 Instagram posts and one TikTok video" → 4). */
+export function deliverableCount(text: string): number {
+  let total = 0;
+  for (const m of text.matchAll(DELIVERABLE_COUNT)) total += parseNumber(m[1]) ?? 0;
+  return total;
+}
+
+/** True when the text prices each deliverable ("$500 per post") rather than the whole deal. */
+export function isPerDeliverable(text: string): boolean {
+  return PER_DELIVERABLE.test(text);
+}
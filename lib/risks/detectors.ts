@@ -0,0 +1,224 @@
+// -----------------------------
+// Clause detectors
+// -----------------------------
+// One detector per red flag. Each looks at the contract's sentences and returns
+// the first one that shows the problem; the wording and level of the risk it
+// raises are fixed, so the same contract always gets the same rule findings.
+
+import type { RiskLevel, RiskRule } from "@/lib/review/schema";
+import { durationsInMonths, moneyAmounts, paymentDays } from "@/lib/review/terms";
+
+export type RuleHit = {
+  rule: RiskRule;
+  label: string;
+  level: RiskLevel;
+  note: string;
+  // The sentence that triggered it, whitespace-normalized.
+  sentence: string;
+};
+
+type Detector = {
+  rule: RiskRule;
+  // Model risk labels that describe the same problem; the detector confirms those instead of adding its own.
+  same: RegExp;
+  find(all: string[]): Omit<RuleHit, "rule"> | null;
+};
+
+const USAGE_CONTEXT = /\b(?:use|usage|licen[cs]e[ds]?|rights?|exploit|repost|republish|publish|distribute|content|materials?)\b/i;
+
+function first(all: string[], re: RegExp, unless?: RegExp): string | undefined {
+  return all.find((s) => re.test(s) && !unless?.test(s));
+}
+
+function monthsPhrase(sentence: string): string {
+  const longest = durationsInMonths(sentence).sort((a, b) => b.value - a.value)[0];
+  return longest ? ` (${longest.match})` : "";
+}
+
+const perpetualUsage: Detector = {
+  rule: "perpetual-usage",
+  same: /perpetu|forever|indefinite|unlimited (?:usage|use|time)/i,
+  find(all) {
+    const sentence = all.find((s) => /\b(?:in perpetuity|perpetual(?:ly)?|irrevocabl[ey]|forever|for all time|indefinite(?:ly)?)\b/i.test(s) && USAGE_CONTEXT.test(s));
+    return sentence ? {
+      label: "Perpetual usage rights",
+      level: "High",
+      note: "The brand can keep using the content with no end date. Usage is normally limited to a few months, with paid extensions.",
+      sentence,
+    } : null;
+  },
+};
+
+const worldwideUsage: Detector = {
+  rule: "worldwide-usage",
+  same: /worldwide|global|territor/i,
+  find(all) {
+    const sentence = all.find((s) => /\b(?:worldwide|world-wide|throughout the (?:world|universe)|universe|all territories|any territory)\b/i.test(s) && USAGE_CONTEXT.test(s));
+    return sentence ? {
+      label: "Worldwide usage rights",
+      level: "Med",
+      note: "Usage isn't limited to the markets the campaign runs in. Global rights are usually priced higher.",
+      sentence,
+    } : null;
+  },
+};
+
+const autoRenewal: Detector = {
+  rule: "auto-renewal",
+  same: /renew|roll(?:s)? over|evergreen/i,
+  find(all) {
+    const sentence = first(
+      all,
+      /\b(?:auto(?:matic(?:ally)?)?[\s-]?renew(?:s|ed|al|ing)?|renew(?:s|ed)? automatically|evergreen|successive (?:renewal )?(?:terms|periods))\b/i,
+      /\b(?:not|never|no)\b[^.;]*\b(?:auto(?:matic(?:ally)?)?[\s-]?renew|renew(?:s|ed)? automatically)/i
+    );
+    return sentence ? {
+      label: "Automatic renewal",
+      level: "Med",
+      note: "The term rolls over unless notice is given in time. Note the cancellation window or ask for renewal by mutual agreement.",
+      sentence,
+    } : null;
+  },
+};
+
+const COUNTERPARTY = "(?:brand|company|client|agency|sponsor|advertiser|licensee|we)";
+const AT_WILL = "(?:at any time|for any reason|for no reason|for convenience|without cause|(?:in|at) (?:its|their) (?:sole|absolute) discretion|without (?:prior )?notice|immediately upon notice)";
+
+const unilateralTermination: Detector = {
+  rule: "unilateral-termination",
+  same: /terminat|cancel/i,
+  find(all) {
+    const sentence = first(
+      all,
+      new RegExp(`\\b${COUNTERPARTY}\\b[^.;]*\\bmay\\b[^.;]*\\bterminate\\b[^.;]*\\b${AT_WILL}|\\bterminated by (?:the )?${COUNTERPARTY}\\b[^.;]*\\b${AT_WILL}`, "i"),
+      /\b(?:either party|both parties|each party|mutual(?:ly)?)\b/i
+    );
+    if (!sentence) return null;
+    const noNotice = /without (?:prior )?notice|immediately/i.test(sentence);
+    return {
+      label: "Brand can terminate at will",
+      level: noNotice ? "High" : "Med",
+      note: "Only the brand can walk away without cause. Ask for mutual termination rights and payment for work already delivered.",
+      sentence,
+    };
+  },
+};
+
+const MAX_NET_DAYS = 60;
+
+const longPaymentTerms: Detector = {
+  rule: "long-payment-terms",
+  same: /net[\s-]?\d|payment (?:terms|delay|timing)|late payment|slow payment|paid (?:late|slowly)/i,
+  find(all) {
+    let worst: { days: number; match: string; sentence: string } | null = null;
+    for (const sentence of all) {
+      if (!/\b(?:invoice|payment|paid|pay|net[\s-]?\d)/i.test(sentence)) continue;
+      for (const f of paymentDays(sentence)) if (!worst || f.value > worst.days) worst = { days: f.value, match: f.match, sentence };
+    }
+    if (!worst || worst.days <= MAX_NET_DAYS) return null;
+    return {
+      label: `Payment terms longer than net-${MAX_NET_DAYS}`,
+      level: worst.days >= 120 ? "High" : "Med",
+      note: `Payment comes ${worst.days} days after invoice ("${worst.match}"). Anything past net-${MAX_NET_DAYS} is unusually slow; ask for net-30.`,
+      sentence: worst.sentence,
+    };
+  },
+};
+
+const broadIndemnity: Detector = {
+  rule: "broad-indemnity",
+  same: /indemn|hold harmless|liabilit/i,
+  find(all) {
+    const sentence = all.find(
+      (s) =>
+        /\b(?:indemnif(?:y|ies|ied|ication)|hold(?:s)? harmless)\b/i.test(s) &&
+        /\b(?:any and all|all claims|howsoever|in any way|regardless of|whether or not|arising (?:out of|from)[^.;]* or (?:in connection with|related to|relating to)|including (?:reasonable )?(?:attorneys?'?|legal) fees)\b/i.test(s) &&
+        !/\b(?:each party|both parties|mutual(?:ly)?|(?:brand|company|client|agency) (?:shall|will|agrees to) (?:defend|indemnify))\b/i.test(s)
+    );
+    return sentence ? {
+      label: "Broad one-way indemnity",
+      level: "High",
+      note: "You'd cover the brand's losses well beyond your own breach. Limit it to your own breach or negligence, make it mutual and cap it at the fee.",
+      sentence,
+    } : null;
+  },
+};
+
+const moralityClause: Detector = {
+  rule: "morality-clause",
+  same: /moral|conduct|reputation|disrepute/i,
+  find(all) {
+    const sentence = first(
+      all,
+      /\b(?:moral(?:s|ity)? clause|disrepute|(?:public )?scandal|public (?:ridicule|contempt|disfavou?r)|reflects? (?:poorly|negatively|unfavou?rably)|(?:offensive|controversial) (?:conduct|behaviou?r|statements?)|damag(?:e|es|ing) (?:to )?(?:the )?(?:brand|company)(?:'s)? (?:reputation|image|goodwill))\b/i
+    );
+    return sentence ? {
+      label: "Morality clause",
+      level: "Med",
+      note: "A vague conduct standard lets the brand decide what counts. Ask for an objective standard, notice, and payment for work already delivered.",
+      sentence,
+    } : null;
+  },
+};
+
+const unpaidRevisions: Detector = {
+  rule: "unpaid-revisions",
+  same: /revision|re-?edit|reshoot|re-?shoot|changes/i,
+  find(all) {
+    const sentence = all.find(
+      (s) =>
+        /\b(?:revisions?|re-?edits?|edits|re-?shoots?|changes)\b/i.test(s) &&
+        /\b(?:unlimited|as many|any number of|until (?:the )?(?:brand|company|client) is (?:fully |completely )?satisfied|at no (?:additional|extra) (?:cost|charge|fee)|without (?:additional|extra) (?:compensation|payment|fees?|charge)|free of charge)\b/i.test(s) &&
+        // "Two rounds of revisions at no extra cost" is the normal deal.
+        (/\bunlimited\b/i.test(s) || !/\b(?:one|two|three|1|2|3|a single)\s+(?:\(\d\)\s+)?(?:rounds?|sets?)\s+of\s+(?:revisions|changes|edits)\b/i.test(s))
+    );
+    return sentence ? {
+      label: "Unpaid revisions",
+      level: "Med",
+      note: "Revisions aren't capped or paid for. Ask for two rounds included and a fee for anything beyond that.",
+      sentence,
+    } : null;
+  },
+};
+
+const EXCLUSIVE = /(?<!non-)\bexclusiv(?:e|ity)\b/i;
+const COMPETITOR = /\b(?:exclusivity|compet\w*|rival|other brands?|similar products?|same (?:product )?category|any (?:other )?(?:brand|company))\b/i;
+
+const uncompensatedExclusivity: Detector = {
+  rule: "uncompensated-exclusivity",
+  same: /exclusiv|non-?compete/i,
+  find(all) {
+    const clauses = all.filter((s) => EXCLUSIVE.test(s) && COMPETITOR.test(s));
+    if (!clauses.length) return null;
+    const paid = clauses.some((s) => moneyAmounts(s).length > 0 || /\b(?:exclusivity fee|compensat\w*|paid for (?:the )?exclusivity|in consideration (?:of|for) (?:the )?exclusivity)\b/i.test(s));
+    if (paid) return null;
+    const sentence = clauses[0];
+    const long = durationsInMonths(sentence).some((d) => d.value >= 6);
+    return {
+      label: "Exclusivity without compensation",
+      level: long ? "High" : "Med",
+      note: `You can't work with competitors${monthsPhrase(sentence)} and nothing is paid for it. Exclusivity is usually priced separately or kept short and narrow.`,
+      sentence,
+    };
+  },
+};
+
+export const DETECTORS: readonly Detector[] = [
+  perpetualUsage,
+  worldwideUsage,
+  autoRenewal,
+  unilateralTermination,
+  longPaymentTerms,
+  broadIndemnity,
+  moralityClause,
+  unpaidRevisions,
+  uncompensatedExclusivity,
+];
+
+/** Every detector's hit in `sentences`, in detector order. */
+export function detectRisks(sentences: string[]): (RuleHit & { same: RegExp })[] {
+  return DETECTORS.flatMap((d) => {
+    const hit = d.find(sentences);
+    return hit ? [{ ...hit, rule: d.rule, same: d.same }] : [];
+  });
+}
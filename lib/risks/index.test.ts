@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { LLMProvider } from "@/lib/llm";
+import { reviewDocument } from "@/lib/review/pipeline";
+import { normalizeSnapshot, type ReviewFindings } from "@/lib/review/schema";
+import { applyRiskRules, clauseSentences, detectRisks } from "./index";
+
+const rulesFor = (text: string) => detectRisks(clauseSentences(text)).map((h) => h.rule);
+
+describe("detectRisks", () => {
+  it.each([
+    ["perpetual-usage", "Brand may use the Content in perpetuity on its owned channels."],
+    ["worldwide-usage", "Brand receives a license to use the Content worldwide."],
+    ["auto-renewal", "This Agreement renews automatically for successive 12-month terms."],
+    ["unilateral-termination", "Brand may terminate this Agreement at any time without notice."],
+    ["long-payment-terms", "Brand will pay each invoice net 90."],
+    ["broad-indemnity", "Creator shall indemnify and hold harmless Brand from any and all claims, including attorneys' fees."],
+    ["morality-clause", "Brand may terminate if Creator brings Brand into public disrepute."],
+    ["unpaid-revisions", "Creator will make unlimited revisions until Brand is satisfied."],
+    ["uncompensated-exclusivity", "Creator will not promote any competing snack brand during an exclusivity period of 6 months."],
+  ])("flags %s", (rule, sentence) => {
+    expect(rulesFor(sentence)).toContain(rule);
+  });
+
+  it("leaves fair terms alone", () => {
+    const fair = [
+      "Brand may use the Content for 6 months on its owned channels in the United States.",
+      "Either party may terminate this Agreement at any time on 30 days' written notice.",
+      "Brand will pay each invoice within 30 days.",
+      "Each party shall indemnify the other against claims arising from its own breach.",
+      "Two rounds of revisions are included at no additional cost.",
+      "Creator will not promote competing snack brands for 3 months, for an exclusivity fee of $1,000.",
+      "This Agreement will not renew automatically.",
+      "Brand receives a non-exclusive license to repost the videos.",
+    ].join(" ");
+    expect(rulesFor(fair)).toEqual([]);
+  });
+});
+
+describe("clauseSentences", () => {
+  it("splits at headings", () => {
+    expect(clauseSentences("PAYMENT TERMS\n1. Fees\nBrand pays $500. Invoices are due\nin 30 days.\n2. Usage\nSix months.")).toEqual([
+      "Brand pays $500.",
+      "Invoices are due in 30 days.",
+      "Six months.",
+    ]);
+  });
+});
+
+describe("applyRiskRules", () => {
+  const text = "1. Usage\nBrand may use the Content in perpetuity.\n2. Payment\nBrand will pay each invoice net 120.";
+  const findings: ReviewFindings = {
+    snapshot: normalizeSnapshot({}),
+    risks: [{ label: "Usage never ends", level: "Med", note: "Perpetual rights." }],
+    counters: [],
+    citations: [],
+  };
+
+  it("confirms matching model risks and adds the rest with citations", () => {
+    const out = applyRiskRules(findings, text);
+    expect(out.risks[0]).toMatchObject({ label: "Usage never ends", level: "High", source: "model", rule: "perpetual-usage", match: "Brand may use the Content in perpetuity." });
+    expect(out.risks[1]).toMatchObject({ source: "rule", rule: "long-payment-terms", level: "High", match: "Brand will pay each invoice net 120." });
+    const cite = out.citations.find((c) => c.target === "risks.1")!;
+    expect(text.slice(cite.start, cite.end)).toBe("Brand will pay each invoice net 120.");
+  });
+
+  it("is deterministic", () => {
+    expect(applyRiskRules(findings, text)).toEqual(applyRiskRules(findings, text));
+  });
+});
+
+describe("reviews without a model", () => {
+  const down: LLMProvider = {
+    name: "openai",
+    model: "unreachable",
+    completeJSON: async () => {
+      throw new Error("connect ECONNREFUSED");
+    },
+  };
+
+  it("still returns the rule findings", async () => {
+    const result = await reviewDocument(
+      { text: "Brand may terminate this Agreement at any time without notice. Brand will pay each invoice net 75." },
+      down,
+      { force: true, persist: false }
+    );
+    expect(result.modelUnavailable).toBe(true);
+    expect(result.risks.map((r) => [r.rule, r.source])).toEqual([
+      ["unilateral-termination", "rule"],
+      ["long-payment-terms", "rule"],
+    ]);
+    expect(result.snapshot.parties).toBe("");
+  });
+});
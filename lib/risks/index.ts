@@ -0,0 +1,52 @@
+// -----------------------------
+// Rule-based risk detection
+// -----------------------------
+// Deterministic detectors run over the contract text next to the model, so the
+// obvious red flags are caught on every run, including when no model is
+// reachable. A detector that agrees with a model risk confirms it (the risk
+// keeps the model's wording and gains the rule and its match); otherwise the
+// detector's own risk is added and cited to the sentence it matched.
+
+import { locateQuote } from "@/lib/review/citations";
+import { RISK_LEVELS, type Citation, type Language, type ReviewFindings, type Risk } from "@/lib/review/schema";
+import { readsTermsIn, sentences } from "@/lib/review/terms";
+import { detectRisks } from "./detectors";
+
+export { DETECTORS, detectRisks, type RuleHit } from "./detectors";
+
+// "2. Payment", "USAGE RIGHTS": short lines without a full stop.
+const HEADING = /^(?:\d+(?:\.\d+)*\.?\s+[A-Z][\w&/,' -]{0,50}|[A-Z][A-Z0-9&/,' -]{2,60})$/;
+
+/** Sentences, never running across a heading (which has no full stop to split on). */
+export function clauseSentences(text: string): string[] {
+  const blocks: string[][] = [[]];
+  for (const line of text.split("\n")) {
+    if (HEADING.test(line.trim())) blocks.push([]);
+    else blocks[blocks.length - 1].push(line);
+  }
+  return blocks.flatMap((b) => sentences(b.join("\n")));
+}
+
+/**
+ * Tags the model's risks and merges in every detector's findings for `text`.
+ * The detectors match English wording, so other languages only get the tagging.
+ */
+export function applyRiskRules(findings: ReviewFindings, text: string, language: Language = "en"): ReviewFindings {
+  const risks: Risk[] = findings.risks.map(({ label, level, note }) => ({ label, level, note, source: "model" }));
+  const citations: Citation[] = [...findings.citations];
+
+  for (const hit of readsTermsIn(language) ? detectRisks(clauseSentences(text)) : []) {
+    const span = locateQuote(text, hit.sentence);
+    const match = span ? text.slice(span.start, span.end) : hit.sentence;
+    const i = risks.findIndex((r) => r.source === "model" && !r.rule && hit.same.test(`${r.label} ${r.note ?? ""}`));
+    if (i !== -1) {
+      const r = risks[i];
+      risks[i] = { ...r, level: RISK_LEVELS.indexOf(hit.level) > RISK_LEVELS.indexOf(r.level) ? hit.level : r.level, rule: hit.rule, match };
+      continue;
+    }
+    risks.push({ label: hit.label, level: hit.level, note: hit.note, source: "rule", rule: hit.rule, match });
+    if (span) citations.push({ target: `risks.${risks.length - 1}`, quote: match, ...span });
+  }
+
+  return { ...findings, risks, citations: citations.sort((a, b) => a.start - b.start) };
+}
@@ -0,0 +1,69 @@
+// -----------------------------
+// Batch review jobs
+// -----------------------------
+// One job per multi-file upload. Items are reviewed in the background and each
+// status change is written back here, so any request can poll the job.
+
+import { randomUUID } from "crypto";
+import type { ProviderName } from "@/lib/llm";
+import type { RiskLevel } from "@/lib/review/schema";
+import { createCollection } from "./collection";
+
+export type BatchItemStatus = "queued" | "running" | "done" | "failed";
+
+export type BatchItem = {
+  index: number;
+  filename: string;
+  status: BatchItemStatus;
+  attempts: number;
+  reviewId?: string;
+  cached?: boolean;
+  highestRisk?: RiskLevel | null;
+  error?: string;
+  finishedAt?: string;
+};
+
+export type BatchJob = {
+  id: string;
+  // Only this principal can read the job.
+  principal: string;
+  // "done" once every item is done or failed.
+  status: "running" | "done";
+  provider: ProviderName;
+  playbook?: { id: string; name: string };
+  items: BatchItem[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+const batches = createCollection<BatchJob>("batches");
+
+export async function createBatch(input: Pick<BatchJob, "principal" | "provider" | "playbook"> & { filenames: string[] }): Promise<BatchJob> {
+  const now = new Date().toISOString();
+  const job: BatchJob = {
+    id: randomUUID(),
+    principal: input.principal,
+    status: "running",
+    provider: input.provider,
+    playbook: input.playbook,
+    items: input.filenames.map((filename, index) => ({ index, filename, status: "queued", attempts: 0 })),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await batches.put(job);
+  return job;
+}
+
+export async function saveBatch(job: BatchJob): Promise<void> {
+  await batches.put({ ...job, updatedAt: new Date().toISOString() });
+}
+
+export function getBatch(id: string): Promise<BatchJob | null> {
+  return batches.get(id);
+}
+
+/** Newest first. */
+export async function listBatches(principal: string): Promise<BatchJob[]> {
+  const all = await batches.list();
+  return all.filter((j) => j.principal === principal).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
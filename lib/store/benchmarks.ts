@@ -0,0 +1,28 @@
+// -----------------------------
+// Imported benchmark deals
+// -----------------------------
+// Historical deals loaded from CSV. Deals from saved reviews aren't copied
+// here; lib/benchmark reads them from the review history directly.
+
+import { randomUUID } from "crypto";
+import type { BenchmarkDeal } from "@/lib/benchmark/schema";
+import { createCollection } from "./collection";
+
+export type ImportedDeal = BenchmarkDeal & { source: "import"; importedAt: string };
+
+const deals = createCollection<ImportedDeal>("benchmarks");
+
+export async function saveImportedDeals(input: Omit<BenchmarkDeal, "id" | "source">[]): Promise<ImportedDeal[]> {
+  const importedAt = new Date().toISOString();
+  const saved = input.map((d): ImportedDeal => ({ ...d, id: randomUUID(), source: "import", importedAt }));
+  for (const d of saved) await deals.put(d);
+  return saved;
+}
+
+export function listImportedDeals(): Promise<ImportedDeal[]> {
+  return deals.list();
+}
+
+export function deleteImportedDeal(id: string): Promise<boolean> {
+  return deals.delete(id);
+}
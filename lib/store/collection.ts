@@ -0,0 +1,90 @@
+// -----------------------------
+// File-backed JSON collections
+// -----------------------------
+// One JSON file per document under DATA_DIR/<collection>/. Good enough for a
+// single-server deployment and local development; no native dependencies.
+
+import { promises as fs } from "fs";
+import path from "path";
+
+export function dataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+const SAFE_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isSafeId(id: string): boolean {
+  return SAFE_ID.test(id);
+}
+
+export type Collection<T extends { id: string }> = {
+  get(id: string): Promise<T | null>;
+  put(doc: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  // Documents that can't be parsed are skipped with a warning rather than failing the whole list.
+  list(): Promise<T[]>;
+};
+
+export function createCollection<T extends { id: string }>(name: string): Collection<T> {
+  const dir = () => path.join(dataDir(), name);
+  const file = (id: string) => {
+    if (!isSafeId(id)) throw new Error(`Invalid id: ${id}`);
+    return path.join(dir(), `${id}.json`);
+  };
+
+  async function names(): Promise<string[]> {
+    try {
+      return (await fs.readdir(dir())).filter((n) => n.endsWith(".json"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  async function read(p: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(p, "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  return {
+    async get(id) {
+      return isSafeId(id) ? read(file(id)) : null;
+    },
+    async put(doc) {
+      await fs.mkdir(dir(), { recursive: true });
+      // Write-then-rename so readers never see a half-written file.
+      const target = file(doc.id);
+      const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(doc));
+      await fs.rename(tmp, target);
+    },
+    async delete(id) {
+      if (!isSafeId(id)) return false;
+      try {
+        await fs.unlink(file(id));
+        return true;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+        throw err;
+      }
+    },
+    async list() {
+      const docs: (T | null)[] = await Promise.all((await names()).map(async (n) => {
+        const p = path.join(dir(), n);
+        try {
+          const doc = await read(p);
+          if (doc === null || typeof doc.id === "string") return doc;
+        } catch (err) {
+          if (!(err instanceof SyntaxError)) throw err;
+        }
+        console.warn(`skipping unreadable document ${p}`);
+        return null;
+      }));
+      return docs.filter((d): d is T => d !== null);
+    },
+  };
+}
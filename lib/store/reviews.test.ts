@@ -0,0 +1,45 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { normalizeResult } from "@/lib/review/schema";
+import { findReviewByHash, listReviewDeals, listReviews, saveReview } from "./reviews";
+
+const provider = { name: "mock", model: "mock-heuristic" };
+const result = (parties: string) => ({ ...normalizeResult({ snapshot: { parties } }), provider });
+
+describe("review store", () => {
+  beforeAll(async () => {
+    process.env.DATA_DIR = await fs.mkdtemp(path.join(os.tmpdir(), "reviews-"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(process.env.DATA_DIR!, { recursive: true, force: true });
+    delete process.env.DATA_DIR;
+  });
+
+  it("skips documents it can't parse instead of failing the list", async () => {
+    const saved = await saveReview({ hash: "a", text: "t", result: result("Acme / Creator") });
+    await fs.writeFile(path.join(process.env.DATA_DIR!, "reviews", "broken.json"), "{ not json");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect((await listReviews()).map((r) => r.id)).toEqual([saved.id]);
+    expect(await findReviewByHash("a", { provider })).toMatchObject({ id: saved.id });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+    await fs.rm(path.join(process.env.DATA_DIR!, "reviews", "broken.json"));
+  });
+
+  it("only reuses a review from the same provider and model", async () => {
+    const saved = await saveReview({ hash: "b", text: "t", result: result("Brand / Creator") });
+    expect(await findReviewByHash("b", { provider })).toMatchObject({ id: saved.id });
+    expect(await findReviewByHash("b", { provider: { name: "openai", model: "gpt-4o-mini" } })).toBeNull();
+  });
+
+  it("lists each review's deal from the key index", async () => {
+    const terms = { payment: { perDeliverable: { amount: 500, currency: "USD" }, schedule: [] }, term: {}, deliverables: [], usage: { media: [], perpetual: false } };
+    const saved = await saveReview({ hash: "d", filename: "deal.pdf", text: "t", result: { ...result("Deal / Creator"), terms } });
+    const deals = await listReviewDeals();
+    expect(deals.find((d) => d.id === saved.id)).toMatchObject({ label: "deal.pdf", deal: { rate: { amount: 500, currency: "USD" } } });
+    expect(deals.find((d) => d.hash === "b")).toMatchObject({ label: "Brand / Creator", deal: null });
+  });
+});
@@ -0,0 +1,179 @@
+// -----------------------------
+// Saved reviews
+// -----------------------------
+
+import { createHash, randomUUID } from "crypto";
+import { dealProfile } from "@/lib/benchmark/compare";
+import type { DealProfile } from "@/lib/benchmark/schema";
+import { applyEdits } from "@/lib/review/edits";
+import { RISK_LEVELS, type Language, type Money, type ReviewEdits, type ReviewResult, type ReviewStatus, type RiskLevel } from "@/lib/review/schema";
+import { createCollection } from "./collection";
+
+export type StoredReview = {
+  id: string;
+  // sha256 of the uploaded bytes (or pasted text); used as the cache key.
+  hash: string;
+  filename?: string;
+  // Digest of the playbook the review ran with; a different playbook means a different review.
+  playbook?: string;
+  // Entities that were redacted before the model saw the text, comma-separated.
+  redaction?: string;
+  // Output language the review was translated into, if one was asked for.
+  language?: Language;
+  text: string;
+  // The AI output, as it was first saved; never rewritten.
+  result: ReviewResult;
+  // The reviewer's corrections to it, once there are any.
+  edits?: ReviewEdits;
+  createdAt: string;
+};
+
+export type ReviewSummary = {
+  id: string;
+  hash: string;
+  filename?: string;
+  parties: string;
+  rate: string;
+  term: string;
+  // From the structured terms, when the review has them; used for sorting.
+  fee?: Money;
+  termMonths?: number;
+  highestRisk: RiskLevel | null;
+  risks: number;
+  playbook?: string;
+  status?: ReviewStatus;
+  reviewer?: string;
+  createdAt: string;
+};
+
+const reviews = createCollection<StoredReview>("reviews");
+
+// What the cache lookup and the rate benchmark need to know about a review, kept apart from it so
+// that neither means parsing every stored contract. One per review, under the same id.
+type ReviewKey = Pick<StoredReview, "id" | "hash" | "playbook" | "redaction" | "language" | "createdAt"> & {
+  provider?: ReviewResult["provider"];
+  modelUnavailable?: boolean;
+  // File name or parties, for the benchmark's deal list.
+  label?: string;
+  // null when the review has no usable rate.
+  deal: DealProfile | null;
+};
+
+/** A saved review as a past deal for the rate benchmark. */
+export type ReviewDeal = Pick<ReviewKey, "id" | "hash" | "createdAt" | "label" | "deal">;
+
+const reviewKeys = createCollection<ReviewKey>("review-keys");
+
+function reviewKey(r: StoredReview): ReviewKey {
+  return {
+    id: r.id,
+    hash: r.hash,
+    playbook: r.playbook,
+    redaction: r.redaction,
+    language: r.language,
+    createdAt: r.createdAt,
+    provider: r.result.provider,
+    modelUnavailable: r.result.modelUnavailable,
+    label: r.filename ?? (r.result.snapshot.parties || undefined),
+    // Only English contracts have terms (see readsTermsIn).
+    deal: r.result.terms ? dealProfile(r.result.terms) : null,
+  };
+}
+
+export function contentHash(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export function highestRisk(result: Pick<ReviewResult, "risks">): RiskLevel | null {
+  let best = -1;
+  for (const r of result.risks) best = Math.max(best, RISK_LEVELS.indexOf(r.level));
+  return best === -1 ? null : RISK_LEVELS[best];
+}
+
+// Lists show the reviewed version, like the exports.
+function summarize(r: StoredReview): ReviewSummary {
+  const result = applyEdits(r.result, r.edits);
+  return {
+    id: r.id,
+    hash: r.hash,
+    filename: r.filename,
+    parties: result.snapshot.parties,
+    rate: result.snapshot.rate,
+    term: result.snapshot.term,
+    fee: result.terms?.payment.total,
+    termMonths: result.terms?.term.months,
+    highestRisk: highestRisk(result),
+    risks: result.risks.length,
+    playbook: result.playbook?.name,
+    status: r.edits?.status,
+    reviewer: r.edits?.reviewer,
+    createdAt: r.createdAt,
+  };
+}
+
+/** Stores a review and stamps its id/createdAt onto the saved result as well. */
+export async function saveReview(input: Omit<StoredReview, "id" | "createdAt">): Promise<StoredReview> {
+  const id = randomUUID();
+  const createdAt = new Date().toISOString();
+  const review: StoredReview = { ...input, id, createdAt, result: { ...input.result, reviewId: id, createdAt } };
+  await reviews.put(review);
+  await reviewKeys.put(reviewKey(review));
+  return review;
+}
+
+export function getReview(id: string): Promise<StoredReview | null> {
+  return reviews.get(id);
+}
+
+/** Replaces the review's edits; null when there's no such review. */
+export async function saveReviewEdits(id: string, edits: ReviewEdits): Promise<StoredReview | null> {
+  const review = await reviews.get(id);
+  if (!review) return null;
+  const updated = { ...review, edits };
+  await reviews.put(updated);
+  return updated;
+}
+
+export async function deleteReview(id: string): Promise<boolean> {
+  await reviewKeys.delete(id);
+  return reviews.delete(id);
+}
+
+/** Full records, in no particular order. */
+export function listStoredReviews(): Promise<StoredReview[]> {
+  return reviews.list();
+}
+
+/** Every saved review's deal, read from the key index. */
+export async function listReviewDeals(): Promise<ReviewDeal[]> {
+  return (await reviewKeys.list()).map(({ id, hash, createdAt, label, deal }) => ({ id, hash, createdAt, label, deal }));
+}
+
+/** Newest first. */
+export async function listReviews(): Promise<ReviewSummary[]> {
+  const all = await reviews.list();
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(summarize);
+}
+
+// Besides the content, what has to match for a saved review to stand in for a new one.
+export type ReviewVariant = Pick<StoredReview, "playbook" | "redaction" | "language"> & Pick<ReviewResult, "provider">;
+
+/**
+ * Most recent review of identical content under the same playbook, redaction settings, output
+ * language and provider/model, if any.
+ * Rule-only reviews (model unavailable) are never reused.
+ */
+export async function findReviewByHash(hash: string, variant: ReviewVariant = {}): Promise<StoredReview | null> {
+  const matches = (await reviewKeys.list()).filter(
+    (k) =>
+      k.hash === hash &&
+      k.playbook === variant.playbook &&
+      k.redaction === variant.redaction &&
+      k.language === variant.language &&
+      k.provider?.name === variant.provider?.name &&
+      k.provider?.model === variant.provider?.model &&
+      !k.modelUnavailable
+  );
+  const latest = matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  return latest ? reviews.get(latest.id) : null;
+}
@@ -0,0 +1,57 @@
+// -----------------------------
+// Usage ledger
+// -----------------------------
+// One entry per API request that reached a model: who made it, which route
+// and provider, and how many tokens it consumed. Cache hits are recorded too,
+// with zero tokens, so the ledger shows every billable-looking call.
+
+import { randomUUID } from "crypto";
+import type { ProviderName, UsageTotals } from "@/lib/llm";
+import { createCollection } from "./collection";
+
+export type UsageEntry = UsageTotals & {
+  id: string;
+  // API key name, "session:<name>", or "ip:<address>" when auth is off.
+  principal: string;
+  route: string;
+  provider: ProviderName;
+  model: string;
+  status: number;
+  cached?: boolean;
+  createdAt: string;
+};
+
+export type UsageSummary = UsageTotals & { requests: number };
+
+const ledger = createCollection<UsageEntry>("usage");
+
+export async function recordUsage(input: Omit<UsageEntry, "id" | "createdAt">): Promise<UsageEntry> {
+  const entry: UsageEntry = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+  await ledger.put(entry);
+  return entry;
+}
+
+/** Newest first, optionally for one principal and/or since an ISO timestamp. */
+export async function listUsage(filter: { principal?: string; since?: string } = {}): Promise<UsageEntry[]> {
+  const all = await ledger.list();
+  return all
+    .filter((e) => (!filter.principal || e.principal === filter.principal) && (!filter.since || e.createdAt >= filter.since))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function summarizeUsage(entries: UsageEntry[]): UsageSummary {
+  const out: UsageSummary = { requests: 0, calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  for (const e of entries) {
+    out.requests++;
+    out.calls += e.calls;
+    out.promptTokens += e.promptTokens;
+    out.completionTokens += e.completionTokens;
+    out.totalTokens += e.totalTokens;
+  }
+  return out;
+}
+
+/** Records in the background; a failed ledger write never fails the request it describes. */
+export function logUsage(input: Omit<UsageEntry, "id" | "createdAt">): void {
+  recordUsage(input).catch((err) => console.error("usage ledger write failed", err));
+}
@@ -0,0 +1,56 @@
+// -----------------------------
+// Webhook subscriptions and delivery log
+// -----------------------------
+
+import { randomUUID } from "crypto";
+import type { Webhook, WebhookDelivery, WebhookSettings } from "@/lib/webhooks/schema";
+import { createCollection } from "./collection";
+
+export type StoredWebhook = Webhook & { secret: string };
+
+const webhooks = createCollection<StoredWebhook>("webhooks");
+const deliveries = createCollection<WebhookDelivery>("webhook-deliveries");
+
+// Secrets can be as short as 16 characters, so only the tail is shown.
+function secretHint(secret: string): string {
+  return `…${secret.slice(-4)}`;
+}
+
+export async function createWebhook(input: WebhookSettings & { secret: string; createdBy: string }): Promise<StoredWebhook> {
+  const hook: StoredWebhook = {
+    id: randomUUID(),
+    url: input.url,
+    events: input.events,
+    description: input.description,
+    active: input.active,
+    secret: input.secret,
+    secretHint: secretHint(input.secret),
+    createdBy: input.createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  await webhooks.put(hook);
+  return hook;
+}
+
+export function getWebhook(id: string): Promise<StoredWebhook | null> {
+  return webhooks.get(id);
+}
+
+/** Oldest first. */
+export async function listWebhooks(): Promise<StoredWebhook[]> {
+  return (await webhooks.list()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function deleteWebhook(id: string): Promise<boolean> {
+  return webhooks.delete(id);
+}
+
+export function saveDelivery(delivery: WebhookDelivery): Promise<void> {
+  return deliveries.put({ ...delivery, updatedAt: new Date().toISOString() });
+}
+
+/** Newest first. */
+export async function listDeliveries(webhookId: string, limit = 100): Promise<WebhookDelivery[]> {
+  const all = (await deliveries.list()).filter((d) => d.webhookId === webhookId);
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, limit);
+}
@@ -0,0 +1,158 @@
+// -----------------------------
+// Webhook delivery
+// -----------------------------
+// Each event is POSTed to every active webhook subscribed to it. A delivery
+// that gets no answer, a timeout, a 408, 429 or 5xx is retried with
+// exponential backoff, up to WEBHOOK_MAX_ATTEMPTS attempts in all; any other
+// non-2xx answer fails it at once, as does a URL that now resolves to a private
+// address (see target.ts). Every attempt is written to the delivery
+// log. Retries wait inside this server process, so a restart fails whatever
+// was still pending (it shows as failed the next time the log is read).
+
+import { randomUUID } from "crypto";
+import { API_VERSION, versionedReview } from "@/lib/api/version";
+import type { ReviewResult } from "@/lib/review/schema";
+import { listDeliveries, listWebhooks, saveDelivery, type StoredWebhook } from "@/lib/store/webhooks";
+import type { DeliveryEvent, WebhookDelivery, WebhookEvent } from "./schema";
+import { EVENT_HEADER, ID_HEADER, SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER } from "./signature";
+import { webhookTargetError } from "./target";
+
+function envInt(name: string, fallback: number, min: number): number {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n >= min ? n : fallback;
+}
+
+const maxAttempts = () => envInt("WEBHOOK_MAX_ATTEMPTS", 6, 1);
+const retryBaseMs = () => envInt("WEBHOOK_RETRY_BASE_MS", 5000, 0);
+
+const RETRY_MAX_MS = 10 * 60_000;
+const TIMEOUT_MS = 10_000;
+
+// Deliveries with a runner in this process.
+const active = new Set<string>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const retryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// The contract text can be megabytes; receivers that need it fetch /api/reviews/:id.
+function eventReview(review: ReviewResult) {
+  const rest = { ...versionedReview(review) };
+  delete rest.rawText;
+  return rest;
+}
+
+export function webhookEvent(type: DeliveryEvent, review?: ReviewResult): WebhookEvent {
+  return {
+    id: randomUUID(),
+    type,
+    apiVersion: API_VERSION,
+    createdAt: new Date().toISOString(),
+    data: review ? { review: eventReview(review) } : {},
+  };
+}
+
+/** Sends `event` to `hook` until it's accepted or out of attempts; resolves with the final log entry. */
+export async function deliverWebhook(hook: StoredWebhook, event: WebhookEvent, opts: { maxAttempts?: number } = {}): Promise<WebhookDelivery> {
+  const body = JSON.stringify(event);
+  const limit = opts.maxAttempts ?? maxAttempts();
+  const now = new Date().toISOString();
+  const delivery: WebhookDelivery = {
+    id: randomUUID(),
+    webhookId: hook.id,
+    eventId: event.id,
+    event: event.type,
+    reviewId: event.data.review?.reviewId,
+    status: "pending",
+    attempts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  // Saves are chained so a slow write never lands after a newer one.
+  let writes = Promise.resolve();
+  const persist = () => {
+    const snapshot = structuredClone(delivery);
+    writes = writes.then(() => saveDelivery(snapshot)).catch((err) => console.error("saving webhook delivery failed", err));
+  };
+
+  active.add(delivery.id);
+  persist();
+  try {
+    for (;;) {
+      const started = Date.now();
+      const timestamp = Math.floor(started / 1000);
+      let responseStatus: number | undefined;
+      // DNS can change after the webhook was registered.
+      const blocked = await webhookTargetError(hook.url);
+      let error: string | undefined = blocked ?? undefined;
+      if (!blocked) {
+        try {
+          const res = await fetch(hook.url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "User-Agent": `contract-review-webhooks/${API_VERSION}`,
+              [ID_HEADER]: event.id,
+              [EVENT_HEADER]: event.type,
+              [TIMESTAMP_HEADER]: String(timestamp),
+              [SIGNATURE_HEADER]: signPayload(hook.secret, timestamp, body),
+            },
+            body,
+            // A redirect is an answer, not something to follow with a signed body.
+            redirect: "manual",
+            signal: AbortSignal.timeout(TIMEOUT_MS),
+          });
+          responseStatus = res.status;
+          await res.body?.cancel();
+          if (!res.ok) error = `HTTP ${res.status}`;
+        } catch (err) {
+          error = err instanceof Error && err.name === "TimeoutError" ? `No response within ${TIMEOUT_MS / 1000}s` : String((err as Error)?.cause ?? err);
+        }
+      }
+      delivery.attempts.push({ at: new Date(started).toISOString(), durationMs: Date.now() - started, responseStatus, error });
+      delivery.nextAttemptAt = undefined;
+
+      if (!error) {
+        delivery.status = "succeeded";
+        break;
+      }
+      if (blocked || (responseStatus !== undefined && !retryable(responseStatus)) || delivery.attempts.length >= limit) {
+        delivery.status = "failed";
+        break;
+      }
+      const wait = Math.min(RETRY_MAX_MS, retryBaseMs() * 2 ** (delivery.attempts.length - 1));
+      delivery.nextAttemptAt = new Date(Date.now() + wait).toISOString();
+      persist();
+      await sleep(wait);
+    }
+    persist();
+    await writes;
+    return delivery;
+  } finally {
+    active.delete(delivery.id);
+  }
+}
+
+/** Fans a finished review out to every subscribed webhook. Never throws; failures are in the delivery log. */
+export async function notifyReviewCompleted(review: ReviewResult): Promise<void> {
+  try {
+    const hooks = (await listWebhooks()).filter((h) => h.active && h.events.includes("review.completed"));
+    if (!hooks.length) return;
+    const event = webhookEvent("review.completed", review);
+    await Promise.all(hooks.map((h) => deliverWebhook(h, event)));
+  } catch (err) {
+    console.error("webhook dispatch failed", err);
+  }
+}
+
+/** The log for one webhook, newest first; deliveries whose runner is gone (server restart) read as failed. */
+export async function webhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+  const all = await listDeliveries(webhookId);
+  for (const d of all) {
+    if (d.status !== "pending" || active.has(d.id)) continue;
+    Object.assign(d, { status: "failed", nextAttemptAt: undefined });
+    d.attempts.push({ at: new Date().toISOString(), durationMs: 0, error: "Interrupted by a server restart." });
+    await saveDelivery(d);
+  }
+  return all;
+}
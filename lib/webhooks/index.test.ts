@@ -0,0 +1,157 @@
+import { promises as fs } from "fs";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createWebhook, listDeliveries } from "@/lib/store/webhooks";
+import { normalizeSnapshot, type ReviewResult } from "@/lib/review/schema";
+import {
+  deliverWebhook, isPublicAddress, SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER, verifyWebhookSignature, webhookEvent, WebhookEventSchema,
+  WebhookInputSchema, webhookTargetError,
+} from "./index";
+
+describe("webhook targets", () => {
+  it("refuses loopback, private and link-local addresses", () => {
+    for (const address of ["127.0.0.1", "10.0.0.5", "172.16.3.4", "192.168.1.1", "169.254.169.254", "::1", "fe80::1", "fd00::1", "::ffff:7f00:1"]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:4700::1111")).toBe(true);
+  });
+
+  it("checks what a URL's host resolves to", async () => {
+    expect(await webhookTargetError("http://localhost:4000/")).toMatch(/private, loopback or link-local/);
+    expect(await webhookTargetError("http://[::ffff:127.0.0.1]/hook")).toMatch(/private, loopback or link-local/);
+    expect(await webhookTargetError("http://2130706433/")).toMatch(/private, loopback or link-local/);
+    expect(await webhookTargetError("https://93.184.216.34/hook")).toBeNull();
+  });
+});
+
+describe("webhook signatures", () => {
+  const secret = "whsec_test_secret_1234";
+  const body = JSON.stringify({ id: "evt_1", type: "ping" });
+  const now = 1_700_000_000_000;
+  const timestamp = String(now / 1000);
+  const signature = signPayload(secret, now / 1000, body);
+
+  it("verifies its own signature", () => {
+    expect(signature).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, { body, timestamp, signature }, { now })).toBe(true);
+  });
+
+  it("rejects a changed body, another secret or a missing header", () => {
+    expect(verifyWebhookSignature(secret, { body: body.replace("ping", "pong"), timestamp, signature }, { now })).toBe(false);
+    expect(verifyWebhookSignature("whsec_other_secret_12", { body, timestamp, signature }, { now })).toBe(false);
+    expect(verifyWebhookSignature(secret, { body, timestamp: null, signature }, { now })).toBe(false);
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    expect(verifyWebhookSignature(secret, { body, timestamp, signature }, { now: now + 299_000 })).toBe(true);
+    expect(verifyWebhookSignature(secret, { body, timestamp, signature }, { now: now + 301_000 })).toBe(false);
+  });
+});
+
+describe("WebhookInputSchema", () => {
+  it("fills in defaults and refuses other schemes or unknown fields", () => {
+    expect(WebhookInputSchema.parse({ url: "https://example.com/hook" })).toEqual({ url: "https://example.com/hook", events: ["review.completed"], active: true });
+    expect(WebhookInputSchema.safeParse({ url: "ftp://example.com/hook" }).success).toBe(false);
+    expect(WebhookInputSchema.safeParse({ url: "https://example.com/hook", retries: 3 }).success).toBe(false);
+  });
+});
+
+describe("deliverWebhook", () => {
+  let server: Server;
+  let url: string;
+  const seen: { status: number; verified: boolean }[] = [];
+  // Answers each request with the next status; the last one repeats.
+  let replies: number[] = [];
+  const secret = "whsec_receiver_secret_1";
+
+  beforeAll(async () => {
+    process.env.DATA_DIR = await fs.mkdtemp(path.join(os.tmpdir(), "webhooks-"));
+    process.env.WEBHOOK_RETRY_BASE_MS = "1";
+    // The receiver listens on loopback.
+    process.env.WEBHOOK_ALLOW_PRIVATE = "1";
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (c: Buffer) => chunks.push(c));
+      req.on("end", () => {
+        const verified = verifyWebhookSignature(secret, {
+          body: Buffer.concat(chunks).toString("utf8"),
+          timestamp: req.headers[TIMESTAMP_HEADER.toLowerCase()] as string,
+          signature: req.headers[SIGNATURE_HEADER.toLowerCase()] as string,
+        });
+        const status = replies.length > 1 ? replies.shift()! : replies[0];
+        seen.push({ status, verified });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(process.env.DATA_DIR!, { recursive: true, force: true });
+    delete process.env.DATA_DIR;
+    delete process.env.WEBHOOK_RETRY_BASE_MS;
+    delete process.env.WEBHOOK_ALLOW_PRIVATE;
+  });
+
+  const review: ReviewResult = {
+    snapshot: normalizeSnapshot({ parties: "Acme / Creator", rate: "$500" }),
+    risks: [{ label: "Perpetual usage", level: "High" }],
+    counters: ["Limit usage to 6 months."],
+    citations: [],
+    rawText: "The full contract.",
+    reviewId: "rev_1",
+  };
+
+  it("retries a failing receiver and logs every attempt", async () => {
+    seen.length = 0;
+    replies = [503, 204];
+    const hook = await createWebhook({ url, events: ["review.completed"], active: true, secret, createdBy: "test" });
+    const delivery = await deliverWebhook(hook, webhookEvent("review.completed", review));
+
+    expect(delivery.status).toBe("succeeded");
+    expect(delivery.attempts.map((a) => a.responseStatus)).toEqual([503, 204]);
+    expect(delivery.attempts[0].error).toBe("HTTP 503");
+    expect(seen.every((s) => s.verified)).toBe(true);
+    expect((await listDeliveries(hook.id))[0]).toMatchObject({ id: delivery.id, status: "succeeded", reviewId: "rev_1" });
+  });
+
+  it("gives up at once on a 4xx and after the last attempt on 5xx", async () => {
+    replies = [410];
+    const hook = await createWebhook({ url, events: ["review.completed"], active: true, secret, createdBy: "test" });
+    const gone = await deliverWebhook(hook, webhookEvent("ping"), { maxAttempts: 3 });
+    expect(gone.status).toBe("failed");
+    expect(gone.attempts).toHaveLength(1);
+
+    replies = [500];
+    const down = await deliverWebhook(hook, webhookEvent("ping"), { maxAttempts: 3 });
+    expect(down.status).toBe("failed");
+    expect(down.attempts).toHaveLength(3);
+  });
+
+  it("fails a delivery to a private address at once, without sending it", async () => {
+    seen.length = 0;
+    const hook = await createWebhook({ url, events: ["review.completed"], active: true, secret, createdBy: "test" });
+    delete process.env.WEBHOOK_ALLOW_PRIVATE;
+    try {
+      const delivery = await deliverWebhook(hook, webhookEvent("ping"), { maxAttempts: 3 });
+      expect(delivery.status).toBe("failed");
+      expect(delivery.attempts).toHaveLength(1);
+      expect(seen).toEqual([]);
+    } finally {
+      process.env.WEBHOOK_ALLOW_PRIVATE = "1";
+    }
+  });
+
+  it("sends the versioned review without the contract text", () => {
+    const event = webhookEvent("review.completed", review);
+    expect(WebhookEventSchema.safeParse(event).success).toBe(true);
+    expect(event.data.review).toMatchObject({ apiVersion: "1", reviewId: "rev_1" });
+    expect(event.data.review).not.toHaveProperty("rawText");
+  });
+});
@@ -0,0 +1,9 @@
+export { deliverWebhook, notifyReviewCompleted, webhookDeliveries, webhookEvent } from "./deliver";
+export {
+  DELIVERY_EVENTS, DELIVERY_STATUSES, WEBHOOK_EVENTS, DeliveryAttemptSchema, WebhookDeliverySchema, WebhookEventSchema, WebhookInputSchema, WebhookSchema,
+  type DeliveryAttempt, type DeliveryEvent, type Webhook, type WebhookDelivery, type WebhookEvent, type WebhookEventType, type WebhookInput, type WebhookSettings,
+} from "./schema";
+export {
+  EVENT_HEADER, ID_HEADER, SIGNATURE_HEADER, SIGNATURE_TOLERANCE_SECONDS, TIMESTAMP_HEADER, generateWebhookSecret, signPayload, verifyWebhookSignature,
+} from "./signature";
+export { isPublicAddress, webhookTargetError } from "./target";
@@ -0,0 +1,78 @@
+// -----------------------------
+// Outbound webhook schema
+// -----------------------------
+// Subscriptions, the events we send them and the delivery log. The same
+// schemas validate requests and are published in the OpenAPI spec.
+
+import { z } from "zod";
+import { API_VERSION, ReviewResponseSchema } from "@/lib/api/version";
+
+// What a webhook can subscribe to. "ping" is only sent by the test endpoint.
+export const WEBHOOK_EVENTS = ["review.completed"] as const;
+export const DELIVERY_EVENTS = [...WEBHOOK_EVENTS, "ping"] as const;
+export const DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+
+export const WebhookInputSchema = z.object({
+  url: z.string().url().refine((u) => /^https?:\/\//i.test(u), "Must be an http:// or https:// URL"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).default(["review.completed"]),
+  description: z.string().max(200).optional(),
+  // Shared signing secret; one is generated when it's left out.
+  secret: z.string().min(16).max(200).optional(),
+  active: z.boolean().default(true),
+}).strict();
+
+/** A subscription as the API shows it; the secret itself is only returned when the webhook is created. */
+export const WebhookSchema = z.object({
+  id: z.string(),
+  url: z.string().url(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  description: z.string().optional(),
+  active: z.boolean(),
+  // Last characters of the secret, to tell them apart.
+  secretHint: z.string(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+});
+
+export const DeliveryAttemptSchema = z.object({
+  at: z.string(),
+  durationMs: z.number().int().min(0),
+  // Missing when no response came back (refused, timed out).
+  responseStatus: z.number().int().optional(),
+  error: z.string().optional(),
+});
+
+export const WebhookDeliverySchema = z.object({
+  id: z.string(),
+  webhookId: z.string(),
+  // Sent as X-Webhook-Id; the same for every webhook the event went to.
+  eventId: z.string(),
+  event: z.enum(DELIVERY_EVENTS),
+  reviewId: z.string().optional(),
+  status: z.enum(DELIVERY_STATUSES),
+  attempts: z.array(DeliveryAttemptSchema),
+  // Set while waiting to retry.
+  nextAttemptAt: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/** The JSON body POSTed to a webhook. The review leaves out `rawText` (the full contract). */
+export const WebhookEventSchema = z.object({
+  id: z.string(),
+  type: z.enum(DELIVERY_EVENTS),
+  apiVersion: z.literal(API_VERSION),
+  createdAt: z.string(),
+  data: z.object({
+    review: ReviewResponseSchema.omit({ rawText: true }).optional(),
+  }),
+});
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+export type DeliveryEvent = (typeof DELIVERY_EVENTS)[number];
+export type WebhookInput = z.input<typeof WebhookInputSchema>;
+export type WebhookSettings = z.output<typeof WebhookInputSchema>;
+export type Webhook = z.output<typeof WebhookSchema>;
+export type DeliveryAttempt = z.output<typeof DeliveryAttemptSchema>;
+export type WebhookDelivery = z.output<typeof WebhookDeliverySchema>;
+export type WebhookEvent = z.output<typeof WebhookEventSchema>;
@@ -0,0 +1,42 @@
+// -----------------------------
+// Webhook signatures
+// -----------------------------
+// Every delivery is signed with the webhook's secret:
+//
+//   X-Webhook-Timestamp: <unix seconds>
+//   X-Webhook-Signature: v1=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+//
+// Receivers recompute the HMAC over the raw body and reject old timestamps, so
+// a captured request can't be replayed later.
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+export const ID_HEADER = "X-Webhook-Id";
+export const EVENT_HEADER = "X-Webhook-Event";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+// How far a receiver should let the timestamp drift from its own clock.
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** True when `signature` is ours for this body and the timestamp is recent. `now` is in milliseconds. */
+export function verifyWebhookSignature(
+  secret: string,
+  { body, timestamp, signature }: { body: string; timestamp: string | null; signature: string | null },
+  { toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS, now = Date.now() } = {}
+): boolean {
+  const ts = Number(timestamp);
+  if (!timestamp || !signature || !Number.isInteger(ts)) return false;
+  if (Math.abs(now / 1000 - ts) > toleranceSeconds) return false;
+  const expected = Buffer.from(signPayload(secret, ts, body));
+  const given = Buffer.from(signature.trim());
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,46 @@
+// -----------------------------
+// Webhook target checks
+// -----------------------------
+// Webhook URLs come from API callers, and the server POSTs to them, so they
+// mustn't reach anything only the server can: loopback, private networks,
+// link-local (cloud metadata at 169.254.169.254) and the like. A host name is
+// checked by every address it resolves to, when the webhook is registered and
+// again before each delivery attempt. WEBHOOK_ALLOW_PRIVATE=1 turns this off
+// for local development (the receiver in scripts/ listens on localhost).
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// One list per family: a BlockList also matches IPv4 addresses against IPv6 rules for ::ffff:0:0/96.
+const blocked4 = new BlockList();
+const blocked6 = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) blocked4.addSubnet(net, prefix, "ipv4");
+for (const [net, prefix] of [
+  // IPv4-mapped addresses (::ffff:a.b.c.d) as a whole; a webhook has no reason to use them.
+  ["::", 127], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) blocked6.addSubnet(net, prefix, "ipv6");
+
+const allowPrivate = () => process.env.WEBHOOK_ALLOW_PRIVATE === "1" || process.env.WEBHOOK_ALLOW_PRIVATE === "true";
+
+/** Whether the server may send requests to `address` (an IP literal). */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return !blocked4.check(address, "ipv4");
+  return version === 6 && !blocked6.check(address, "ipv6");
+}
+
+/** Why the server won't deliver to `url`, or null when it will. */
+export async function webhookTargetError(url: string): Promise<string | null> {
+  if (allowPrivate()) return null;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    return `Can't resolve ${host}`;
+  }
+  return addresses.every(isPublicAddress) ? null : `${host} is a private, loopback or link-local address`;
+}
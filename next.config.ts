@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native/worker-based packages used by the OCR fallback must not be bundled.
+  serverExternalPackages: ["canvas", "pdfjs-dist", "tesseract.js", "@tesseract.js-data/eng"],
 };
 
 export default nextConfig;
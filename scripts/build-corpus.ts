@@ -0,0 +1,81 @@
+// -----------------------------
+// Golden corpus fixtures
+// -----------------------------
+// Renders eval/corpus/src/<id>.txt into the PDF or DOCX fixture its
+// eval/corpus/<id>.json expects, so fixtures can be regenerated after editing
+// the source text. Usage: npm run corpus:build
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import { PDFDocument, StandardFonts, type PDFFont } from "pdf-lib";
+import { CORPUS_DIR, loadCorpus } from "@/lib/eval";
+
+const PAGE = { width: 612, height: 792 }; // US Letter
+const MARGIN = 72;
+const SIZE = 11;
+const LEADING = 15;
+
+function wrap(paragraph: string, font: PDFFont): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, SIZE) > PAGE.width - MARGIN * 2) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+// Headings ("1. Term", all-caps titles) are bold in both formats.
+const isHeading = (line: string) => /^(?:\d+\.\s|[A-Z][A-Z ]+$)/.test(line);
+
+async function renderPdf(text: string): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  let page = doc.addPage([PAGE.width, PAGE.height]);
+  let y = PAGE.height - MARGIN;
+  for (const paragraph of text.split("\n")) {
+    const font = isHeading(paragraph) ? bold : regular;
+    for (const line of paragraph.trim() ? wrap(paragraph, font) : [""]) {
+      if (y < MARGIN) {
+        page = doc.addPage([PAGE.width, PAGE.height]);
+        y = PAGE.height - MARGIN;
+      }
+      if (line) page.drawText(line, { x: MARGIN, y, size: SIZE, font });
+      y -= LEADING;
+    }
+  }
+  return Buffer.from(await doc.save());
+}
+
+async function renderDocx(text: string): Promise<Buffer> {
+  const paragraphs = text.split("\n").filter((l) => l.trim()).map((l) =>
+    /^[A-Z][A-Z ]+$/.test(l)
+      ? new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(l)] })
+      : new Paragraph({ children: [new TextRun({ text: l, bold: /^\d+\.\s/.test(l) })] })
+  );
+  return Packer.toBuffer(new Document({ creator: "Corpus builder", sections: [{ children: paragraphs }] }));
+}
+
+async function main() {
+  for (const c of await loadCorpus()) {
+    const source = await fs.readFile(path.join(CORPUS_DIR, "src", `${c.id}.txt`), "utf8");
+    const ext = path.extname(c.file).toLowerCase();
+    const body = ext === ".pdf" ? await renderPdf(source) : ext === ".docx" ? await renderDocx(source) : null;
+    if (!body) throw new Error(`${c.id}: can't build a ${ext} fixture`);
+    await fs.writeFile(path.join(CORPUS_DIR, c.file), body);
+    console.log(`wrote ${c.file}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+// -----------------------------
+// Offline eval
+// -----------------------------
+// Scores the review pipeline against the golden corpus and compares the
+// result with eval/baseline.json. Exits 1 when any metric regresses.
+//
+//   npm run eval                                  mock model (CI)
+//   npm run eval -- --model recorded              replay eval/recording.json
+//   npm run eval -- --model openai --record       live run that refreshes the recording
+//   npm run eval -- --update-baseline             accept the current scores
+//
+// Other flags: --case <id> (repeatable), --recording <file>, --json <file>.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  createRecordingProvider, createReplayProvider, findRegressions, formatReport, loadCorpus, metricsOf, MissingRecordingError, runEval,
+  type EvalMetrics,
+} from "@/lib/eval";
+import { getProvider, isProviderName, type LLMProvider } from "@/lib/llm";
+
+const BASELINE = path.join(process.cwd(), "eval", "baseline.json");
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      model: { type: "string", default: "mock" },
+      record: { type: "boolean", default: false },
+      recording: { type: "string", default: path.join("eval", "recording.json") },
+      case: { type: "string", multiple: true },
+      json: { type: "string" },
+      "update-baseline": { type: "boolean", default: false },
+    },
+  });
+  const model = values.model!;
+
+  let provider: LLMProvider;
+  let save: (() => Promise<void>) | undefined;
+  if (model === "recorded") {
+    provider = await createReplayProvider(values.recording!);
+  } else if (isProviderName(model)) {
+    provider = getProvider(model);
+    if (values.record) {
+      const recorder = createRecordingProvider(provider, values.recording!);
+      provider = recorder;
+      save = recorder.save;
+    }
+  } else {
+    console.error(`Unknown model "${model}". Use recorded, openai, gemini or mock.`);
+    return 2;
+  }
+
+  let cases = await loadCorpus();
+  if (values.case?.length) cases = cases.filter((c) => values.case!.includes(c.id));
+  if (!cases.length) {
+    console.error("No corpus cases selected.");
+    return 2;
+  }
+
+  const report = await runEval(provider, cases, { onCase: (s) => console.error(`  scored ${s.id}`) });
+  await save?.();
+  console.log(formatReport(report));
+  if (values.json) await fs.writeFile(values.json, JSON.stringify(report, null, 2) + "\n");
+
+  const baselines: Record<string, EvalMetrics> = JSON.parse(await fs.readFile(BASELINE, "utf8").catch(() => "{}"));
+  if (values["update-baseline"]) {
+    if (values.case?.length) {
+      console.error("Refusing to update the baseline from a partial run.");
+      return 2;
+    }
+    baselines[model] = metricsOf(report);
+    await fs.writeFile(BASELINE, JSON.stringify(baselines, null, 2) + "\n");
+    console.log(`\nBaseline for "${model}" updated.`);
+    return 0;
+  }
+
+  const baseline = baselines[model];
+  if (!baseline) {
+    console.log(`\nNo baseline for "${model}" yet; run with --update-baseline to record one.`);
+    return 0;
+  }
+  if (values.case?.length) return 0;
+  const regressions = findRegressions(report, baseline);
+  if (!regressions.length) {
+    console.log("\nNo regressions against the baseline.");
+    return 0;
+  }
+  console.log(`\nRegressions against the baseline:\n${regressions.map((r) => `  ${r}`).join("\n")}`);
+  return 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof MissingRecordingError ? err.message : err);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,31 @@
+// -----------------------------
+// OpenAPI spec
+// -----------------------------
+// Writes the OpenAPI document built from the result types.
+//
+//   npm run openapi                       print to stdout
+//   npm run openapi -- openapi.json       write to a file
+
+import { promises as fs } from "fs";
+import { buildOpenApiSpec } from "@/lib/api";
+
+async function main(): Promise<number> {
+  const out = process.argv[2];
+  const spec = JSON.stringify(buildOpenApiSpec(), null, 2) + "\n";
+  if (!out) {
+    process.stdout.write(spec);
+    return 0;
+  }
+  await fs.writeFile(out, spec);
+  console.error(`Wrote ${out}.`);
+  return 0;
+}
+
+// exitCode rather than exit(): a piped stdout may not have drained yet.
+main().then(
+  (code) => { process.exitCode = code; },
+  (err) => {
+    console.error(err);
+    process.exit(2);
+  }
+);
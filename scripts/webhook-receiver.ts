@@ -0,0 +1,64 @@
+// -----------------------------
+// Local webhook receiver
+// -----------------------------
+// A receiver to point a webhook at while developing: it checks each
+// delivery's signature and prints the event.
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhook:receive
+//   npm run webhook:receive -- --port 4001 --fail 2     answer 500 to the first 2 requests (to watch the retries)
+//
+// Then, with the app started with WEBHOOK_ALLOW_PRIVATE=1 (localhost is refused otherwise), register it:
+// POST /api/webhooks {"url": "http://localhost:4000/"}.
+// Without WEBHOOK_SECRET, signatures are shown but not checked.
+
+import { createServer } from "http";
+import { parseArgs } from "util";
+import { EVENT_HEADER, ID_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature, type WebhookEvent } from "@/lib/webhooks";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: process.env.PORT ?? "4000" },
+    fail: { type: "string", default: "0" },
+  },
+});
+
+const secret = process.env.WEBHOOK_SECRET;
+let failures = Number(values.fail) || 0;
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (c: Buffer) => chunks.push(c));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const header = (name: string) => {
+      const v = req.headers[name.toLowerCase()];
+      return typeof v === "string" ? v : null;
+    };
+    const at = new Date().toISOString();
+
+    if (failures > 0) {
+      failures--;
+      console.log(`${at} ${header(ID_HEADER)} → 500 (simulated failure, ${failures} left)`);
+      res.writeHead(500).end();
+      return;
+    }
+    if (secret && !verifyWebhookSignature(secret, { body, timestamp: header(TIMESTAMP_HEADER), signature: header(SIGNATURE_HEADER) })) {
+      console.log(`${at} ${header(ID_HEADER)} → 401 bad signature`);
+      res.writeHead(401).end();
+      return;
+    }
+
+    let event: WebhookEvent | null = null;
+    try { event = JSON.parse(body); } catch {}
+    const review = event?.data.review;
+    console.log(
+      `${at} ${header(EVENT_HEADER)} ${header(ID_HEADER)} → 204 ${secret ? "signature ok" : `signature ${header(SIGNATURE_HEADER)} (not checked)`}` +
+        (review ? `\n  review ${review.reviewId}: ${review.risks.length} risks, ${review.counters.length} counters` : "")
+    );
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(Number(values.port), () => {
+  console.log(`Listening on http://localhost:${values.port}/${secret ? "" : " (WEBHOOK_SECRET not set: signatures aren't checked)"}`);
+});